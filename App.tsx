@@ -1,33 +1,93 @@
 
-import React, { useState, useEffect } from 'react';
-import { PenTool, Sparkles, Layout, ChevronRight, FileText, LogOut } from 'lucide-react';
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { PenTool, Sparkles, Layout, LogOut, Trash2, RefreshCw, Tags, WandSparkles, LayoutGrid, ListTree } from 'lucide-react';
+import { PieChart, Pie, Cell, Tooltip, Legend } from 'recharts';
 import { Session } from '@supabase/supabase-js';
 
 import NoteInput from './components/NoteInput';
 import NoteCard from './components/NoteCard';
 import InsightGenerator from './components/InsightGenerator';
 import StackDetailModal from './components/StackDetailModal';
+import NoteOutline from './components/NoteOutline';
 import NoteDetailModal from './components/NoteDetailModal';
 import ConfirmDialog from './components/ConfirmDialog';
+import ToastStack from './components/ToastStack';
+import LoadMoreSentinel from './components/LoadMoreSentinel';
+import TrashView from './components/TrashView';
+import TagManager from './components/TagManager';
+import NoteSearch from './components/NoteSearch';
+import GroupingSuggestions from './components/GroupingSuggestions';
+import AutoOrganizePanel from './components/AutoOrganizePanel';
 import ArticleArchitect from './components/HistoryWorkbench'; // Renamed import for clarity, though file is still HistoryWorkbench.tsx
 import PlatoTest from './components/PlatoTest';
+import UsagePanel from './components/UsagePanel';
 import Auth from './components/Auth';
-import { analyzeNoteContent, generateStackTitle, determineStackCategory } from '@/services/geminiService';
+import { generateStackTitle, determineStackCategory, REVIEW_TAG } from '@/services/aiProvider';
 import { supabase } from './services/supabaseClient';
-import { Note, NoteType, CategoryData, InsightHistoryItem, StackCategory, InsightPlatform } from './types';
-
-
-
-const App: React.FC = () => {
+import { describePlatoError } from './services/platoClient';
+import { startUsageTracking } from './services/usageTracker';
+import { enqueueCapture, startCaptureSync, pendingCaptureToNote, PendingCapture } from './services/captureOutbox';
+import { invalidateAnalysisVocabulary } from './services/analysisVocabulary';
+import { startEmbeddingSync, EmbeddingSync } from './services/noteEmbeddings';
+import { isLooseNote } from './services/autoOrganize';
+import {
+  createSupabaseRepositories, Repositories, NotesCursor, NoteConflictError, StackDeleteMode, DeleteReceipt, Taxonomy,
+  applyNoteChange, applyInsightChange, findNote, flattenNoteTree, patchNoteInTree, mergeNotesIntoTree, removeNoteFromTree, stackSize,
+  renameTagInTree, renameCategoryInTree, stackAncestors, createsStackCycle,
+} from './services/repositories';
+import { useNoteMutations } from './hooks/useNoteMutations';
+import { useNoteReanalysis } from './hooks/useNoteReanalysis';
+import { useAutoOrganize, StackPreset } from './hooks/useAutoOrganize';
+import { useStackMetadata } from './hooks/useStackMetadata';
+import { useToasts } from './hooks/useToasts';
+import { Note, NoteType, CategoryData, InsightHistoryItem, StackCategory, NoteAnalysisPatch } from './types';
+
+
+
+const NOTES_PAGE_SIZE = 30;
+const RELATED_NOTES_LIMIT = 5;
+// 今日捕捉的展示方式（瀑布流 / 大纲），记在本机
+const CAPTURE_LAYOUT_KEY = 'growthloop.captureLayout';
+type CaptureLayout = 'waterfall' | 'outline';
+
+interface AppProps {
+  // 数据访问层，默认使用 Supabase；测试或离线演示时可传入 createInMemoryRepositories
+  createRepositories?: (userId: string) => Repositories;
+}
+
+const App: React.FC<AppProps> = ({ createRepositories = createSupabaseRepositories }) => {
   const [session, setSession] = useState<Session | null>(null);
-  const [notes, setNotes] = useState<Note[]>([]);
+  const { toasts, show: showToast, dismiss: dismissToast } = useToasts();
+  const notifyError = useCallback((message: string) => showToast(message, 'error'), [showToast]);
+  // notes 已包含尚未完成的乐观更新；setNotes 只更新服务端确认过的状态
+  const { notes, setNotes, mutate, pendingCount } = useNoteMutations(notifyError);
+  const [pendingCaptures, setPendingCaptures] = useState<PendingCapture[]>([]);
+  // 分页：游标指向已加载的最后一条顶层笔记；null 表示没有更多
+  const notesCursor = useRef<NotesCursor | null>(null);
+  const [hasMoreNotes, setHasMoreNotes] = useState(false);
+  const [isLoadingNotes, setIsLoadingNotes] = useState(false);
+  const [noteCount, setNoteCount] = useState(0);
   const [insightHistory, setInsightHistory] = useState<InsightHistoryItem[]>([]);
-  const [view, setView] = useState<'capture' | 'insights' | 'architect' | 'plato'>('capture');
+  const [view, setView] = useState<'capture' | 'insights' | 'architect' | 'plato' | 'trash' | 'tags'>('capture');
+  const [trashNotes, setTrashNotes] = useState<Note[]>([]);
+  const [isLoadingTrash, setIsLoadingTrash] = useState(false);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ tags: [], categories: [] });
+  const [isLoadingTaxonomy, setIsLoadingTaxonomy] = useState(false);
+  const [isSearchActive, setIsSearchActive] = useState(false);
+  const [captureLayout, setCaptureLayout] = useState<CaptureLayout>(
+    () => (localStorage.getItem(CAPTURE_LAYOUT_KEY) === 'outline' ? 'outline' : 'waterfall')
+  );
+  // 后台每写入一批笔记向量就递增，相关笔记与整理建议据此刷新
+  const [embeddingVersion, setEmbeddingVersion] = useState(0);
+  const embeddingSync = useRef<EmbeddingSync | null>(null);
+  const tagSuggestions = useMemo(() => taxonomy.tags.map(entry => entry.name), [taxonomy]);
+  const categorySuggestions = useMemo(() => taxonomy.categories.map(entry => entry.name), [taxonomy]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedStack, setSelectedStack] = useState<Note | null>(null);
   const [noteToDelete, setNoteToDelete] = useState<string | null>(null);
   const [selectedNote, setSelectedNote] = useState<Note | null>(null);
+  // 同一条笔记在两台设备上被编辑：保存本地待写入的内容与远端最新版本，让用户选择保留哪一份
+  const [editConflict, setEditConflict] = useState<{ noteId: string; content: string; remote: Note } | null>(null);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -43,161 +103,219 @@ const App: React.FC = () => {
     return () => subscription.unsubscribe()
   }, []);
 
+  const repositories = useMemo(
+    () => (session ? createRepositories(session.user.id) : null),
+    [session?.user.id, createRepositories]
+  );
+
+  // 后台重新分析或重新生成卡片组标题后，把结果合并进列表
+  const handleNoteAnalyzed = useCallback((note: Note) => {
+    setNotes(prev => patchNoteInTree(prev, note.id, note));
+  }, [setNotes]);
+  const {
+    reanalyze, scheduleReanalysis, reanalyzeFlagged, cancelBulkReanalysis, reanalyzingIds, bulkProgress,
+  } = useNoteReanalysis(repositories, handleNoteAnalyzed, notifyError);
+  const { scheduleRefresh: scheduleStackRefresh } = useStackMetadata(repositories, handleNoteAnalyzed, notifyError);
+  // 已加载的笔记中是否有分析失败、等待复核的
+  const hasFlaggedNotes = useMemo(
+    () => flattenNoteTree(notes).some(note => note.analysis_tags?.includes(REVIEW_TAG)),
+    [notes]
+  );
+
   useEffect(() => {
-    if (session) {
+    if (repositories) {
       getNotes();
+      getNoteCount();
+      getTaxonomy();
       getInsightHistory();
     }
-  }, [session]);
+  }, [repositories]);
 
-  const getNotes = async () => {
-    try {
-      const { data: allNotes, error } = await supabase
-        .from('notes')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      if (allNotes) {
-        const notesMap = new Map<string, Note>();
-        allNotes.forEach(note => notesMap.set(note.id, { ...note, stackItems: [] }));
-
-        const rootNotes: Note[] = [];
-        allNotes.forEach(note => {
-          if (note.parent_stack_id && notesMap.has(note.parent_stack_id)) {
-            const parent = notesMap.get(note.parent_stack_id)!;
-            parent.stackItems?.push(notesMap.get(note.id)!);
-          } else {
-            rootNotes.push(notesMap.get(note.id)!);
-          }
-        });
-
-        setNotes(rootNotes);
+  // Merge changes made on other devices (and echoes of our own writes) into local state
+  useEffect(() => {
+    if (!repositories) return;
+    let countTimer: ReturnType<typeof setTimeout> | undefined;
+    const stopNotes = repositories.notes.subscribe(change => {
+      clearTimeout(countTimer);
+      countTimer = setTimeout(() => {
+        getNoteCount();
+        getTaxonomy();
+        embeddingSync.current?.wake();
+      }, 1000);
+      if (change.type === 'resync') {
+        getNotes();
+        return;
       }
+      setNotes(prev => {
+        // 尚未加载到的旧笔记等翻到那一页时再出现，避免插在已加载列表的末尾
+        const cursor = notesCursor.current;
+        const isUnloaded = change.type === 'upsert' && !findNote(prev, change.record.id)
+          && !!cursor && change.record.created_at < cursor.createdAt;
+        return isUnloaded ? prev : applyNoteChange(prev, change);
+      });
+    });
+    const stopInsights = repositories.insights.subscribe(change => {
+      if (change.type === 'resync') getInsightHistory();
+      else setInsightHistory(prev => applyInsightChange(prev, change));
+    });
+    return () => {
+      clearTimeout(countTimer);
+      stopNotes();
+      stopInsights();
+    };
+  }, [repositories]);
+
+  // Sync notes captured offline (or before analysis finished) from the local outbox
+  useEffect(() => {
+    if (!session || !repositories) return;
+    return startCaptureSync(session.user.id, repositories, {
+      onChange: setPendingCaptures,
+      onSaved: note => setNotes(prev => applyNoteChange(prev, { type: 'upsert', record: note })),
+    });
+  }, [repositories]);
+
+  // 为新增或修改过的笔记计算向量，供相关笔记与整理建议使用
+  useEffect(() => {
+    if (!repositories) return;
+    const sync = startEmbeddingSync(repositories, () => setEmbeddingVersion(version => version + 1));
+    embeddingSync.current = sync;
+    return () => {
+      sync.stop();
+      embeddingSync.current = null;
+    };
+  }, [repositories]);
+
+  // 待同步卡片的图片来自本地 Blob，用 object URL 展示，列表变化时释放旧的 URL
+  const pendingNotes = useMemo(
+    () => pendingCaptures.map(capture =>
+      pendingCaptureToNote(capture, capture.image && !capture.imageUrl ? URL.createObjectURL(capture.image) : undefined)
+    ),
+    [pendingCaptures]
+  );
+  useEffect(() => () => {
+    pendingNotes.forEach(note => { if (note.image_url?.startsWith('blob:')) URL.revokeObjectURL(note.image_url); });
+  }, [pendingNotes]);
+
+  const visibleNotes = useMemo(() => {
+    const pendingIds = new Set(pendingNotes.map(note => note.id));
+    return [...pendingNotes, ...notes.filter(note => !pendingIds.has(note.id))];
+  }, [pendingNotes, notes]);
+
+  // 打开的详情弹窗跟随最新数据；笔记在别处被删除时关闭
+  useEffect(() => {
+    setSelectedStack(prev => (prev ? findNote(notes, prev.id) ?? null : null));
+    setSelectedNote(prev => (prev ? findNote(notes, prev.id) ?? null : null));
+  }, [notes]);
+
+  // 洞察与架构师视图需要卡片组的成员，进入时补齐尚未加载的部分
+  useEffect(() => {
+    if (view !== 'insights' && view !== 'architect') return;
+    const unloaded = notes.filter(note => note.stackItemCount !== undefined).map(note => note.id);
+    if (unloaded.length) loadStackItems(unloaded);
+  }, [view, notes]);
+
+  useEffect(() => {
+    if (view === 'trash') getTrash();
+    if (view === 'tags') getTaxonomy(true);
+  }, [view, repositories]);
+
+  // Record token usage and cost of every AI call for the signed-in user
+  useEffect(() => {
+    if (!session) return;
+    return startUsageTracking(session.user.id);
+  }, [session?.user.id]);
+
+  /** 加载第一页（重置列表），或在 more 为 true 时追加下一页 */
+  const getNotes = async (more = false) => {
+    if (!repositories || (more && !notesCursor.current)) return;
+    setIsLoadingNotes(true);
+    try {
+      const page = await repositories.notes.listPage({
+        cursor: more ? notesCursor.current : null,
+        limit: NOTES_PAGE_SIZE,
+      });
+      setNotes(prev => (more ? mergeNotesIntoTree(prev, page.notes) : page.notes));
+      notesCursor.current = page.nextCursor;
+      setHasMoreNotes(!!page.nextCursor);
     } catch (error: any) {
       console.error('Error fetching notes:', error.message);
+    } finally {
+      setIsLoadingNotes(false);
     }
   };
 
-  const getInsightHistory = async () => {
+  const getNoteCount = async () => {
+    if (!repositories) return;
     try {
-      const { data, error } = await supabase
-        .from('insights')
-        .select('*')
-        .order('created_at', { ascending: false });
+      setNoteCount(await repositories.notes.count());
+    } catch (error: any) {
+      console.error('Error counting notes:', error.message);
+    }
+  };
 
-      if (error) throw error;
+  const getTaxonomy = async (showLoading = false) => {
+    if (!repositories) return;
+    if (showLoading) setIsLoadingTaxonomy(true);
+    try {
+      setTaxonomy(await repositories.taxonomy.get());
+    } catch (error: any) {
+      console.error('Error fetching tags:', error.message);
+    } finally {
+      setIsLoadingTaxonomy(false);
+    }
+  };
 
-      if (data) {
-        setInsightHistory(data as InsightHistoryItem[]);
-      }
+  const loadStackItems = async (stackIds: string[]) => {
+    if (!repositories) return;
+    try {
+      const items = await repositories.notes.listStackItems(stackIds);
+      setNotes(prev => mergeNotesIntoTree(prev, items, stackIds));
+    } catch (error: any) {
+      console.error('Error loading stack items:', error.message);
+      notifyError('加载卡片组内容失败：' + error.message);
+    }
+  };
+
+  const getInsightHistory = async () => {
+    if (!repositories) return;
+    try {
+      setInsightHistory(await repositories.insights.list());
     } catch (error: any) {
       console.error('Error fetching insight history:', error.message);
     }
   };
 
-  const handleSaveNote = async (content: string, imageBase64?: string) => {
-    if (!session) return;
+  // 先写入本地队列再返回，分析、上传与入库由 startCaptureSync 在后台完成
+  const handleSaveNote = async (content: string, imageBase64?: string): Promise<boolean> => {
+    if (!session) return false;
     setIsProcessing(true);
-
     try {
-      // 1. Analyze content first
-      const analysis = await analyzeNoteContent(content, imageBase64);
-
-      let imageUrl: string | undefined = undefined;
-
-      // 2. Handle image upload if present
-      if (imageBase64) {
-        const filePath = `${session.user.id}/${new Date().getTime()}.png`;
-        const imageFile = await (await fetch(imageBase64)).blob();
-
-        const { error: uploadError } = await supabase.storage
-          .from('notes-images') // Assuming a bucket named 'notes-images'
-          .upload(filePath, imageFile, { contentType: 'image/png' });
-
-        if (uploadError) throw uploadError;
-
-        const { data: publicUrlData } = supabase.storage
-          .from('notes-images')
-          .getPublicUrl(filePath);
-
-        imageUrl = publicUrlData.publicUrl;
-      }
-
-      // 3. Prepare note object for DB
-      const noteToInsert = {
-        user_id: session.user.id,
-        content,
-        image_url: imageUrl,
-        type: imageUrl ? (content ? NoteType.MIXED : NoteType.IMAGE) : NoteType.TEXT,
-        analysis_category: analysis.category,
-        analysis_tags: analysis.tags,
-        analysis_sentiment: analysis.sentiment,
-      };
-
-      // 4. Insert into Supabase
-      const { data, error } = await supabase
-        .from('notes')
-        .insert(noteToInsert)
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // 5. Update local state
-      if (data) {
-        setNotes(prev => [data as Note, ...prev]);
-      }
-
+      await enqueueCapture(session.user.id, content, imageBase64);
+      return true;
     } catch (e: any) {
-      console.error("Failed to save note:", e.message);
-      alert('Error: ' + e.message);
+      console.error("Failed to queue note:", e.message);
+      notifyError('本地保存失败，内容已保留在输入框中：' + e.message);
+      return false;
     } finally {
       setIsProcessing(false);
     }
   };
 
   const handleSaveToHistory = async (item: Omit<InsightHistoryItem, 'id' | 'createdAt'>) => {
-    if (!session) return;
+    if (!repositories) return;
     try {
-      const insightToInsert = {
-        ...item,
-        user_id: session.user.id,
-      };
-
-      const { data, error } = await supabase
-        .from('insights')
-        .insert(insightToInsert)
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      if (data) {
-        setInsightHistory(prev => [data as InsightHistoryItem, ...prev]);
-      }
+      const saved = await repositories.insights.create(item);
+      setInsightHistory(prev => [saved, ...prev]);
     } catch (error: any) {
       console.error('Error saving insight:', error.message);
     }
   };
 
   const handleUpdateHistory = async (id: string, newContent: string) => {
+    if (!repositories) return;
     try {
-      const { data, error } = await supabase
-        .from('insights')
-        .update({ content: newContent })
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      if (data) {
-        setInsightHistory(prev =>
-          prev.map(item => (item.id === id ? (data as InsightHistoryItem) : item))
-        );
-      }
+      const updated = await repositories.insights.update(id, { content: newContent });
+      setInsightHistory(prev => prev.map(item => (item.id === id ? updated : item)));
     } catch (error: any) {
       console.error('Error updating insight:', error.message);
     }
@@ -208,164 +326,381 @@ const App: React.FC = () => {
     setView('architect');
   };
 
-  const handleUpdateNote = async (noteId: string, newContent: string) => {
+  // baseUpdatedAt 是编辑开始时看到的版本；期间若被其他设备或另一个编辑入口改过，就提示冲突而不是静默覆盖
+  const handleUpdateNote = async (noteId: string, newContent: string, baseUpdatedAt?: string, force = false) => {
+    if (!repositories) return;
+    const expectedUpdatedAt = force ? undefined : baseUpdatedAt ?? findNote(notes, noteId)?.updated_at;
+    const result = await mutate({
+      apply: tree => patchNoteInTree(tree, noteId, { content: newContent }),
+      commit: () => repositories.notes.update(noteId, { content: newContent }, { expectedUpdatedAt }),
+      settle: (tree, updated) => applyNoteChange(tree, { type: 'upsert', record: updated }),
+      failureMessage: '保存修改失败',
+      onError: error => {
+        if (!(error instanceof NoteConflictError)) return false;
+        if (error.current) {
+          setEditConflict({ noteId, content: newContent, remote: error.current });
+        } else {
+          setNotes(prev => applyNoteChange(prev, { type: 'delete', id: noteId }));
+          notifyError('这条笔记已在其他设备上删除，修改未保存');
+        }
+        return true;
+      },
+    });
+    // 内容变了，原来的分类和标签不再可信
+    if (result.ok) scheduleReanalysis(noteId);
+  };
+
+  const handleReanalyzeNote = async (noteId: string) => {
+    const result = await reanalyze(noteId, { refresh: true });
+    if (result.ok === false && !result.stale) notifyError(`重新分析失败：${result.message}`);
+  };
+
+  const handleReanalyzeFlagged = async () => {
     try {
-      const { data, error } = await supabase
-        .from('notes')
-        .update({ content: newContent })
-        .eq('id', noteId)
-        .select()
-        .single();
+      const progress = await reanalyzeFlagged();
+      if (!progress) return;
+      const succeeded = progress.done - progress.failed;
+      showToast(progress.failed > 0
+        ? `已重新分析 ${succeeded} 条笔记，${progress.failed} 条仍需人工复核`
+        : `已重新分析 ${succeeded} 条笔记`);
+    } catch (error: any) {
+      console.error('Error loading notes for re-analysis:', error?.message || error);
+      notifyError('加载待复核笔记失败');
+    }
+  };
+
+  // 手动修改分类或标签；之后的分析会沿用更新后的词表
+  const handleUpdateAnalysis = async (noteId: string, patch: NoteAnalysisPatch) => {
+    if (!repositories) return;
+    const result = await mutate({
+      apply: tree => patchNoteInTree(tree, noteId, patch),
+      commit: () => repositories.notes.update(noteId, patch),
+      settle: (tree, updated) => applyNoteChange(tree, { type: 'upsert', record: updated }),
+      failureMessage: patch.analysis_category !== undefined ? '修改分类失败' : '修改标签失败',
+    });
+    if (result.ok) {
+      invalidateAnalysisVocabulary(repositories);
+      getTaxonomy();
+    }
+  };
 
-      if (error) throw error;
+  /** 重命名/合并标签，to 为 null 表示从所有笔记中删除 */
+  const handleRenameTag = async (from: string, to: string | null) => {
+    if (!repositories) return;
+    const result = await mutate({
+      apply: tree => renameTagInTree(tree, from, to),
+      commit: () => repositories.taxonomy.renameTag(from, to),
+      failureMessage: to ? '修改标签失败' : '删除标签失败',
+    });
+    invalidateAnalysisVocabulary(repositories);
+    getTaxonomy();
+    if (result.ok) showToast(to ? `已将 ${result.data} 条笔记的“${from}”改为“${to}”` : `已从 ${result.data} 条笔记中移除“${from}”`);
+  };
 
-      if (data) {
-        setNotes(prev => prev.map(n => (n.id === noteId ? (data as Note) : n)));
+  const handleRenameCategory = async (from: string, to: string) => {
+    if (!repositories) return;
+    const result = await mutate({
+      apply: tree => renameCategoryInTree(tree, from, to),
+      commit: () => repositories.taxonomy.renameCategory(from, to),
+      failureMessage: '修改分类失败',
+    });
+    invalidateAnalysisVocabulary(repositories);
+    getTaxonomy();
+    if (result.ok) showToast(`已将 ${result.data} 条笔记的分类“${from}”改为“${to}”`);
+  };
+
+  // 搜索结果与相关笔记可能还没加载到（更早的分页或未展开的卡片组）：先并入列表，打开的弹窗才能跟随后续修改
+  const handleOpenNote = async (result: Note) => {
+    if (!repositories) return;
+    const stackId = result.type === NoteType.STACK ? result.id : result.parent_stack_id;
+    const loadedStack = stackId ? findNote(notes, stackId) : undefined;
+    const stackComplete = !stackId || (loadedStack && loadedStack.stackItemCount === undefined);
+    if (!findNote(notes, result.id) || !stackComplete) {
+      try {
+        const stack = stackId ? loadedStack ?? await repositories.notes.get(stackId) : null;
+        const items = stackId ? await repositories.notes.listStackItems([stackId]) : [];
+        setNotes(prev => mergeNotesIntoTree(prev, [result, ...(stack ? [stack] : []), ...items], stackId ? [stackId] : []));
+      } catch (error: any) {
+        console.error('Error opening note:', error.message);
+        notifyError('打开笔记失败');
+        return;
       }
-    } catch (error: any) {
-      console.error('Error updating note:', error.message);
     }
+    const current = findNote(notes, result.id) ?? result;
+    if (result.type === NoteType.STACK) setSelectedStack(current);
+    else setSelectedNote(current);
+  };
+
+  const handleResolveConflict = (keepMine: boolean) => {
+    if (!editConflict) return;
+    if (keepMine) handleUpdateNote(editConflict.noteId, editConflict.content, undefined, true);
+    else setNotes(prev => applyNoteChange(prev, { type: 'upsert', record: editConflict.remote }));
+    setEditConflict(null);
   };
 
   const handleDeleteNote = (noteId: string) => {
     setNoteToDelete(noteId);
   };
 
-  const handleConfirmDelete = async () => {
-    if (!noteToDelete) return;
-    try {
-      const { error } = await supabase
-        .from('notes')
-        .delete()
-        .eq('id', noteToDelete);
+  // 删除只是移入回收站，几秒内可以从提示中撤销
+  const handleConfirmDelete = async (stackMode: StackDeleteMode = 'dissolve') => {
+    if (!noteToDelete || !repositories) return;
+    const noteId = noteToDelete;
+    setNoteToDelete(null);
 
-      if (error) throw error;
+    // 解散时成员要回到上一级（主列表或外层卡片组），先确保它们已加载
+    if (stackMode === 'dissolve' && findNote(notes, noteId)?.stackItemCount) await loadStackItems([noteId]);
 
-      setNotes(prev => prev.filter(note => note.id !== noteToDelete));
-      setNoteToDelete(null);
+    const result = await mutate({
+      apply: tree => removeNoteFromTree(tree, noteId, stackMode),
+      commit: () => repositories.notes.remove(noteId, { stackMode }),
+      failureMessage: '删除失败',
+    });
+    if (result.ok === false) return;
+    showToast(result.data.ids.length > 1 ? `已将 ${result.data.ids.length} 项移入回收站` : '已移入回收站', 'info', {
+      label: '撤销',
+      onClick: () => handleUndoDelete(result.data),
+    });
+  };
+
+  const handleUndoDelete = async (receipt: DeleteReceipt) => {
+    if (!repositories) return;
+    try {
+      const restored = await repositories.notes.undoRemove(receipt);
+      setNotes(prev => mergeNotesIntoTree(prev, restored));
     } catch (error: any) {
-      console.error('Error deleting note:', error.message);
+      console.error('Error undoing delete:', error.message);
+      notifyError('撤销失败：' + error.message);
     }
   };
 
-
-  // --- Stacking Logic ---
-  const handleNoteDrop = async (sourceId: string, targetId: string) => {
-    if (!session) return;
-
-    const { data: targetNote } = await supabase.from('notes').select('*').eq('id', targetId).single();
-    if (!targetNote) return;
-
+  // --- Trash ---
+  const getTrash = async () => {
+    if (!repositories) return;
+    setIsLoadingTrash(true);
     try {
-      if (targetNote.type === NoteType.STACK) {
-        // Case 1: Drop onto an existing stack
-        const { error } = await supabase
-          .from('notes')
-          .update({ parent_stack_id: targetId })
-          .eq('id', sourceId);
-        if (error) throw error;
-      } else {
-        // Case 2: Drop onto a regular note to create a new stack
-        const [title, category] = await Promise.all([
-          generateStackTitle([/* Pass relevant notes info */]),
-          determineStackCategory([/* Pass relevant notes info */])
-        ]);
-
-        const { data: newStack, error: stackError } = await supabase
-          .from('notes')
-          .insert({
-            user_id: session.user.id,
-            type: NoteType.STACK,
-            title: title,
-            stack_category: category,
-            content: 'New Stack'
-          })
-          .select()
-          .single();
-
-        if (stackError) throw stackError;
-
-        if (newStack) {
-          const { error: updateError } = await supabase
-            .from('notes')
-            .update({ parent_stack_id: newStack.id })
-            .in('id', [sourceId, targetId]);
-          if (updateError) throw updateError;
-        }
-      }
-      // Refresh data from DB
-      await getNotes();
+      setTrashNotes(await repositories.notes.listTrash());
     } catch (error: any) {
-      console.error('Error handling note drop:', error.message);
+      console.error('Error fetching trash:', error.message);
+    } finally {
+      setIsLoadingTrash(false);
     }
   };
 
-  const handleStackCategoryChange = async (noteId: string, newCategory: StackCategory) => {
+  const handleRestoreFromTrash = async (noteId: string) => {
+    if (!repositories) return;
     try {
-      const { error } = await supabase
-        .from('notes')
-        .update({ stack_category: newCategory })
-        .eq('id', noteId);
-      if (error) throw error;
-      await getNotes(); // Refresh
+      const restored = await repositories.notes.restore([noteId]);
+      setTrashNotes(prev => prev.filter(note => note.id !== noteId));
+      setNotes(prev => mergeNotesIntoTree(prev, restored));
+      showToast('已恢复');
     } catch (error: any) {
-      console.error('Error updating stack category:', error.message);
+      console.error('Error restoring note:', error.message);
+      notifyError('恢复失败：' + error.message);
     }
   };
 
-  const handleRemoveFromStack = async (noteId: string) => {
+  const handlePurge = async (noteIds: string[]) => {
+    if (!repositories) return;
+    const previous = trashNotes;
+    setTrashNotes(prev => prev.filter(note => !noteIds.includes(note.id)));
     try {
-      const { error } = await supabase
-        .from('notes')
-        .update({ parent_stack_id: null })
-        .eq('id', noteId);
-      if (error) throw error;
-      setSelectedStack(null); // Close modal
-      await getNotes(); // Refresh
+      await repositories.notes.purge(noteIds);
     } catch (error: any) {
-      console.error('Error removing note from stack:', error.message);
+      setTrashNotes(previous);
+      console.error('Error purging notes:', error.message);
+      notifyError('永久删除失败：' + error.message);
     }
   };
 
-  const handleCreateStackFromNotes = async (sourceNotes: Note[]): Promise<string> => {
-    if (!session) return '';
+  // --- Stacking Logic ---
+  // 拖放语义：
+  // - 笔记拖到卡片组（或卡片组中的笔记）上：移入该卡片组，也可以从另一个卡片组移过来
+  // - 卡片组拖到另一个卡片组上：合并，成员全部移入目标，拖动的卡片组移入回收站（可撤销）
+  // - 卡片组拖到零散笔记上：把这条笔记收进拖动的卡片组
+  // - 两条零散笔记：以两者为成员新建卡片组
+  // 成员有变化的卡片组随后按新成员重新生成标题与风格
+  const handleNoteDrop = async (sourceId: string, targetId: string) => {
+    if (!repositories || sourceId === targetId) return;
+    const source = findNote(notes, sourceId);
+    const target = findNote(notes, targetId);
+    if (!source || !target) return;
+    const destinationId = target.type === NoteType.STACK ? target.id : target.parent_stack_id;
+
+    if (source.type === NoteType.STACK) {
+      if (destinationId === source.id) return;
+      if (destinationId && createsStackCycle(notes, [source.id], destinationId)) {
+        notifyError('不能把卡片组并入它自己的子卡片组');
+        return;
+      }
+      if (destinationId) await handleMergeStacks(source, destinationId);
+      else await handleMoveToStack([target.id], source.id);
+      return;
+    }
+    if (destinationId) {
+      if (source.parent_stack_id !== destinationId) await handleMoveToStack([source.id], destinationId);
+      return;
+    }
+    const stackId = await handleCreateStackFromNotes([target, source]);
+    if (stackId) scheduleStackRefresh(source.parent_stack_id);
+  };
+
+  // 大纲视图中拖到卡片组上即放进去，卡片组也不例外（成为子卡片组），其余情况与瀑布流相同
+  const handleOutlineDrop = async (sourceId: string, targetId: string) => {
+    const source = findNote(notes, sourceId);
+    const target = findNote(notes, targetId);
+    if (!source || !target) return;
+    if (target.type !== NoteType.STACK) return handleNoteDrop(sourceId, targetId);
+    if (source.parent_stack_id !== target.id) await handleMoveToStack([sourceId], target.id);
+  };
+
+  const handleMoveToStack = async (noteIds: string[], stackId: string) => {
+    if (!repositories) return;
+    if (createsStackCycle(notes, noteIds, stackId)) {
+      notifyError('不能把卡片组移入它自己或它的子卡片组');
+      return;
+    }
+    const previousStackIds = noteIds.map(id => findNote(notes, id)?.parent_stack_id);
+    const result = await mutate({
+      apply: tree => noteIds.reduce((next, id) => patchNoteInTree(next, id, { parent_stack_id: stackId }), tree),
+      commit: () => repositories.notes.moveToStack(noteIds, stackId),
+      failureMessage: '移入卡片组失败',
+    });
+    if (result.ok) scheduleStackRefresh(stackId, ...previousStackIds);
+  };
+
+  const handleMergeStacks = async (source: Note, destinationId: string) => {
+    if (!repositories) return;
+    // 成员未加载时先加载，才能逐个移入目标
+    let memberIds = source.stackItems?.map(item => item.id) ?? [];
+    if (source.stackItemCount !== undefined) {
+      try {
+        const items = await repositories.notes.listStackItems([source.id]);
+        setNotes(prev => mergeNotesIntoTree(prev, items, [source.id]));
+        // listStackItems 返回整棵子树，只移动直接成员；子卡片组会带着自己的成员一起移走
+        memberIds = items.filter(item => item.parent_stack_id === source.id).map(item => item.id);
+      } catch (error: any) {
+        console.error('Error loading stack items:', error.message);
+        notifyError('合并卡片组失败：' + error.message);
+        return;
+      }
+    }
+
+    const result = await mutate({
+      apply: tree => applyNoteChange(
+        memberIds.reduce((next, id) => patchNoteInTree(next, id, { parent_stack_id: destinationId }), tree),
+        { type: 'delete', id: source.id }
+      ),
+      commit: async () => {
+        await repositories.notes.moveToStack(memberIds, destinationId);
+        return repositories.notes.remove(source.id);
+      },
+      failureMessage: '合并卡片组失败',
+    });
+    if (result.ok === false) return;
+    scheduleStackRefresh(destinationId);
+    // 撤销时恢复原卡片组，并把成员放回去
+    const receipt: DeleteReceipt = { ids: result.data.ids, dissolved: { stackId: source.id, noteIds: memberIds } };
+    showToast(`已合并卡片组“${source.title || '未命名卡片组'}”`, 'info', {
+      label: '撤销',
+      onClick: async () => {
+        await handleUndoDelete(receipt);
+        scheduleStackRefresh(destinationId);
+      },
+    });
+  };
+
+  const handleStackCategoryChange = async (noteId: string, newCategory: StackCategory) => {
+    if (!repositories) return;
+    await mutate({
+      apply: tree => patchNoteInTree(tree, noteId, { stack_category: newCategory }),
+      commit: () => repositories.notes.update(noteId, { stack_category: newCategory }),
+      settle: (tree, updated) => applyNoteChange(tree, { type: 'upsert', record: updated }),
+      failureMessage: '修改分类失败',
+    });
+  };
+
+  // 卡片组内的顺序即生成文章时素材的顺序
+  const handleReorderStack = async (stackId: string, orderedIds: string[]) => {
+    if (!repositories) return;
+    await mutate({
+      apply: tree => orderedIds.reduce((next, id, index) => patchNoteInTree(next, id, { position: index }), tree),
+      commit: () => repositories.notes.reorderStack(stackId, orderedIds),
+      failureMessage: '调整顺序失败',
+    });
+  };
+
+  /** 默认移到上一级：子卡片组中的笔记移出后进入外层卡片组；destinationId 为 null 时直接回到主列表 */
+  const handleRemoveFromStack = async (noteId: string, destinationId?: string | null) => {
+    if (!repositories) return;
+    const stackId = findNote(notes, noteId)?.parent_stack_id;
+    if (!stackId) return;
+    const target = destinationId !== undefined ? destinationId : findNote(notes, stackId)?.parent_stack_id ?? null;
+    const result = await mutate({
+      apply: tree => patchNoteInTree(tree, noteId, { parent_stack_id: target }),
+      commit: () => repositories.notes.moveToStack([noteId], target),
+      failureMessage: '移出卡片组失败',
+    });
+    if (result.ok) scheduleStackRefresh(stackId, target);
+  };
+
+  /** preset 为用户确认过的标题与风格（自动整理），不传则由 AI 生成 */
+  const handleCreateStackFromNotes = async (sourceNotes: Note[], preset?: StackPreset): Promise<string> => {
+    if (!repositories) return '';
     try {
-      const [title, category] = await Promise.all([
-        generateStackTitle(sourceNotes),
-        determineStackCategory(sourceNotes)
-      ]);
-
-      const { data: newStack, error: stackError } = await supabase
-        .from('notes')
-        .insert({
-          user_id: session.user.id,
-          type: NoteType.STACK,
-          title: title,
-          stack_category: category,
-          content: 'New Stack from Architect'
-        })
-        .select()
-        .single();
-
-      if (stackError) throw stackError;
-
-      if (newStack) {
-        const sourceIds = sourceNotes.map(n => n.id);
-        const { error: updateError } = await supabase
-          .from('notes')
-          .update({ parent_stack_id: newStack.id })
-          .in('id', sourceIds);
-        if (updateError) throw updateError;
-
-        await getNotes();
-        return newStack.id;
+      let title = preset?.title;
+      let category = preset?.category;
+      if (!preset) {
+        const [titleResult, categoryResult] = await Promise.all([generateStackTitle(sourceNotes), determineStackCategory(sourceNotes)]);
+        // 不用占位标题建组：生成失败时不创建，笔记保持原样，提示原因后由用户重试
+        const failed = [titleResult, categoryResult].find(result => result.ok === false);
+        if (failed?.ok === false) {
+          notifyError(`创建卡片组失败：${describePlatoError(failed)}`);
+          return '';
+        }
+        title = titleResult.ok ? titleResult.data : '';
+        category = categoryResult.ok ? categoryResult.data : StackCategory.GENERAL;
       }
+
+      // 建组与移入由一个数据库函数完成，失败时连同乐观显示的卡片组一起撤回
+      const stackId = crypto.randomUUID();
+      const withStack = (tree: Note[], stack: Note) => sourceNotes.reduce(
+        (next, note) => patchNoteInTree(next, note.id, { parent_stack_id: stack.id }),
+        applyNoteChange(tree, { type: 'upsert', record: stack })
+      );
+      const provisional: Note = {
+        id: stackId, type: NoteType.STACK, title, stack_category: category, content: '',
+        created_at: new Date().toISOString(), parent_stack_id: null, isPending: true,
+      };
+      const result = await mutate({
+        apply: tree => withStack(tree, provisional),
+        commit: () => repositories.notes.createStack({ title, stack_category: category }, sourceNotes.map(n => n.id), { id: stackId }),
+        settle: withStack,
+        failureMessage: '创建卡片组失败',
+      });
+      return result.ok ? result.data.id : '';
     } catch (error: any) {
       console.error('Error creating stack from notes:', error.message);
+      notifyError('创建卡片组失败');
     }
     return '';
   };
 
+  // 提案生成后笔记可能已被移动或删除：只把仍在主列表中的放进新卡片组
+  const handleAcceptProposal = async (proposalNotes: Note[], preset: StackPreset): Promise<string> => {
+    const stillLoose = proposalNotes.filter(note => {
+      const current = findNote(notes, note.id);
+      return current && isLooseNote(current);
+    });
+    if (stillLoose.length < 2) {
+      notifyError('这组笔记已被整理过，请忽略这条提案');
+      return '';
+    }
+    return handleCreateStackFromNotes(stillLoose, preset);
+  };
+  const autoOrganize = useAutoOrganize(repositories, handleAcceptProposal);
+  const looseNoteCount = useMemo(() => notes.filter(isLooseNote).length, [notes]);
+
   // --- Chart Data Preparation ---
   const getCategoryData = (): CategoryData[] => {
     const data: Record<string, number> = {};
@@ -383,6 +718,10 @@ const App: React.FC = () => {
     }));
   };
 
+  // 非空卡片组删除时需要选择如何处理成员
+  const noteBeingDeleted = noteToDelete ? findNote(notes, noteToDelete) : undefined;
+  const deletingStack = noteBeingDeleted?.type === NoteType.STACK && stackSize(noteBeingDeleted) > 0 ? noteBeingDeleted : undefined;
+
   if (!session) {
     return <Auth />;
   }
@@ -439,6 +778,26 @@ const App: React.FC = () => {
           >
             Plato 测试
           </button>
+          <button
+            onClick={() => setView('trash')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl text-sm font-medium transition-all duration-200
+              ${view === 'trash'
+                ? 'bg-slate-900 text-white shadow-md'
+                : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <Trash2 className="w-4 h-4" />
+            回收站 (Trash)
+          </button>
+          <button
+            onClick={() => setView('tags')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl text-sm font-medium transition-all duration-200
+              ${view === 'tags'
+                ? 'bg-slate-900 text-white shadow-md'
+                : 'text-slate-500 hover:bg-slate-50 hover:text-slate-900'}`}
+          >
+            <Tags className="w-4 h-4" />
+            标签管理 (Tags)
+          </button>
 
           <button
             onClick={() => supabase.auth.signOut()}
@@ -454,7 +813,9 @@ const App: React.FC = () => {
             <div className="w-full bg-slate-200 rounded-full h-1.5 mb-2">
               <div className="bg-purple-500 h-1.5 rounded-full" style={{ width: '35%' }}></div>
             </div>
-            <p className="text-xs text-slate-500">{notes.length} 条笔记</p>
+            <p className="text-xs text-slate-500">
+              {noteCount} 条笔记{pendingCaptures.length > 0 && ` · ${pendingCaptures.length} 条待同步`}
+            </p>
           </div>
         </div>
       </aside>
@@ -468,6 +829,46 @@ const App: React.FC = () => {
             <header className="h-16 flex items-center justify-between px-8 bg-white/80 backdrop-blur-md sticky top-0 z-20 border-b border-slate-100">
                <h2 className="text-lg font-bold text-slate-800">今日捕捉</h2>
                <div className="flex items-center gap-2">
+                 {pendingCount > 0 && (
+                   <span className="text-xs font-medium text-purple-600">正在保存 {pendingCount} 项更改…</span>
+                 )}
+                 {bulkProgress ? (
+                   <span className="flex items-center gap-2 text-xs font-medium text-purple-600">
+                     <RefreshCw className="w-3.5 h-3.5 animate-spin" />
+                     正在重新分析 {bulkProgress.done}/{bulkProgress.total}
+                     <button onClick={cancelBulkReanalysis} className="text-slate-400 hover:text-slate-600">停止</button>
+                   </span>
+                 ) : hasFlaggedNotes && (
+                   <button
+                     onClick={handleReanalyzeFlagged}
+                     className="flex items-center gap-1.5 text-xs font-medium text-amber-600 bg-amber-50 hover:bg-amber-100 px-3 py-1 rounded-full transition-colors"
+                   >
+                     <RefreshCw className="w-3.5 h-3.5" /> 重新分析待复核笔记
+                   </button>
+                 )}
+                 {looseNoteCount > 1 && (
+                   <button
+                     onClick={() => autoOrganize.start(notes)}
+                     className="flex items-center gap-1.5 text-xs font-medium text-purple-600 bg-purple-50 hover:bg-purple-100 px-3 py-1 rounded-full transition-colors"
+                   >
+                     <WandSparkles className="w-3.5 h-3.5" /> 自动整理
+                   </button>
+                 )}
+                 <div className="flex items-center bg-slate-100 rounded-full p-0.5">
+                   {([['waterfall', LayoutGrid, '瀑布流'], ['outline', ListTree, '大纲']] as const).map(([layout, Icon, label]) => (
+                     <button
+                       key={layout}
+                       onClick={() => {
+                         setCaptureLayout(layout);
+                         localStorage.setItem(CAPTURE_LAYOUT_KEY, layout);
+                       }}
+                       className={`p-1 rounded-full transition-colors ${captureLayout === layout ? 'bg-white text-purple-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                       title={label}
+                     >
+                       <Icon className="w-3.5 h-3.5" />
+                     </button>
+                   ))}
+                 </div>
                  <span className="text-xs font-medium text-slate-500 bg-slate-100 px-3 py-1 rounded-full">
                    {new Date().toLocaleDateString('zh-CN', { weekday: 'long', month: 'long', day: 'numeric' })}
                  </span>
@@ -484,34 +885,77 @@ const App: React.FC = () => {
             {/* Waterfall Stream */}
             <div className="flex-1 overflow-y-auto px-8 pb-20 no-scrollbar">
               <div className="max-w-5xl mx-auto">
-                <div className="columns-1 md:columns-2 lg:columns-3 gap-6 space-y-6">
-                  {notes.map(note => (
-                    <NoteCard
-                      key={note.id}
-                      note={note}
-                      onClick={(n) => {
-                        if (n.type === NoteType.STACK) {
-                          setSelectedStack(n);
-                        } else {
-                          setSelectedNote(n);
-                        }
-                      }}
-                      onDrop={handleNoteDrop}
-                      onCategoryChange={handleStackCategoryChange}
-                      onUpdate={handleUpdateNote}
-                      onDelete={handleDeleteNote}
+                <div className="max-w-3xl mx-auto mb-6">
+                  {repositories && (
+                    <NoteSearch
+                      onSearch={repositories.search.search}
+                      categories={categorySuggestions}
+                      onOpenNote={handleOpenNote}
+                      onOpenInsight={handleOpenWorkbench}
+                      onActiveChange={setIsSearchActive}
                     />
-                  ))}
-
-                  {notes.length === 0 && (
-                     <div className="col-span-full py-20 text-center">
-                       <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                         <PenTool className="w-6 h-6 text-slate-300" />
-                       </div>
-                       <p className="text-slate-400 font-medium">这里还很空，开始记录你的想法吧...</p>
-                     </div>
                   )}
                 </div>
+
+                {!isSearchActive && (
+                  <>
+                    {repositories && (
+                      <GroupingSuggestions
+                        notes={notes}
+                        loadPairs={repositories.embeddings.similarPairs}
+                        onCreateStack={handleCreateStackFromNotes}
+                        refreshKey={embeddingVersion}
+                      />
+                    )}
+                    {captureLayout === 'outline' && visibleNotes.length > 0 ? (
+                      <NoteOutline
+                        notes={visibleNotes}
+                        onOpen={handleOpenNote}
+                        onLoadItems={loadStackItems}
+                        onDrop={handleOutlineDrop}
+                        onMoveToTop={(noteId) => handleRemoveFromStack(noteId, null)}
+                      />
+                    ) : (
+                      <div className="columns-1 md:columns-2 lg:columns-3 gap-6 space-y-6">
+                        {visibleNotes.map(note => note.isPending ? (
+                          <NoteCard key={note.id} note={note} draggable={false} />
+                        ) : (
+                          <NoteCard
+                            key={note.id}
+                            note={note}
+                            onClick={(n) => {
+                              if (n.type === NoteType.STACK) {
+                                setSelectedStack(n);
+                              } else {
+                                setSelectedNote(n);
+                              }
+                            }}
+                            onDrop={handleNoteDrop}
+                            onCategoryChange={handleStackCategoryChange}
+                            onDelete={handleDeleteNote}
+                            onUpdateAnalysis={handleUpdateAnalysis}
+                            tagSuggestions={tagSuggestions}
+                          />
+                        ))}
+
+                        {visibleNotes.length === 0 && !isLoadingNotes && (
+                           <div className="col-span-full py-20 text-center">
+                             <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                               <PenTool className="w-6 h-6 text-slate-300" />
+                             </div>
+                             <p className="text-slate-400 font-medium">这里还很空，开始记录你的想法吧...</p>
+                           </div>
+                        )}
+                      </div>
+                    )}
+
+                    <LoadMoreSentinel
+                      hasMore={hasMoreNotes}
+                      isLoading={isLoadingNotes}
+                      onLoadMore={() => getNotes(true)}
+                    />
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -535,6 +979,24 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {view === 'trash' && (
+          <TrashView
+            notes={trashNotes}
+            isLoading={isLoadingTrash}
+            onRestore={handleRestoreFromTrash}
+            onPurge={handlePurge}
+          />
+        )}
+
+        {view === 'tags' && (
+          <TagManager
+            taxonomy={taxonomy}
+            isLoading={isLoadingTaxonomy}
+            onRenameTag={handleRenameTag}
+            onRenameCategory={handleRenameCategory}
+          />
+        )}
+
         {view === 'architect' && (
           <div className="h-full flex flex-col">
             <ArticleArchitect
@@ -543,6 +1005,7 @@ const App: React.FC = () => {
               onSaveToHistory={handleSaveToHistory}
               onCreateStack={handleCreateStackFromNotes}
               onUpdateHistory={handleUpdateHistory}
+              onAutoOrganize={() => autoOrganize.start(notes)}
             />
           </div>
         )}
@@ -595,6 +1058,9 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {/* AI Usage */}
+              <UsagePanel />
+
               {/* Daily Quote */}
               <div className="bg-gradient-to-br from-purple-50 to-indigo-50 p-6 rounded-2xl border border-purple-100">
                  <h4 className="text-xs font-bold text-purple-600 uppercase mb-2 tracking-wide">Daily Wisdom</h4>
@@ -617,36 +1083,76 @@ const App: React.FC = () => {
           onClose={() => setSelectedStack(null)}
           onRemoveItem={handleRemoveFromStack}
           onSaveToHistory={handleSaveToHistory}
+          onLoadItems={() => loadStackItems([selectedStack.id])}
+          ancestors={stackAncestors(notes, selectedStack.id)}
+          onOpenStack={setSelectedStack}
+          onOpenNote={handleOpenNote}
+          onReorder={handleReorderStack}
         />
       )}
 
       {selectedNote && (
         <NoteDetailModal
+          key={selectedNote.id}
           note={selectedNote}
           onClose={() => setSelectedNote(null)}
-          onUpdate={(noteId, newContent) => {
-            handleUpdateNote(noteId, newContent);
-            setSelectedNote(prev => prev ? { ...prev, content: newContent } : null);
-          }}
+          onUpdate={handleUpdateNote}
           onDelete={(noteId) => {
             handleDeleteNote(noteId);
             setSelectedNote(null);
           }}
+          onLoadRevisions={(noteId) => repositories.revisions.list(noteId)}
+          onReanalyze={handleReanalyzeNote}
+          isReanalyzing={reanalyzingIds.has(selectedNote.id)}
+          onUpdateAnalysis={handleUpdateAnalysis}
+          tagSuggestions={tagSuggestions}
+          categorySuggestions={categorySuggestions}
+          onLoadRelated={(noteId) => repositories.embeddings.related(noteId, RELATED_NOTES_LIMIT)}
+          onOpenNote={handleOpenNote}
+          relatedRefreshKey={embeddingVersion}
+        />
+      )}
+
+      {autoOrganize.proposals && (
+        <AutoOrganizePanel
+          proposals={autoOrganize.proposals}
+          progress={autoOrganize.progress}
+          acceptingIds={autoOrganize.acceptingIds}
+          onUpdate={autoOrganize.update}
+          onReject={autoOrganize.reject}
+          onAccept={autoOrganize.accept}
+          onClose={autoOrganize.close}
         />
       )}
 
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
         isOpen={!!noteToDelete}
-        title="删除笔记"
-        message="确定要删除这条笔记吗？此操作无法撤销。"
-        confirmText="删除"
+        title={deletingStack ? '删除卡片组' : '删除笔记'}
+        message={deletingStack
+          ? `卡片组中有 ${stackSize(deletingStack)} 条笔记。可以只解散卡片组让它们回到${deletingStack.parent_stack_id ? '外层卡片组' : '主列表'}，也可以连同它们一起移入回收站。`
+          : '确定要删除这条笔记吗？删除后可在回收站中恢复。'}
+        confirmText={deletingStack ? '全部删除' : '删除'}
         cancelText="取消"
         danger
-        onConfirm={handleConfirmDelete}
+        extraAction={deletingStack ? { text: '仅解散卡片组', onClick: () => handleConfirmDelete('dissolve') } : undefined}
+        onConfirm={() => handleConfirmDelete(deletingStack ? 'cascade' : 'dissolve')}
         onCancel={() => setNoteToDelete(null)}
       />
 
+      <ToastStack toasts={toasts} onDismiss={dismissToast} />
+
+      {/* Edit Conflict Dialog */}
+      <ConfirmDialog
+        isOpen={!!editConflict}
+        title="笔记已在其他设备上修改"
+        message={`其他设备上的最新内容为“${editConflict?.remote.content.slice(0, 80) ?? ''}”。要用你刚才的修改覆盖它吗？`}
+        confirmText="用我的版本覆盖"
+        cancelText="保留对方的版本"
+        onConfirm={() => handleResolveConflict(true)}
+        onCancel={() => handleResolveConflict(false)}
+      />
+
     </div>
   );
 };
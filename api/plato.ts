@@ -0,0 +1,14 @@
+/**
+ * Vercel Edge Function：/api/* 经 vercel.json 改写到这里，path 参数为上游接口路径。
+ * 服务端环境变量：PLATO_API_KEY、PLATO_BASE_URL、SUPABASE_JWT_SECRET（或 SUPABASE_URL + SUPABASE_ANON_KEY）、SUPABASE_SERVICE_ROLE_KEY、PLATO_RATE_LIMIT_PER_MINUTE
+ */
+import { createPlatoProxy, proxyConfigFromEnv } from '../server/platoProxy';
+
+export const config = { runtime: 'edge' };
+
+const proxy = createPlatoProxy(proxyConfigFromEnv(process.env));
+
+export default function handler(request: Request): Promise<Response> {
+  const path = new URL(request.url).searchParams.get('path') || '';
+  return proxy(request, path);
+}
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Check, Layers, Loader2, WandSparkles, X } from 'lucide-react';
+import { Note, StackCategory } from '../types';
+import { StackProposal } from '../services/autoOrganize';
+import { AutoOrganizeProgress } from '../hooks/useAutoOrganize';
+
+interface AutoOrganizePanelProps {
+  proposals: StackProposal[];
+  progress: AutoOrganizeProgress | null;
+  acceptingIds: Set<string>;
+  onUpdate: (proposalId: string, patch: Partial<Pick<StackProposal, 'title' | 'category' | 'notes'>>) => void;
+  onReject: (proposalId: string) => void;
+  onAccept: (proposal: StackProposal) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const CATEGORY_LABELS: Record<StackCategory, string> = {
+  [StackCategory.TECH]: '技术',
+  [StackCategory.LIFE]: '生活',
+  [StackCategory.WISDOM]: '深度',
+  [StackCategory.GENERAL]: '通用',
+};
+
+const preview = (note: Note) => (note.content || note.ocr_text || '（图片笔记）').replace(/\s+/g, ' ').trim();
+
+/** 自动整理的提案列表：逐个修改标题、风格与成员，接受后才创建卡片组 */
+const AutoOrganizePanel: React.FC<AutoOrganizePanelProps> = ({
+  proposals, progress, acceptingIds, onUpdate, onReject, onAccept, onClose,
+}) => {
+  const [isAcceptingAll, setIsAcceptingAll] = useState(false);
+
+  const acceptAll = async () => {
+    setIsAcceptingAll(true);
+    try {
+      for (const proposal of proposals.filter(p => p.notes.length > 1 && p.title.trim())) {
+        await onAccept(proposal);
+      }
+    } finally {
+      setIsAcceptingAll(false);
+    }
+  };
+
+  const isBusy = isAcceptingAll || acceptingIds.size > 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl w-full max-w-2xl max-h-[85vh] flex flex-col shadow-2xl overflow-hidden ring-1 ring-slate-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="bg-purple-100 p-2.5 rounded-xl text-purple-600">
+              <WandSparkles className="w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="font-bold text-xl text-slate-800">自动整理</h3>
+              <p className="text-sm text-slate-500 mt-1">按主题归组未归档的笔记，接受后才会创建卡片组</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 bg-slate-50/50 space-y-4">
+          {proposals.map(proposal => {
+            const isAccepting = acceptingIds.has(proposal.id);
+            return (
+              <div key={proposal.id} className="bg-white rounded-xl ring-1 ring-slate-200 p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Layers className="w-4 h-4 text-slate-400 shrink-0" />
+                  <input
+                    value={proposal.title}
+                    placeholder="输入卡片组标题"
+                    onChange={(e) => onUpdate(proposal.id, { title: e.target.value })}
+                    className="flex-1 min-w-0 px-2 py-1 font-bold text-slate-800 rounded-md border border-transparent hover:border-slate-200 focus:border-purple-300 outline-none focus:ring-1 focus:ring-purple-400"
+                  />
+                  <select
+                    value={proposal.category}
+                    onChange={(e) => onUpdate(proposal.id, { category: e.target.value as StackCategory })}
+                    className="bg-slate-100 text-slate-600 text-xs font-semibold py-1 px-2 rounded-lg outline-none focus:ring-2 focus:ring-purple-400"
+                  >
+                    {Object.values(StackCategory).map(category => (
+                      <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+                    ))}
+                  </select>
+                </div>
+                {proposal.generationError && (
+                  <p className="text-xs text-red-500">自动生成失败，请手动填写：{proposal.generationError}</p>
+                )}
+                <p className="text-xs text-slate-400">
+                  {proposal.basis.kind === 'similarity' ? '内容相近' : `同属分类“${proposal.basis.category}”`} · {proposal.notes.length} 条笔记
+                </p>
+                <ul className="space-y-1">
+                  {proposal.notes.map(note => (
+                    <li key={note.id} className="group flex items-center gap-2 text-sm text-slate-600">
+                      <span className="flex-1 truncate">· {preview(note)}</span>
+                      {proposal.notes.length > 2 && (
+                        <button
+                          onClick={() => onUpdate(proposal.id, { notes: proposal.notes.filter(n => n.id !== note.id) })}
+                          className="opacity-0 group-hover:opacity-100 p-0.5 text-slate-400 hover:text-red-500 transition-opacity"
+                          title="不放入这个卡片组"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => onReject(proposal.id)}
+                    disabled={isAccepting}
+                    className="px-3 py-1.5 rounded-lg text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 disabled:opacity-60 transition-colors"
+                  >
+                    不要
+                  </button>
+                  <button
+                    onClick={() => onAccept(proposal)}
+                    disabled={isBusy || !proposal.title.trim()}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-60 transition-colors"
+                  >
+                    {isAccepting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />} 创建卡片组
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+
+          {progress ? (
+            <div className="py-6 flex items-center justify-center gap-2 text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              {progress.total > 0 ? `正在为第 ${progress.done + 1}/${progress.total} 组起名…` : '正在按主题归组…'}
+            </div>
+          ) : proposals.length === 0 && (
+            <p className="py-12 text-center text-sm text-slate-400">没有可以归为一组的笔记了</p>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-slate-100 bg-white flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg font-medium transition-colors"
+          >
+            关闭
+          </button>
+          <button
+            onClick={acceptAll}
+            disabled={isBusy || !!progress || proposals.length === 0}
+            className="bg-purple-600 hover:bg-purple-700 text-white px-6 py-2 rounded-lg font-bold shadow-lg shadow-purple-200 disabled:opacity-60 disabled:shadow-none transition-all"
+          >
+            全部接受
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutoOrganizePanel;
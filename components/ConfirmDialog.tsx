@@ -10,6 +10,8 @@ interface ConfirmDialogProps {
   onConfirm: () => void;
   onCancel: () => void;
   danger?: boolean;
+  /** 确认与取消之外的第三个选项 */
+  extraAction?: { text: string; onClick: () => void };
 }
 
 const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
@@ -21,6 +23,7 @@ const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
   onConfirm,
   onCancel,
   danger = false,
+  extraAction,
 }) => {
   if (!isOpen) return null;
 
@@ -52,6 +55,14 @@ const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
           >
             {cancelText}
           </button>
+          {extraAction && (
+            <button
+              onClick={extraAction.onClick}
+              className="px-4 py-2 text-purple-700 bg-purple-50 hover:bg-purple-100 rounded-lg font-medium transition-colors"
+            >
+              {extraAction.text}
+            </button>
+          )}
           <button
             onClick={onConfirm}
             className={`px-4 py-2 rounded-lg font-medium transition-colors ${
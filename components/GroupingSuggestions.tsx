@@ -0,0 +1,120 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Layers, Loader2, Sparkles, X } from 'lucide-react';
+import { Note } from '../types';
+import { SimilarPair } from '../services/repositories';
+import { groupSimilarNotes } from '../services/noteEmbeddings';
+import { isLooseNote } from '../services/autoOrganize';
+
+interface GroupingSuggestionsProps {
+  /** 已加载的顶层笔记，只对其中仍在主列表的笔记给出建议 */
+  notes: Note[];
+  loadPairs: (minSimilarity: number, limit: number) => Promise<SimilarPair[]>;
+  onCreateStack: (notes: Note[]) => Promise<string>;
+  /** 后台算完新的向量后递增，触发重新加载 */
+  refreshKey?: number;
+}
+
+const MIN_SIMILARITY = 0.6;
+const PAIR_LIMIT = 100;
+const MAX_SUGGESTIONS = 3;
+const DISMISSED_KEY = 'growthloop.dismissedGroupings';
+
+// 忽略的建议按成员 id 记住；之后有新笔记加入该组会视为新的建议
+const groupKey = (ids: string[]) => [...ids].sort().join(',');
+
+const loadDismissed = (): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(DISMISSED_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
+const saveDismissed = (dismissed: Set<string>) => {
+  try {
+    localStorage.setItem(DISMISSED_KEY, JSON.stringify([...dismissed]));
+  } catch {
+    // 忽略存储失败，本次会话内仍然生效
+  }
+};
+
+const preview = (note: Note) => (note.content || note.ocr_text || '（图片笔记）').replace(/\s+/g, ' ').trim();
+
+/** 根据语义相似度建议把主列表中相近的笔记合成卡片组 */
+const GroupingSuggestions: React.FC<GroupingSuggestionsProps> = ({ notes, loadPairs, onCreateStack, refreshKey }) => {
+  const [pairs, setPairs] = useState<SimilarPair[]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(loadDismissed);
+  const [creatingKey, setCreatingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPairs(MIN_SIMILARITY, PAIR_LIMIT)
+      .then(list => { if (!cancelled) setPairs(list); })
+      .catch((error: any) => console.error('Error loading grouping suggestions:', error?.message || error));
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const groups = useMemo(() => {
+    const loose = new Map(notes.filter(isLooseNote).map(note => [note.id, note]));
+    return groupSimilarNotes(pairs, new Set(loose.keys()))
+      .filter(ids => !dismissed.has(groupKey(ids)))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(ids => ids.map(id => loose.get(id)!));
+  }, [pairs, notes, dismissed]);
+
+  const dismiss = (group: Note[]) => {
+    const next = new Set(dismissed).add(groupKey(group.map(note => note.id)));
+    saveDismissed(next);
+    setDismissed(next);
+  };
+
+  const create = async (group: Note[]) => {
+    setCreatingKey(groupKey(group.map(note => note.id)));
+    try {
+      await onCreateStack(group);
+    } finally {
+      setCreatingKey(null);
+    }
+  };
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="max-w-3xl mx-auto mb-6 bg-purple-50/60 rounded-2xl ring-1 ring-purple-100 p-4 space-y-3">
+      <h3 className="flex items-center gap-1.5 text-xs font-bold text-purple-600 uppercase tracking-wider">
+        <Sparkles className="w-3.5 h-3.5" /> 整理建议 · 这些笔记内容相近
+      </h3>
+      {groups.map(group => {
+        const key = groupKey(group.map(note => note.id));
+        return (
+          <div key={key} className="flex items-start gap-3 bg-white rounded-xl ring-1 ring-slate-200 px-4 py-3">
+            <ul className="flex-1 min-w-0 space-y-1">
+              {group.map(note => (
+                <li key={note.id} className="text-sm text-slate-600 truncate">· {preview(note)}</li>
+              ))}
+            </ul>
+            <div className="flex items-center gap-1 shrink-0">
+              <button
+                onClick={() => create(group)}
+                disabled={creatingKey !== null}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-purple-600 hover:bg-purple-700 text-white disabled:opacity-60 transition-colors"
+              >
+                {creatingKey === key ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Layers className="w-3.5 h-3.5" />}
+                合成卡片组
+              </button>
+              <button
+                onClick={() => dismiss(group)}
+                className="p-1.5 rounded-lg text-slate-400 hover:text-slate-600 hover:bg-slate-100"
+                title="忽略这条建议"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GroupingSuggestions;
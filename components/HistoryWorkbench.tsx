@@ -2,18 +2,24 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { InsightHistoryItem, Note, NoteType, StackCategory, InsightPlatform } from '../types';
 import {
-  Copy, Check, Save, ChevronRight, Layout, Loader2, Sparkles
+  Copy, Check, Save, ChevronRight, Layout, Loader2, Sparkles, Square, WandSparkles
 } from 'lucide-react';
-import { generateInsights, generateSocialImage, generateInContextImage } from '../services/geminiService';
+import { streamInsights, generateSocialImage, generateInContextImage, flattenStackNotes } from '../services/aiProvider';
+import { PlatoRequestError, describePlatoError } from '../services/platoClient';
+import { RouteTrace } from '../services/modelRouter';
+import { stackSize } from '../services/repositories';
+import { isLooseNote } from '../services/autoOrganize';
 import ArticleRenderer from './ArticleRenderer';
 
 
 interface ArticleArchitectProps {
   allNotes: Note[];
   history: InsightHistoryItem[];
-  onSaveToHistory: (item: InsightHistoryItem) => void;
+  onSaveToHistory: (item: Omit<InsightHistoryItem, 'id' | 'createdAt'>) => void;
   onCreateStack: (notes: Note[]) => Promise<string>;
   onUpdateHistory: (id: string, newContent: string) => void;
+  /** 把未归档笔记按主题整理成多个卡片组（见 AutoOrganizePanel） */
+  onAutoOrganize?: () => void;
 }
 
 const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
@@ -21,7 +27,8 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
   history,
   onSaveToHistory,
   onCreateStack,
-  onUpdateHistory
+  onUpdateHistory,
+  onAutoOrganize
 }) => {
   // --- STATE ---
   const [timeFilter, setTimeFilter] = useState<'TODAY' | 'WEEK' | 'ALL'>('TODAY');
@@ -31,16 +38,17 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
   const [targetPlatform, setTargetPlatform] = useState<InsightPlatform>(InsightPlatform.NEWSLETTER);
   const [styleStrategy, setStyleStrategy] = useState<StackCategory>(StackCategory.TECH);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [streamingContent, setStreamingContent] = useState('');
 
   // Editor State
   const [activeHistoryItem, setActiveHistoryItem] = useState<InsightHistoryItem | null>(null);
   const [editorContent, setEditorContent] = useState('');
   const [isSaved, setIsSaved] = useState(false);
   const [isCopied, setIsCopied] = useState(false);
-  const [imagePlaceholders, setImagePlaceholders] = useState<Record<string, { isLoading: boolean; url: string | null }>>({});
 
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // --- DERIVED DATA ---
 
@@ -57,11 +65,13 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
       return (now - timestamp) < oneDay; // TODAY
     };
 
-    // Filter loose notes for Inbox
-    const loose = allNotes.filter(n => !n.parent_stack_id && isWithinTime(n.created_at));
+    // Filter loose notes for Inbox (stacks are listed separately below)
+    const loose = allNotes.filter(n => isLooseNote(n) && isWithinTime(n.created_at));
 
-    // Filter Stacks
-    const stacks = allNotes.filter(n => n.type === NoteType.STACK && isWithinTime(n.created_at));
+    // Filter Stacks (including loaded sub-stacks, each can be a source on its own)
+    const collectStacks = (tree: Note[]): Note[] =>
+      tree.flatMap(n => (n.type === NoteType.STACK ? [n, ...collectStacks(n.stackItems || [])] : []));
+    const stacks = collectStacks(allNotes).filter(n => isWithinTime(n.created_at));
 
     return { stackList: stacks, inboxNotes: loose };
   }, [allNotes, timeFilter]);
@@ -83,8 +93,8 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
         id: stack.id,
         title: stack.title || '未命名卡片组',
         type: 'STACK',
-        items: stack.stackItems || [],
-        category: stack.stackCategory || StackCategory.GENERAL
+        items: stack.stackItems || [], // 保留子卡片组结构，生成时按分组与顺序组织素材
+        category: stack.stack_category || StackCategory.GENERAL
       };
     }
     return null;
@@ -93,7 +103,7 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
   // 3. Find existing versions (history items) for the selected source
   const existingVersions = useMemo(() => {
     if (!selectedStackId || selectedStackId === 'INBOX') return [];
-    return history.filter(h => h.stack_id === selectedStackId);
+    return history.filter(h => h.stackId === selectedStackId);
   }, [selectedStackId, history]);
 
   // --- EFFECTS ---
@@ -114,6 +124,9 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
     }
   }, [selectedSource?.id, existingVersions.length]); // Depend on ID change or versions change
 
+  // Abort any in-flight stream when leaving the view
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   // Sync editor content
   useEffect(() => {
     if (activeHistoryItem) {
@@ -128,17 +141,27 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
   const handleInitializeGeneration = async () => {
     if (!selectedSource || isGenerating) return;
     setIsGenerating(true);
+    setStreamingContent('');
 
-    try {
-      let finalStackId = selectedSource.id;
-      let finalItems = selectedSource.items;
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-      if (selectedSource.type === 'INBOX') {
-        finalStackId = await onCreateStack(selectedSource.items);
+    try {
+      // 1. Stream text content first, rendering it as it arrives
+      let textContent = '';
+      let route: RouteTrace | undefined;
+      for await (const delta of streamInsights(selectedSource.items, targetPlatform, styleStrategy, { signal: controller.signal, onRoute: t => { route = t; } })) {
+        textContent += delta;
+        setStreamingContent(textContent);
       }
 
-      // 1. Generate text content first
-      const textContent = await generateInsights(finalItems, targetPlatform, styleStrategy);
+      // Stopped by the user: keep nothing, go back to the config panel
+      if (controller.signal.aborted || !textContent) return;
+
+      // Group inbox notes into a stack only once the article exists; a stopped or failed run leaves the inbox untouched
+      const finalStackId = selectedSource.type === 'INBOX'
+        ? await onCreateStack(selectedSource.items)
+        : selectedSource.id;
 
       // 2. Process all in-context image placeholders
       const regex = /{{GEN_IMG: (.*?)}}/g;
@@ -184,15 +207,15 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
       }
 
       // 4. Prepare and save the final history item
-      const newHistoryItem = {
+      onSaveToHistory({
         content: finalContent,
         platform: targetPlatform,
         category: styleStrategy,
-        stack_id: finalStackId,
-        generated_image_url: socialImageUrl,
-      };
-
-      onSaveToHistory(newHistoryItem as unknown as InsightHistoryItem);
+        stackId: finalStackId,
+        generatedImageUrl: socialImageUrl,
+        model: route?.model,
+        fallbackModels: route?.fallbacks.map(f => f.model),
+      });
 
       if (selectedSource.type === 'INBOX') {
         setSelectedStackId(finalStackId);
@@ -201,12 +224,18 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
 
     } catch (error) {
       console.error(error);
-      alert("生成失败，请重试");
+      alert(error instanceof PlatoRequestError ? `生成失败：${describePlatoError(error.error)}` : "生成失败，请重试");
     } finally {
+      abortRef.current = null;
+      setStreamingContent('');
       setIsGenerating(false);
     }
   };
 
+  const handleStopGeneration = () => {
+    abortRef.current?.abort();
+  };
+
   const handleSaveEditor = () => {
     if (!activeHistoryItem) return;
     onUpdateHistory(activeHistoryItem.id, editorContent);
@@ -216,12 +245,31 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
 
   // --- RENDER HELPERS ---
 
+  const renderStreamingState = () => (
+    <div className="flex-1 flex flex-col h-full bg-white">
+      <div className="h-16 flex-shrink-0 px-6 flex items-center justify-between border-b border-slate-100">
+        <span className="text-sm font-bold text-purple-600 flex items-center gap-2">
+          <Loader2 className="w-4 h-4 animate-spin" /> 正在生成...
+        </span>
+        <button
+          onClick={handleStopGeneration}
+          className="px-4 py-2 text-sm font-bold text-slate-500 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors flex items-center gap-2"
+        >
+          <Square className="w-3.5 h-3.5" /> 停止
+        </button>
+      </div>
+      <div className="flex-1 bg-slate-50 overflow-y-auto">
+        <ArticleRenderer content={streamingContent} />
+      </div>
+    </div>
+  );
+
   const renderZeroState = () => (
     <div className="flex-1 flex flex-col items-center justify-center p-12 bg-slate-50/80">
       <div className="max-w-lg w-full text-center">
         <h2 className="text-2xl font-bold text-slate-800 mb-2">生成新的内容</h2>
         <p className="text-slate-500 mb-8">
-          你已选择 <span className="font-semibold text-purple-600">{selectedSource?.items.length || 0}</span> 条笔记作为素材，请选择生成平台和风格。
+          你已选择 <span className="font-semibold text-purple-600">{flattenStackNotes(selectedSource?.items || []).length}</span> 条笔记作为素材，请选择生成平台和风格。
         </p>
 
         <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
@@ -370,7 +418,17 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
                 <span className="font-bold text-slate-800">📥 未归档笔记</span>
                 {selectedStackId === 'INBOX' && <ChevronRight className="w-5 h-5 text-purple-600" />}
               </div>
-              <p className="text-sm text-slate-500">{inboxNotes.length} 条零散的笔记</p>
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-slate-500">{inboxNotes.length} 条零散的笔记</p>
+                {onAutoOrganize && inboxNotes.length > 1 && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onAutoOrganize(); }}
+                    className="flex items-center gap-1 text-xs font-medium text-purple-600 hover:bg-purple-100 px-2 py-1 rounded-md transition-colors"
+                  >
+                    <WandSparkles className="w-3.5 h-3.5" /> 自动整理
+                  </button>
+                )}
+              </div>
             </div>
           )}
 
@@ -390,7 +448,7 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
                 {selectedStackId === stack.id && <ChevronRight className="w-5 h-5 text-purple-600" />}
               </div>
               <div className="flex items-center gap-3 text-sm text-slate-500">
-                <span>{stack.stackItems?.length} 条笔记</span>
+                <span>{stackSize(stack)} 条笔记</span>
                 <span className="text-slate-300">·</span>
                 <span>{stack.stack_category || 'General'}</span>
               </div>
@@ -418,7 +476,7 @@ const ArticleArchitect: React.FC<ArticleArchitectProps> = ({
             </div>
           </div>
         ) : (
-          activeHistoryItem ? renderEditorState() : renderZeroState()
+          streamingContent ? renderStreamingState() : activeHistoryItem ? renderEditorState() : renderZeroState()
         )}
       </div>
 
@@ -1,13 +1,16 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Note, InsightPlatform, InsightHistoryItem, NoteType, StackCategory } from '../types';
-import { generateInsights, generateSocialImage, generateInContextImage, generateCoverImage } from '@/services/geminiService';
-import { Sparkles, Copy, Check, FileText, Share2, ArrowRight, History, Image as ImageIcon, X, Layers, Tag, ChevronLeft } from 'lucide-react';
+import { streamInsights, generateSocialImage, generateInContextImage, generateCoverImage } from '@/services/aiProvider';
+import { PlatoRequestError, describePlatoError } from '@/services/platoClient';
+import { RouteTrace } from '@/services/modelRouter';
+import { stackSize } from '@/services/repositories';
+import { Sparkles, Copy, Check, ArrowRight, History, X, Layers, Tag, ChevronLeft, Square } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 
 interface InsightGeneratorProps {
   notes: Note[];
   history: InsightHistoryItem[];
-  onSaveToHistory: (item: InsightHistoryItem) => void;
+  onSaveToHistory: (item: Omit<InsightHistoryItem, 'id' | 'createdAt'>) => void;
   onOpenWorkbench: (item: InsightHistoryItem) => void;
 }
 
@@ -30,6 +33,11 @@ const InsightGenerator: React.FC<InsightGeneratorProps> = ({ notes, history, onS
   const [copied, setCopied] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [selectedTopicIds, setSelectedTopicIds] = useState<Set<string>>(new Set());
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // 离开页面时中断仍在进行的流式请求
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Topic Logic
   const topicOptions = useMemo(() => {
@@ -41,10 +49,10 @@ const InsightGenerator: React.FC<InsightGeneratorProps> = ({ notes, history, onS
         id: stack.id,
         type: 'STACK',
         title: stack.title || '未命名卡片组',
-        count: stack.stackItems?.length || 0,
+        count: stackSize(stack),
         notes: stack.stackItems || [],
-        timestamp: stack.createdAt,
-        stackCategory: stack.stackCategory || StackCategory.GENERAL
+        timestamp: new Date(stack.created_at).getTime(),
+        stackCategory: stack.stack_category || StackCategory.GENERAL
       });
     });
 
@@ -53,7 +61,7 @@ const InsightGenerator: React.FC<InsightGeneratorProps> = ({ notes, history, onS
     if (looseNotes.length > 0) {
       // Correctly type the reduce accumulator using 'as' to avoid TSX parsing/typing issues with generics
       const grouped = looseNotes.reduce((acc, note) => {
-        const cat = note.analysis?.category || '未分类';
+        const cat = note.analysis_category || '未分类';
         if (!acc[cat]) acc[cat] = [];
         acc[cat].push(note);
         return acc;
@@ -66,7 +74,7 @@ const InsightGenerator: React.FC<InsightGeneratorProps> = ({ notes, history, onS
           title: `${category} (散记)`,
           count: catNotes.length,
           notes: catNotes,
-          timestamp: Math.max(...catNotes.map(n => n.createdAt)),
+          timestamp: Math.max(...catNotes.map(n => new Date(n.created_at).getTime())),
           stackCategory: StackCategory.GENERAL
         });
       });
@@ -109,7 +117,7 @@ const InsightGenerator: React.FC<InsightGeneratorProps> = ({ notes, history, onS
       try {
         const imageUrl = await generateInContextImage(prompt);
         const imageMarkdown = imageUrl
-          ? `\n![${prompt.replace(/[\[\]]/g, '')}](${imageUrl})\n`
+          ? `\n![${prompt.replace(/[[\]]/g, '')}](${imageUrl})\n`
           : "\n*Failed to generate image.*\n";
 
         processedContent = processedContent.replace(fullMatch, imageMarkdown);
@@ -146,7 +154,35 @@ const InsightGenerator: React.FC<InsightGeneratorProps> = ({ notes, history, onS
     const selectedNotes: Note[] = [];
     selectedTopics.forEach(topic => selectedNotes.push(...topic.notes));
 
-    const initialContent = await generateInsights(selectedNotes, platform, primaryCategory);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // 逐段渲染模型输出，避免长时间停留在加载状态
+    let initialContent = '';
+    let route: RouteTrace | undefined;
+    setIsStreaming(true);
+    try {
+      for await (const delta of streamInsights(selectedNotes, platform, primaryCategory, { signal: controller.signal, onRoute: t => { route = t; } })) {
+        initialContent += delta;
+        setGeneratedContent(initialContent);
+      }
+    } catch (error: any) {
+      console.error('Insight streaming failed:', error);
+      alert('生成失败：' + (error instanceof PlatoRequestError ? describePlatoError(error.error) : (error?.message || String(error))));
+      setGeneratedContent('');
+      setIsStreaming(false);
+      setIsGenerating(false);
+      return;
+    } finally {
+      abortRef.current = null;
+    }
+    setIsStreaming(false);
+
+    // 用户中途停止：保留已生成的部分，但不再配图与归档
+    if (controller.signal.aborted || !initialContent) {
+      setIsGenerating(false);
+      return;
+    }
 
     let finalContent = initialContent;
     let imageUrl: string | undefined = undefined;
@@ -170,18 +206,22 @@ const InsightGenerator: React.FC<InsightGeneratorProps> = ({ notes, history, onS
     }
 
     onSaveToHistory({
-      id: Date.now().toString(),
       content: finalContent, // Save the fully processed content
       platform: platform,
-      createdAt: Date.now(),
       generatedImageUrl: platform === InsightPlatform.SOCIAL_MEDIA ? imageUrl : coverUrl,
       category: primaryCategory,
-      relatedNotes: selectedNotes
+      relatedNotes: selectedNotes,
+      model: route?.model,
+      fallbackModels: route?.fallbacks.map(f => f.model)
     });
 
     setIsGenerating(false);
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(generatedContent);
     setCopied(true);
@@ -317,7 +357,7 @@ const InsightGenerator: React.FC<InsightGeneratorProps> = ({ notes, history, onS
           )}
 
           {/* LOADING STATE */}
-          {isGenerating && (
+          {isGenerating && !generatedContent && (
             <div className="h-full flex flex-col items-center justify-center space-y-6">
                <div className="relative">
                  <div className="w-16 h-16 border-4 border-purple-100 border-t-purple-500 rounded-full animate-spin"></div>
@@ -330,14 +370,30 @@ const InsightGenerator: React.FC<InsightGeneratorProps> = ({ notes, history, onS
           )}
 
           {/* GENERATED CONTENT */}
-          {generatedContent && !isGenerating && (
+          {generatedContent && (
             <div className="max-w-3xl mx-auto animate-in fade-in duration-500 pb-20">
-              <button
-                 onClick={() => setGeneratedContent('')}
-                 className="mb-6 text-sm text-slate-400 hover:text-purple-600 flex items-center gap-1 font-medium transition-colors"
-              >
-                 <ChevronLeft className="w-4 h-4" /> 返回话题选择
-              </button>
+              {isGenerating ? (
+                <div className="mb-6 flex items-center justify-between">
+                  <span className="text-sm text-purple-500 font-medium animate-pulse">
+                    {isStreaming ? 'AI 正在写作...' : 'AI 正在生成配图...'}
+                  </span>
+                  {isStreaming && (
+                    <button
+                      onClick={handleStop}
+                      className="text-sm text-slate-400 hover:text-red-500 flex items-center gap-1 font-medium transition-colors"
+                    >
+                      <Square className="w-3.5 h-3.5" /> 停止生成
+                    </button>
+                  )}
+                </div>
+              ) : (
+                <button
+                   onClick={() => setGeneratedContent('')}
+                   className="mb-6 text-sm text-slate-400 hover:text-purple-600 flex items-center gap-1 font-medium transition-colors"
+                >
+                   <ChevronLeft className="w-4 h-4" /> 返回话题选择
+                </button>
+              )}
 
               {generatedCover && (
                 <div className="w-full mb-8 rounded-2xl overflow-hidden shadow-lg border border-slate-100">
@@ -0,0 +1,33 @@
+import React, { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface LoadMoreSentinelProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+/** 放在列表末尾，滚动到可见范围时加载下一页 */
+const LoadMoreSentinel: React.FC<LoadMoreSentinelProps> = ({ hasMore, isLoading, onLoadMore }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasMore || isLoading) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMoreRef.current();
+    }, { rootMargin: '400px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading]);
+
+  return (
+    <div ref={ref} className="py-8 flex justify-center text-xs text-slate-400 font-medium">
+      {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+    </div>
+  );
+};
+
+export default LoadMoreSentinel;
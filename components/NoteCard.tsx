@@ -1,23 +1,23 @@
 
-import React, { useState } from 'react';
-import { Note, NoteType, StackCategory } from '../types';
-import { Loader2, Layers, X } from 'lucide-react';
+import React from 'react';
+import { Note, NoteType, StackCategory, NoteAnalysisPatch } from '../types';
+import { stackSize } from '../services/repositories';
+import { Loader2, Layers, X, CloudOff } from 'lucide-react';
+import TagEditor from './TagEditor';
 
 interface NoteCardProps {
   note: Note;
   onClick?: (note: Note) => void;
   onDrop?: (sourceId: string, targetId: string) => void;
   onCategoryChange?: (noteId: string, newCategory: StackCategory) => void;
-  onUpdate?: (noteId: string, newContent: string) => void;
   onDelete?: (noteId: string) => void;
+  onUpdateAnalysis?: (noteId: string, patch: NoteAnalysisPatch) => void;
+  tagSuggestions?: string[];
   draggable?: boolean;
   maxLines?: number; // 最大显示行数，超出则截断
 }
 
-const NoteCard: React.FC<NoteCardProps> = ({ note, onClick, onDrop, onCategoryChange, onUpdate, onDelete, draggable = true, maxLines = 6 }) => {
-  const [isEditing, setIsEditing] = useState(false);
-  const [editText, setEditText] = useState(note.content);
-
+const NoteCard: React.FC<NoteCardProps> = ({ note, onClick, onDrop, onCategoryChange, onDelete, onUpdateAnalysis, tagSuggestions, draggable = true, maxLines = 6 }) => {
   // 判断内容是否超过最大行数（简单估算：按字符数或换行符判断）
   const isContentLong = (content: string): boolean => {
     if (!content) return false;
@@ -62,24 +62,6 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onClick, onDrop, onCategoryCh
 
   const isStack = note.type === NoteType.STACK;
 
-  const handleSave = () => {
-    if (onUpdate) {
-      onUpdate(note.id, editText || '');
-    }
-    setIsEditing(false);
-  };
-
-  const handleCancel = () => {
-    setEditText(note.content);
-    setIsEditing(false);
-  };
-
-  const startEditing = (e: React.MouseEvent) => {
-    if (isStack) return;
-    e.stopPropagation(); // Prevent card's main onClick from firing
-    setIsEditing(true);
-  };
-
   // Category Colors
   const getCategoryColor = (cat?: string) => {
     switch (cat) {
@@ -107,7 +89,6 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onClick, onDrop, onCategoryCh
         bg-white border border-slate-200 rounded-2xl p-0 mb-6 break-inside-avoid
         transition-all duration-300 relative group
         ${isStack ? 'shadow-[4px_4px_0px_rgba(0,0,0,0.05)] hover:shadow-[6px_6px_0px_rgba(0,0,0,0.08)] hover:-translate-y-1 cursor-pointer' : 'shadow-sm hover:shadow-md hover:-translate-y-1'}
-        ${isEditing ? 'ring-2 ring-purple-400 shadow-lg' : ''}
       `}
     >
       {/* Delete Button */}
@@ -161,31 +142,21 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onClick, onDrop, onCategoryCh
                    <h3 className="font-bold text-lg text-slate-800 leading-tight group-hover:text-purple-600 transition-colors">
                      {note.title || '正在生成标题...'}
                    </h3>
-                   <p className="text-sm text-slate-500 mt-1 line-clamp-2">
-                     {note.stackItems?.[0]?.content.substring(0, 50)}...
-                   </p>
+                   {note.stackItems?.[0] && (
+                     <p className="text-sm text-slate-500 mt-1 line-clamp-2">
+                       {note.stackItems[0].type === NoteType.STACK
+                         ? `卡片组：${note.stackItems[0].title || '未命名卡片组'}`
+                         : `${note.stackItems[0].content.substring(0, 50)}...`}
+                     </p>
+                   )}
                 </div>
              </div>
              <div className="flex items-center gap-2 pt-2">
                <span className="text-xs font-medium bg-slate-100 text-slate-500 px-2 py-1 rounded-md">
-                 {note.stackItems?.length || 0} 条笔记
+                 {stackSize(note)} 条笔记
                </span>
              </div>
           </div>
-        ) : isEditing ? (
-          <div>
-            <textarea
-              value={editText}
-              onChange={(e) => setEditText(e.target.value)}
-              className="w-full h-32 p-2 text-sm border border-slate-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-purple-400"
-              autoFocus
-              onClick={(e) => e.stopPropagation()} // Prevent card click while editing
-            />
-            <div className="flex justify-end gap-2 mt-2">
-              <button onClick={(e) => { e.stopPropagation(); handleCancel(); }} className="px-3 py-1 text-xs font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-md">取消</button>
-              <button onClick={(e) => { e.stopPropagation(); handleSave(); }} className="px-3 py-1 text-xs font-semibold text-white bg-purple-600 hover:bg-purple-700 rounded-md">保存</button>
-            </div>
-          </div>
         ) : (
           <>
             {note.image_url && (
@@ -218,7 +189,14 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onClick, onDrop, onCategoryCh
       {/* Footer / Tags */}
       {!isStack && (
         <div className="px-5 pb-5 pt-0 flex flex-wrap gap-2">
-           {note.isProcessing ? (
+           {note.isPending ? (
+             <span
+               className="flex items-center gap-1.5 text-xs text-amber-600 font-medium bg-amber-50 px-2 py-1 rounded-md"
+               title={note.syncError ? `上次同步失败：${note.syncError}` : '已保存在本地，联网后自动同步'}
+             >
+               <CloudOff className="w-3 h-3" /> 待同步
+             </span>
+           ) : note.isProcessing ? (
              <span className="flex items-center gap-1.5 text-xs text-purple-600 font-medium bg-purple-50 px-2 py-1 rounded-md">
                <Loader2 className="w-3 h-3 animate-spin" /> 分析中...
              </span>
@@ -229,11 +207,12 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onClick, onDrop, onCategoryCh
                     {note.analysis_category}
                   </span>
                )}
-               {note.analysis_tags?.slice(0, 2).map((tag, idx) => (
-                 <span key={idx} className="text-[10px] font-medium text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">
-                   #{tag}
-                 </span>
-               ))}
+               <TagEditor
+                 tags={note.analysis_tags || []}
+                 onChange={onUpdateAnalysis && (tags => onUpdateAnalysis(note.id, { analysis_tags: tags }))}
+                 suggestions={tagSuggestions}
+                 limit={2}
+               />
              </>
            )}
         </div>
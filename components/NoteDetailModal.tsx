@@ -1,29 +1,66 @@
 import React from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Note } from '../types';
-import { X, FileText, Calendar, Tag } from 'lucide-react';
+import { Note, NoteRevision, NoteAnalysisPatch } from '../types';
+import { X, FileText, Calendar, Tag, History, RefreshCw } from 'lucide-react';
 import ConfirmDialog from './ConfirmDialog';
+import RevisionHistory from './RevisionHistory';
+import TagEditor from './TagEditor';
+import RelatedNotes from './RelatedNotes';
+import { RelatedNote } from '../services/repositories';
 
 interface NoteDetailModalProps {
   note: Note;
   onClose: () => void;
-  onUpdate?: (noteId: string, newContent: string) => void;
+  /** baseUpdatedAt 为开始编辑时所见版本，保存时据此发现期间的其他修改 */
+  onUpdate?: (noteId: string, newContent: string, baseUpdatedAt?: string) => void;
   onDelete?: (noteId: string) => void;
+  onLoadRevisions?: (noteId: string) => Promise<NoteRevision[]>;
+  onReanalyze?: (noteId: string) => void;
+  isReanalyzing?: boolean;
+  onUpdateAnalysis?: (noteId: string, patch: NoteAnalysisPatch) => void;
+  tagSuggestions?: string[];
+  categorySuggestions?: string[];
+  onLoadRelated?: (noteId: string) => Promise<RelatedNote[]>;
+  onOpenNote?: (note: Note) => void;
+  relatedRefreshKey?: number;
 }
 
-const NoteDetailModal: React.FC<NoteDetailModalProps> = ({ note, onClose, onUpdate, onDelete }) => {
+const NoteDetailModal: React.FC<NoteDetailModalProps> = ({
+  note, onClose, onUpdate, onDelete, onLoadRevisions, onReanalyze, isReanalyzing,
+  onUpdateAnalysis, tagSuggestions, categorySuggestions = [], onLoadRelated, onOpenNote, relatedRefreshKey,
+}) => {
   const [isEditing, setIsEditing] = React.useState(false);
   const [editText, setEditText] = React.useState(note.content);
+  const [editBase, setEditBase] = React.useState<string | undefined>(undefined);
   const [showDeleteConfirm, setShowDeleteConfirm] = React.useState(false);
+  const [showHistory, setShowHistory] = React.useState(false);
+  const [categoryDraft, setCategoryDraft] = React.useState<string | null>(null);
+
+  const commitCategory = () => {
+    const category = categoryDraft?.trim();
+    if (category && category !== note.analysis_category) onUpdateAnalysis?.(note.id, { analysis_category: category });
+    setCategoryDraft(null);
+  };
+
+  const startEditing = () => {
+    setEditText(note.content);
+    setEditBase(note.updated_at);
+    setShowHistory(false);
+    setIsEditing(true);
+  };
 
   const handleSave = () => {
-    if (onUpdate) {
-      onUpdate(note.id, editText || '');
+    if (onUpdate && editText !== note.content) {
+      onUpdate(note.id, editText || '', editBase);
     }
     setIsEditing(false);
   };
 
+  const handleRestore = (content: string) => {
+    onUpdate?.(note.id, content, note.updated_at);
+  };
+
   const handleDelete = () => {
     setShowDeleteConfirm(true);
   };
@@ -57,7 +94,7 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({ note, onClose, onUpda
               <div className="flex items-center gap-3 text-sm text-slate-500 font-medium mt-1">
                 <span className="flex items-center gap-1">
                   <Calendar className="w-3.5 h-3.5" />
-                  {new Date(note.createdAt).toLocaleDateString('zh-CN', {
+                  {new Date(note.created_at).toLocaleDateString('zh-CN', {
                     year: 'numeric',
                     month: 'long',
                     day: 'numeric',
@@ -65,11 +102,35 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({ note, onClose, onUpda
                     minute: '2-digit'
                   })}
                 </span>
-                {note.analysis?.category && (
+                {categoryDraft !== null ? (
                   <span className="flex items-center gap-1">
                     <Tag className="w-3.5 h-3.5" />
-                    {note.analysis.category}
+                    <input
+                      value={categoryDraft}
+                      onChange={(e) => setCategoryDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitCategory();
+                        if (e.key === 'Escape') setCategoryDraft(null);
+                      }}
+                      onBlur={commitCategory}
+                      list="note-category-suggestions"
+                      className="w-28 px-2 py-0.5 rounded-md border border-purple-300 text-slate-700 outline-none focus:ring-1 focus:ring-purple-400"
+                      autoFocus
+                    />
+                    <datalist id="note-category-suggestions">
+                      {categorySuggestions.map(category => <option key={category} value={category} />)}
+                    </datalist>
                   </span>
+                ) : (note.analysis_category || onUpdateAnalysis) && (
+                  <button
+                    onClick={() => onUpdateAnalysis && setCategoryDraft(note.analysis_category || '')}
+                    disabled={!onUpdateAnalysis}
+                    className="flex items-center gap-1 rounded-md enabled:hover:text-purple-600"
+                    title={onUpdateAnalysis ? '修改分类' : undefined}
+                  >
+                    <Tag className="w-3.5 h-3.5" />
+                    {note.analysis_category || '添加分类'}
+                  </button>
                 )}
               </div>
             </div>
@@ -85,10 +146,10 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({ note, onClose, onUpda
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6 bg-slate-50/50">
           {/* Image */}
-          {note.imageBase64 && (
+          {note.image_url && (
             <div className="mb-6 rounded-xl overflow-hidden border border-slate-200 shadow-sm">
               <img
-                src={note.imageBase64}
+                src={note.image_url}
                 alt="Attachment"
                 className="w-full h-auto object-contain max-h-80"
               />
@@ -96,7 +157,9 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({ note, onClose, onUpda
           )}
 
           {/* Text Content */}
-          {isEditing ? (
+          {showHistory && onLoadRevisions ? (
+            <RevisionHistory note={note} loadRevisions={onLoadRevisions} onRestore={handleRestore} />
+          ) : isEditing ? (
             <textarea
               value={editText}
               onChange={(e) => setEditText(e.target.value)}
@@ -117,7 +180,7 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({ note, onClose, onUpda
                 prose-ul:list-disc prose-ol:list-decimal
                 prose-li:text-slate-700
                 [&>*:first-child]:mt-0"
-              onClick={() => setIsEditing(true)}
+              onClick={startEditing}
             >
               {note.content ? (
                 <ReactMarkdown remarkPlugins={[remarkGfm]}>
@@ -130,20 +193,21 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({ note, onClose, onUpda
           )}
 
           {/* Tags */}
-          {note.analysis?.tags && note.analysis.tags.length > 0 && (
+          {(onUpdateAnalysis || (note.analysis_tags && note.analysis_tags.length > 0)) && (
             <div className="mt-6 pt-4 border-t border-slate-200">
-              <div className="flex flex-wrap gap-2">
-                {note.analysis.tags.map((tag, idx) => (
-                  <span
-                    key={idx}
-                    className="text-sm font-medium text-slate-600 bg-slate-100 px-3 py-1 rounded-full"
-                  >
-                    #{tag}
-                  </span>
-                ))}
-              </div>
+              <TagEditor
+                tags={note.analysis_tags || []}
+                onChange={onUpdateAnalysis && (tags => onUpdateAnalysis(note.id, { analysis_tags: tags }))}
+                suggestions={tagSuggestions}
+                size="md"
+              />
             </div>
           )}
+
+          {/* Related Notes */}
+          {onLoadRelated && onOpenNote && !showHistory && !isEditing && (
+            <RelatedNotes note={note} loadRelated={onLoadRelated} onOpenNote={onOpenNote} refreshKey={relatedRefreshKey} />
+          )}
         </div>
 
         {/* Footer */}
@@ -172,12 +236,32 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({ note, onClose, onUpda
                 </button>
               </>
             ) : (
-              <button
-                onClick={() => setIsEditing(true)}
-                className="bg-slate-100 hover:bg-slate-200 text-slate-700 px-6 py-2 rounded-lg font-medium transition-colors"
-              >
-                编辑
-              </button>
+              <>
+                {onReanalyze && (
+                  <button
+                    onClick={() => onReanalyze(note.id)}
+                    disabled={isReanalyzing}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-slate-100 hover:bg-slate-200 text-slate-700 disabled:opacity-60 transition-colors"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${isReanalyzing ? 'animate-spin' : ''}`} /> 重新分析
+                  </button>
+                )}
+                {onLoadRevisions && (
+                  <button
+                    onClick={() => setShowHistory(prev => !prev)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors
+                      ${showHistory ? 'bg-purple-100 text-purple-700' : 'bg-slate-100 hover:bg-slate-200 text-slate-700'}`}
+                  >
+                    <History className="w-4 h-4" /> 历史版本
+                  </button>
+                )}
+                <button
+                  onClick={startEditing}
+                  className="bg-slate-100 hover:bg-slate-200 text-slate-700 px-6 py-2 rounded-lg font-medium transition-colors"
+                >
+                  编辑
+                </button>
+              </>
             )}
           </div>
         </div>
@@ -187,7 +271,7 @@ const NoteDetailModal: React.FC<NoteDetailModalProps> = ({ note, onClose, onUpda
       <ConfirmDialog
         isOpen={showDeleteConfirm}
         title="删除笔记"
-        message="确定要删除这条笔记吗？此操作无法撤销。"
+        message="确定要删除这条笔记吗？删除后可在回收站中恢复。"
         confirmText="删除"
         cancelText="取消"
         danger
@@ -1,9 +1,9 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Image as ImageIcon, Send, X, Loader2 } from 'lucide-react';
+import { Image as ImageIcon, X, Loader2 } from 'lucide-react';
 
 interface NoteInputProps {
-  onSave: (content: string, imageBase64?: string) => void;
+  onSave: (content: string, imageBase64?: string) => Promise<boolean>; // false 表示未保存，保留输入内容
   isSaving: boolean;
 }
 
@@ -33,9 +33,9 @@ const NoteInput: React.FC<NoteInputProps> = ({ onSave, isSaving }) => {
     }
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!content.trim() && !image) return;
-    onSave(content, image || undefined);
+    if (!(await onSave(content, image || undefined))) return;
     setContent('');
     setImage(null);
     setIsExpanded(false);
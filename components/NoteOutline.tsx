@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, FileText, Image as ImageIcon, Layers, Loader2 } from 'lucide-react';
+import { Note, NoteType } from '../types';
+import { stackSize } from '../services/repositories';
+
+interface NoteOutlineProps {
+  /** 顶层笔记（与瀑布流相同的列表） */
+  notes: Note[];
+  onOpen: (note: Note) => void;
+  /** 展开成员尚未加载的卡片组时调用，会连同子卡片组一起加载 */
+  onLoadItems: (stackIds: string[]) => void;
+  /** 把 source 拖到 target 上：target 为卡片组时放进去（可以是另一个卡片组），否则与瀑布流的拖放相同 */
+  onDrop: (sourceId: string, targetId: string) => void;
+  /** 拖到顶部的放置区：移出所有卡片组，回到主列表 */
+  onMoveToTop: (noteId: string) => void;
+}
+
+const preview = (note: Note) => (note.content || note.ocr_text || '（图片笔记）').replace(/\s+/g, ' ').trim();
+
+/** 笔记树的大纲视图：卡片组可逐级展开，拖动条目可以调整层级 */
+const NoteOutline: React.FC<NoteOutlineProps> = ({ notes, onOpen, onLoadItems, onDrop, onMoveToTop }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const toggle = (stack: Note) => {
+    const next = new Set(expanded);
+    if (next.has(stack.id)) {
+      next.delete(stack.id);
+    } else {
+      next.add(stack.id);
+      if (stack.stackItemCount !== undefined) onLoadItems([stack.id]);
+    }
+    setExpanded(next);
+  };
+
+  const dropProps = (targetId: string, onDropped: (sourceId: string) => void) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggingId || draggingId === targetId) return;
+      e.preventDefault();
+      setDropTargetId(targetId);
+    },
+    onDragLeave: () => setDropTargetId(current => (current === targetId ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      const sourceId = e.dataTransfer.getData('text/plain');
+      setDropTargetId(null);
+      if (sourceId && sourceId !== targetId) onDropped(sourceId);
+    },
+  });
+
+  const renderRow = (note: Note, depth: number): React.ReactNode => {
+    const isStack = note.type === NoteType.STACK;
+    const isOpen = isStack && expanded.has(note.id);
+    const isLoading = isOpen && note.stackItemCount !== undefined;
+    return (
+      <li key={note.id}>
+        <div
+          draggable={!note.isPending}
+          onDragStart={(e) => {
+            e.dataTransfer.setData('text/plain', note.id);
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggingId(note.id);
+          }}
+          onDragEnd={() => { setDraggingId(null); setDropTargetId(null); }}
+          {...dropProps(note.id, sourceId => onDrop(sourceId, note.id))}
+          className={`group flex items-center gap-2 pr-3 py-1.5 rounded-lg cursor-pointer transition-colors ${
+            dropTargetId === note.id ? 'bg-purple-50 ring-2 ring-purple-300' : 'hover:bg-white'
+          } ${note.isPending ? 'opacity-60' : ''}`}
+          style={{ paddingLeft: `${depth * 20 + 8}px` }}
+          onClick={() => !note.isPending && onOpen(note)}
+        >
+          {isStack ? (
+            <button
+              onClick={(e) => { e.stopPropagation(); toggle(note); }}
+              className="p-0.5 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100"
+              title={isOpen ? '折叠' : '展开'}
+            >
+              {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            </button>
+          ) : (
+            <span className="w-5 shrink-0" />
+          )}
+          {isStack
+            ? <Layers className="w-4 h-4 text-purple-500 shrink-0" />
+            : note.image_url ? <ImageIcon className="w-4 h-4 text-slate-400 shrink-0" /> : <FileText className="w-4 h-4 text-slate-400 shrink-0" />}
+          <span className={`flex-1 min-w-0 truncate text-sm ${isStack ? 'font-bold text-slate-800' : 'text-slate-600'}`}>
+            {isStack ? note.title || '未命名卡片组' : preview(note)}
+          </span>
+          {isStack ? (
+            <span className="text-xs font-medium text-slate-400 bg-slate-100 px-2 py-0.5 rounded-md shrink-0">{stackSize(note)} 项</span>
+          ) : note.analysis_category && (
+            <span className="hidden sm:inline text-xs text-slate-400 shrink-0">{note.analysis_category}</span>
+          )}
+          <span className="hidden sm:inline text-xs text-slate-400 shrink-0 w-14 text-right">
+            {new Date(note.created_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+          </span>
+        </div>
+        {isOpen && (
+          isLoading ? (
+            <div className="py-1.5 text-slate-400" style={{ paddingLeft: `${(depth + 1) * 20 + 36}px` }}>
+              <Loader2 className="w-4 h-4 animate-spin" />
+            </div>
+          ) : note.stackItems && note.stackItems.length > 0 ? (
+            <ul>{note.stackItems.map(item => renderRow(item, depth + 1))}</ul>
+          ) : (
+            <p className="py-1.5 text-xs text-slate-400" style={{ paddingLeft: `${(depth + 1) * 20 + 36}px` }}>空的卡片组</p>
+          )
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto bg-slate-100/60 rounded-2xl ring-1 ring-slate-200 p-3">
+      <div
+        {...dropProps('', onMoveToTop)}
+        className={`mb-2 px-3 py-2 rounded-lg border border-dashed text-xs text-center transition-colors ${
+          dropTargetId === '' ? 'border-purple-400 bg-purple-50 text-purple-600' : 'border-slate-300 text-slate-400'
+        }`}
+      >
+        拖到卡片组上即放入其中（卡片组也可以放进另一个卡片组）· 拖到这里移回主列表
+      </div>
+      <ul>{notes.map(note => renderRow(note, 0))}</ul>
+    </div>
+  );
+};
+
+export default NoteOutline;
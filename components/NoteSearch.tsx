@@ -0,0 +1,276 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, X, SlidersHorizontal, Loader2, Layers, Image as ImageIcon, FileText, Sparkles } from 'lucide-react';
+import { Note, NoteType, InsightHistoryItem, InsightPlatform } from '../types';
+import { SearchQuery, SearchResults } from '../services/repositories';
+import { highlightKeywords, highlightSegments, matchSnippet } from '../services/searchText';
+
+interface NoteSearchProps {
+  onSearch: (query: SearchQuery) => Promise<SearchResults>;
+  categories: string[];
+  onOpenNote: (note: Note) => void;
+  onOpenInsight: (item: InsightHistoryItem) => void;
+  /** 有关键词或筛选条件时为 true，此时由搜索结果代替笔记列表 */
+  onActiveChange: (active: boolean) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const SENTIMENTS = ['积极', '中性', '消极'];
+const TYPES: Array<{ type: NoteType; label: string }> = [
+  { type: NoteType.TEXT, label: '文字' },
+  { type: NoteType.IMAGE, label: '图片' },
+  { type: NoteType.MIXED, label: '图文' },
+  { type: NoteType.STACK, label: '卡片组' },
+];
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+/** 日期输入框的值（本地日期）转为 ISO；endOfDay 表示取次日零点作为不包含的上界 */
+const dateToIso = (value: string, endOfDay = false) => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setDate(date.getDate() + 1);
+  return date.toISOString();
+};
+
+const Highlighted: React.FC<{ text: string; keywords: string[] }> = ({ text, keywords }) => (
+  <>
+    {highlightSegments(text, keywords).map((segment, idx) => (
+      segment.match
+        ? <mark key={idx} className="bg-yellow-200/80 text-slate-900 rounded-sm px-0.5">{segment.text}</mark>
+        : <React.Fragment key={idx}>{segment.text}</React.Fragment>
+    ))}
+  </>
+);
+
+const Chip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    onClick={onClick}
+    className={`px-3 py-1 rounded-full text-xs font-medium transition-colors
+      ${active ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+  >
+    {children}
+  </button>
+);
+
+/** 笔记与洞察的搜索框、筛选条件和高亮结果 */
+const NoteSearch: React.FC<NoteSearchProps> = ({ onSearch, categories, onOpenNote, onOpenInsight, onActiveChange }) => {
+  const [text, setText] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [sentiments, setSentiments] = useState<string[]>([]);
+  const [types, setTypes] = useState<NoteType[]>([]);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  const filterCount = selectedCategories.length + sentiments.length + types.length + (fromDate ? 1 : 0) + (toDate ? 1 : 0);
+  const isActive = text.trim() !== '' || filterCount > 0;
+  const keywords = useMemo(() => highlightKeywords(text), [text]);
+
+  useEffect(() => {
+    onActiveChange(isActive);
+  }, [isActive]);
+
+  useEffect(() => {
+    const id = ++requestId.current;
+    if (!isActive) {
+      setResults(null);
+      setIsSearching(false);
+      return;
+    }
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await onSearch({
+          text,
+          categories: selectedCategories,
+          sentiments,
+          types,
+          from: dateToIso(fromDate),
+          to: dateToIso(toDate, true),
+        });
+        if (id !== requestId.current) return; // 已有更新的搜索
+        setResults(found);
+        setError(null);
+      } catch (err: any) {
+        if (id !== requestId.current) return;
+        console.error('Error searching notes:', err?.message || err);
+        setError(err?.message || '搜索失败');
+      } finally {
+        if (id === requestId.current) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [text, selectedCategories, sentiments, types, fromDate, toDate]);
+
+  const clearAll = () => {
+    setText('');
+    setSelectedCategories([]);
+    setSentiments([]);
+    setTypes([]);
+    setFromDate('');
+    setToDate('');
+  };
+
+  const renderNote = (note: Note) => {
+    const isStack = note.type === NoteType.STACK;
+    // 只有图片文字命中时，展示图片文字的片段
+    const ocrOnly = !!note.ocr_text && keywords.length > 0
+      && !keywords.some(k => note.content.toLowerCase().includes(k.toLowerCase()))
+      && keywords.some(k => note.ocr_text!.toLowerCase().includes(k.toLowerCase()));
+    return (
+      <button
+        key={note.id}
+        onClick={() => onOpenNote(note)}
+        className="w-full text-left bg-white rounded-xl ring-1 ring-slate-200 hover:ring-purple-300 hover:shadow-md px-5 py-4 transition-all"
+      >
+        <div className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+          {isStack ? <Layers className="w-3.5 h-3.5" /> : note.image_url ? <ImageIcon className="w-3.5 h-3.5" /> : <FileText className="w-3.5 h-3.5" />}
+          <span>{new Date(note.created_at).toLocaleDateString('zh-CN', { year: 'numeric', month: 'short', day: 'numeric' })}</span>
+          {note.analysis_category && <span className="px-2 py-0.5 rounded-full border border-slate-200">{note.analysis_category}</span>}
+          {note.analysis_sentiment && <span>{note.analysis_sentiment}</span>}
+        </div>
+        {isStack && note.title && (
+          <p className="font-bold text-slate-800 mb-1"><Highlighted text={note.title} keywords={keywords} /></p>
+        )}
+        {note.content && (
+          <p className="text-sm text-slate-700 leading-relaxed">
+            <Highlighted text={matchSnippet(note.content, keywords)} keywords={keywords} />
+          </p>
+        )}
+        {ocrOnly && (
+          <p className="mt-1 text-sm text-slate-500">
+            <span className="text-xs font-medium text-slate-400 mr-1">图片文字</span>
+            <Highlighted text={matchSnippet(note.ocr_text!, keywords)} keywords={keywords} />
+          </p>
+        )}
+        {note.analysis_tags && note.analysis_tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-2">
+            {note.analysis_tags.map(tag => (
+              <span key={tag} className="text-[11px] font-medium text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">
+                #<Highlighted text={tag} keywords={keywords} />
+              </span>
+            ))}
+          </div>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 flex items-center gap-2 bg-white rounded-xl ring-1 ring-slate-200 focus-within:ring-2 focus-within:ring-purple-400 px-4 py-2.5">
+          <Search className="w-4 h-4 text-slate-400 shrink-0" />
+          <input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') clearAll(); }}
+            placeholder="搜索笔记、图片文字、标签和洞察（空格分隔多个词，-词 排除）"
+            className="flex-1 bg-transparent text-sm outline-none placeholder:text-slate-400"
+          />
+          {isSearching && <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />}
+          {isActive && (
+            <button onClick={clearAll} className="p-0.5 rounded-full text-slate-400 hover:text-slate-600" aria-label="清除搜索">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => setShowFilters(prev => !prev)}
+          className={`flex items-center gap-1.5 px-3 py-2.5 rounded-xl text-sm font-medium transition-colors
+            ${showFilters || filterCount > 0 ? 'bg-purple-100 text-purple-700' : 'bg-white ring-1 ring-slate-200 text-slate-600 hover:bg-slate-50'}`}
+        >
+          <SlidersHorizontal className="w-4 h-4" /> 筛选{filterCount > 0 && ` (${filterCount})`}
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="bg-white rounded-xl ring-1 ring-slate-200 p-4 space-y-3 text-sm">
+          {categories.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="w-10 text-xs font-bold text-slate-400">分类</span>
+              {categories.map(category => (
+                <Chip key={category} active={selectedCategories.includes(category)} onClick={() => setSelectedCategories(prev => toggle(prev, category))}>
+                  {category}
+                </Chip>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="w-10 text-xs font-bold text-slate-400">情绪</span>
+            {SENTIMENTS.map(sentiment => (
+              <Chip key={sentiment} active={sentiments.includes(sentiment)} onClick={() => setSentiments(prev => toggle(prev, sentiment))}>
+                {sentiment}
+              </Chip>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="w-10 text-xs font-bold text-slate-400">类型</span>
+            {TYPES.map(({ type, label }) => (
+              <Chip key={type} active={types.includes(type)} onClick={() => setTypes(prev => toggle(prev, type))}>
+                {label}
+              </Chip>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="w-10 text-xs font-bold text-slate-400">日期</span>
+            <input type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)}
+              className="px-2 py-1 rounded-md border border-slate-200 text-xs text-slate-600" />
+            <span className="text-slate-400">至</span>
+            <input type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)}
+              className="px-2 py-1 rounded-md border border-slate-200 text-xs text-slate-600" />
+          </div>
+        </div>
+      )}
+
+      {isActive && (
+        <div className="pt-2 space-y-6">
+          {error ? (
+            <p className="py-10 text-center text-sm text-red-500">搜索失败：{error}</p>
+          ) : results && (
+            <>
+              <div className="space-y-3">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                  笔记 · {results.notes.length} 条结果
+                </h3>
+                {results.notes.length === 0 ? (
+                  <p className="py-10 text-center text-sm text-slate-400">没有找到匹配的笔记</p>
+                ) : results.notes.map(renderNote)}
+              </div>
+
+              {results.insights.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                    洞察 · {results.insights.length} 条结果
+                  </h3>
+                  {results.insights.map(item => (
+                    <button
+                      key={item.id}
+                      onClick={() => onOpenInsight(item)}
+                      className="w-full text-left bg-white rounded-xl ring-1 ring-slate-200 hover:ring-purple-300 hover:shadow-md px-5 py-4 transition-all"
+                    >
+                      <div className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+                        <Sparkles className="w-3.5 h-3.5" />
+                        <span>{item.platform === InsightPlatform.SOCIAL_MEDIA ? '社媒' : '文章'}</span>
+                        <span>{new Date(item.createdAt).toLocaleDateString('zh-CN', { year: 'numeric', month: 'short', day: 'numeric' })}</span>
+                      </div>
+                      <p className="text-sm text-slate-700 leading-relaxed">
+                        <Highlighted text={matchSnippet(item.content, keywords)} keywords={keywords} />
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoteSearch;
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
-import { chatCompletion, imagesGenerate, ModelRegistry } from '../services/platoClient';
+import { chatCompletion, imagesGenerate, describePlatoError, ModelRegistry } from '../services/platoClient';
+import { invalidateCache } from '../services/aiCache';
+import { listAIProviders, getActiveAIProviderId, setActiveAIProvider, AIProviderId } from '../services/aiProvider';
 
 const PlatoTest: React.FC = () => {
   const [prompt, setPrompt] = useState('你好，请用一句话介绍 GrowthLoop');
@@ -7,6 +9,7 @@ const PlatoTest: React.FC = () => {
   const [temperature, setTemperature] = useState<number>(0.7);
   const [result, setResult] = useState<string>('');
   const [loading, setLoading] = useState(false);
+  const [providerId, setProviderId] = useState<AIProviderId>(getActiveAIProviderId());
 
   const [imagePrompt, setImagePrompt] = useState('A minimalist logo for a startup named "GrowthLoop"');
   const [imageUrl, setImageUrl] = useState<string>('');
@@ -15,19 +18,29 @@ const PlatoTest: React.FC = () => {
   const handleSend = async () => {
     setLoading(true);
     setResult('');
-    const text = await chatCompletion([
+    const reply = await chatCompletion([
       { role: 'user', content: prompt }
     ], { model, temperature });
-    setResult(text);
+    setResult(reply.ok === false ? `${describePlatoError(reply)}\n${reply.message}` : reply.data);
     setLoading(false);
   };
 
+  const handleProviderChange = (id: AIProviderId) => {
+    setActiveAIProvider(id);
+    setProviderId(id);
+  };
+
+  const handleClearCache = async () => {
+    await invalidateCache();
+    setResult('AI 响应缓存已清空');
+  };
+
   const handleImageGenerate = async () => {
     setImageLoading(true);
     setImageUrl('');
-    const url = await imagesGenerate(imagePrompt);
-    if (url) {
-      setImageUrl(url);
+    const result = await imagesGenerate(imagePrompt);
+    if (result.ok) {
+      setImageUrl(result.data);
     } else {
       setImageUrl('//error'); // Simple error indicator
     }
@@ -38,7 +51,19 @@ const PlatoTest: React.FC = () => {
     <div className="h-full flex flex-col">
       <header className="h-16 flex items-center justify-between px-8 bg-white/80 backdrop-blur-md sticky top-0 z-20 border-b border-slate-100">
         <h2 className="text-lg font-bold text-slate-800">Plato 测试</h2>
-        <div className="text-xs text-slate-500">BASE_URL: {import.meta.env.VITE_PLATO_BASE_URL || '未配置'} · MODEL: {ModelRegistry.DEFAULT}</div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            AI 服务商
+            <select
+              className="px-2 py-1 rounded-lg border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              value={providerId}
+              onChange={(e) => handleProviderChange(e.target.value as AIProviderId)}
+            >
+              {listAIProviders().map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </label>
+          <div className="text-xs text-slate-500">BASE_URL: /api（服务端代理） · MODEL: {ModelRegistry.DEFAULT}</div>
+        </div>
       </header>
 
       <div className="p-8 max-w-3xl w-full mx-auto space-y-4 divide-y divide-slate-200">
@@ -80,6 +105,11 @@ const PlatoTest: React.FC = () => {
               className={`px-4 py-2 rounded-lg text-white text-sm font-medium ${loading ? 'bg-slate-400' : 'bg-slate-900 hover:bg-slate-800'}`}>
               {loading ? '调用中...' : '发送调用'}
             </button>
+            <button
+              onClick={handleClearCache}
+              className="px-4 py-2 rounded-lg text-slate-600 text-sm font-medium border border-slate-200 hover:bg-slate-50">
+              清空 AI 缓存
+            </button>
           </div>
           <div>
             <h4 className="text-sm font-semibold text-slate-700 mb-2">返回结果</h4>
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Layers, Sparkles } from 'lucide-react';
+import { Note } from '../types';
+import { RelatedNote } from '../services/repositories';
+
+interface RelatedNotesProps {
+  note: Note;
+  loadRelated: (noteId: string) => Promise<RelatedNote[]>;
+  onOpenNote: (note: Note) => void;
+  /** 后台算完新的向量后递增，触发重新加载 */
+  refreshKey?: number;
+}
+
+// 低于这个相似度的基本是无关内容，不展示
+const MIN_SIMILARITY = 0.4;
+
+const preview = (note: Note) => (note.content || note.ocr_text || '').replace(/\s+/g, ' ').trim().slice(0, 90);
+
+/** 语义上最相近的笔记（按向量相似度），点击在详情中打开 */
+const RelatedNotes: React.FC<RelatedNotesProps> = ({ note, loadRelated, onOpenNote, refreshKey }) => {
+  const [related, setRelated] = useState<RelatedNote[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    loadRelated(note.id)
+      .then(list => { if (!cancelled) setRelated(list.filter(item => item.similarity >= MIN_SIMILARITY)); })
+      .catch((error: any) => { if (!cancelled) setLoadError(error?.message || String(error)); });
+    return () => { cancelled = true; };
+  }, [note.id, note.updated_at, refreshKey]);
+
+  return (
+    <div className="mt-6 pt-4 border-t border-slate-200">
+      <h4 className="flex items-center gap-1.5 text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">
+        <Sparkles className="w-3.5 h-3.5" /> 相关笔记
+      </h4>
+      {loadError ? (
+        <p className="text-sm text-red-500">加载相关笔记失败：{loadError}</p>
+      ) : !related ? (
+        <div className="py-4 flex justify-center text-slate-400">
+          <Loader2 className="w-5 h-5 animate-spin" />
+        </div>
+      ) : related.length === 0 ? (
+        <p className="text-sm text-slate-400">暂时没有相关笔记（新笔记需要片刻完成索引）</p>
+      ) : (
+        <ul className="space-y-2">
+          {related.map(({ note: item, similarity }) => (
+            <li key={item.id}>
+              <button
+                onClick={() => onOpenNote(item)}
+                className="w-full flex items-start gap-3 text-left bg-white rounded-lg ring-1 ring-slate-200 hover:ring-purple-300 px-4 py-2.5 transition-all"
+              >
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm text-slate-700 truncate">{preview(item) || '（图片笔记）'}</span>
+                  <span className="flex items-center gap-2 mt-0.5 text-xs text-slate-400">
+                    {item.analysis_category && <span>{item.analysis_category}</span>}
+                    {item.parent_stack_id && <span className="flex items-center gap-0.5"><Layers className="w-3 h-3" />在卡片组中</span>}
+                  </span>
+                </span>
+                <span className="shrink-0 text-xs font-medium text-purple-600 tabular-nums">{Math.round(similarity * 100)}%</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RelatedNotes;
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Note, NoteRevision } from '../types';
+import { sideBySideDiff, DiffSegment } from '../services/textDiff';
+
+interface RevisionHistoryProps {
+  note: Note;
+  loadRevisions: (noteId: string) => Promise<NoteRevision[]>;
+  onRestore: (content: string) => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString('zh-CN', {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+});
+
+const Segments: React.FC<{ segments: DiffSegment[] | null; tone: 'removed' | 'added' }> = ({ segments, tone }) => (
+  <>
+    {segments?.map((segment, idx) => (
+      <span
+        key={idx}
+        className={segment.changed ? (tone === 'removed' ? 'bg-red-200/70 rounded-sm' : 'bg-green-200/70 rounded-sm') : undefined}
+      >
+        {segment.text}
+      </span>
+    ))}
+  </>
+);
+
+/** 历史版本列表 + 所选版本与当前内容的左右对照 */
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ note, loadRevisions, onRestore }) => {
+  const [revisions, setRevisions] = useState<NoteRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // 当前内容变化（例如刚恢复了旧版本）后重新加载
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    loadRevisions(note.id)
+      .then(list => {
+        if (cancelled) return;
+        setRevisions(list);
+        setSelectedId(prev => (prev && list.some(r => r.id === prev) ? prev : list[0]?.id ?? null));
+      })
+      .catch((error: any) => { if (!cancelled) setLoadError(error?.message || String(error)); });
+    return () => { cancelled = true; };
+  }, [note.id, note.content]);
+
+  const selected = revisions?.find(revision => revision.id === selectedId);
+  const rows = useMemo(() => (selected ? sideBySideDiff(selected.content, note.content) : []), [selected, note.content]);
+
+  if (loadError) return <p className="py-12 text-center text-sm text-red-500">加载历史版本失败：{loadError}</p>;
+  if (!revisions) {
+    return (
+      <div className="py-12 flex justify-center text-slate-400">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+  if (revisions.length === 0) return <p className="py-12 text-center text-sm text-slate-400">这条笔记还没有修改过</p>;
+
+  return (
+    <div className="flex gap-4 min-h-[300px]">
+      {/* Versions */}
+      <div className="w-40 shrink-0 space-y-1">
+        <div className="px-3 py-2 text-xs font-bold text-slate-400 uppercase tracking-wider">历史版本</div>
+        {revisions.map(revision => (
+          <button
+            key={revision.id}
+            onClick={() => setSelectedId(revision.id)}
+            className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors
+              ${revision.id === selectedId ? 'bg-purple-100 text-purple-700 font-medium' : 'text-slate-600 hover:bg-slate-100'}`}
+          >
+            {formatTime(revision.createdAt)}
+          </button>
+        ))}
+      </div>
+
+      {/* Diff */}
+      {selected && (
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between mb-3">
+            <div className="grid grid-cols-2 gap-4 flex-1 text-xs font-bold text-slate-500">
+              <span>{formatTime(selected.createdAt)} 的版本</span>
+              <span>当前版本</span>
+            </div>
+            <button
+              onClick={() => onRestore(selected.content)}
+              disabled={selected.content === note.content}
+              className="ml-4 flex items-center gap-1.5 text-sm font-medium text-purple-600 hover:text-purple-700 disabled:text-slate-300 shrink-0"
+            >
+              <RotateCcw className="w-3.5 h-3.5" /> 恢复此版本
+            </button>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-white overflow-hidden text-sm font-mono">
+            {rows.map((row, idx) => (
+              <div key={idx} className="grid grid-cols-2 divide-x divide-slate-100">
+                <div className={`px-3 py-0.5 min-h-[1.5em] whitespace-pre-wrap break-words ${row.changed && row.left ? 'bg-red-50' : ''}`}>
+                  <Segments segments={row.left} tone="removed" />
+                </div>
+                <div className={`px-3 py-0.5 min-h-[1.5em] whitespace-pre-wrap break-words ${row.changed && row.right ? 'bg-green-50' : ''}`}>
+                  <Segments segments={row.right} tone="added" />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
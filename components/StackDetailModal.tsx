@@ -1,32 +1,90 @@
 
 import React from 'react';
-import { Note, InsightPlatform, InsightHistoryItem } from '../types';
-import { X, Layers, Trash2, FileText } from 'lucide-react';
+import { Note, NoteType, InsightPlatform, InsightHistoryItem } from '../types';
+import { X, Layers, Trash2, FileText, Loader2, ChevronRight } from 'lucide-react';
 import NoteCard from './NoteCard';
-import { generateInsights } from '../services/geminiService';
+import { generateInsights, flattenStackNotes } from '../services/aiProvider';
+import { describePlatoError } from '../services/platoClient';
+import { stackSize } from '../services/repositories';
 
 interface StackDetailModalProps {
   stack: Note;
   onClose: () => void;
   onRemoveItem: (noteId: string) => void;
-  onSaveToHistory: (item: InsightHistoryItem) => void;
+  onSaveToHistory: (item: Omit<InsightHistoryItem, 'id' | 'createdAt'>) => void;
+  /** 成员尚未加载时（分页列表只带计数）在打开弹窗时加载 */
+  onLoadItems?: () => void;
+  /** 外层卡片组，从顶层开始；嵌套的卡片组在标题上方显示路径 */
+  ancestors?: Note[];
+  /** 打开子卡片组或路径上的外层卡片组 */
+  onOpenStack?: (stack: Note) => void;
+  /** 打开普通成员笔记的详情 */
+  onOpenNote?: (note: Note) => void;
+  /** 保存拖动后的成员顺序（直接成员的 id，从前到后） */
+  onReorder?: (stackId: string, orderedIds: string[]) => void;
 }
 
-const StackDetailModal: React.FC<StackDetailModalProps> = ({ stack, onClose, onRemoveItem, onSaveToHistory }) => {
+// 把 id 移到 targetId 所在的位置：向后拖时落在目标之后，向前拖时落在目标之前
+const moveTo = (order: string[], id: string, targetId: string): string[] => {
+  const next = order.filter(itemId => itemId !== id);
+  next.splice(order.indexOf(targetId), 0, id);
+  return next;
+};
+
+const StackDetailModal: React.FC<StackDetailModalProps> = ({ stack, onClose, onRemoveItem, onSaveToHistory, onLoadItems, ancestors = [], onOpenStack, onOpenNote, onReorder }) => {
   const [isGenerating, setIsGenerating] = React.useState(false);
+  // 在弹窗内拖动调整顺序，拖动过程中先按预览顺序显示，放下后才保存
+  const [draggingId, setDraggingId] = React.useState<string | null>(null);
+  const [previewOrder, setPreviewOrder] = React.useState<string[] | null>(null);
+  // 拖出弹窗后让弹窗变透明且不拦截鼠标，可以放到主列表的笔记或卡片组上
+  const [isDraggingOut, setIsDraggingOut] = React.useState(false);
+  // 进入卡片内部的子元素也会触发 dragenter，同一目标只移动一次，否则会来回交换
+  const lastTargetId = React.useRef<string | null>(null);
+  const isLoadingItems = stack.stackItemCount !== undefined;
+
+  const items = stack.stackItems || [];
+  const displayedItems = previewOrder
+    ? previewOrder.map(id => items.find(item => item.id === id)).filter(Boolean)
+    : items;
+
+  const endDrag = () => {
+    lastTargetId.current = null;
+    setDraggingId(null);
+    setPreviewOrder(null);
+    setIsDraggingOut(false);
+  };
+
+  const handleDropInside = (e: React.DragEvent) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    const original = items.map(item => item.id);
+    if (previewOrder && previewOrder.some((id, index) => id !== original[index])) onReorder?.(stack.id, previewOrder);
+    endDrag();
+  };
+
+  React.useEffect(() => {
+    if (isLoadingItems) onLoadItems?.();
+  }, [stack.id]);
 
   const handleGenerateSummary = async () => {
     if (!stack.stackItems || stack.stackItems.length === 0) return;
     setIsGenerating(true);
-    const textResult = await generateInsights(stack.stackItems, InsightPlatform.NEWSLETTER, stack.stackCategory);
-    
-    const newHistoryItem: InsightHistoryItem = {
-      id: Date.now().toString(),
-      content: textResult,
+    const result = await generateInsights(stack.stackItems, InsightPlatform.NEWSLETTER, stack.stack_category);
+    if (result.ok === false) {
+      // 失败时不保存，避免把错误信息当作文章归档
+      setIsGenerating(false);
+      alert('生成失败：' + describePlatoError(result));
+      return;
+    }
+
+    const newHistoryItem: Omit<InsightHistoryItem, 'id' | 'createdAt'> = {
+      content: result.data,
       platform: InsightPlatform.NEWSLETTER,
-      createdAt: Date.now(),
-      category: stack.stackCategory,
-      relatedNotes: stack.stackItems // Save source material
+      category: stack.stack_category,
+      stackId: stack.id,
+      relatedNotes: flattenStackNotes(stack.stackItems), // Save source material (including sub-stacks)
+      model: result.trace.model,
+      fallbackModels: result.trace.fallbacks.map(f => f.model)
     };
     onSaveToHistory(newHistoryItem);
     setIsGenerating(false);
@@ -35,8 +93,21 @@ const StackDetailModal: React.FC<StackDetailModalProps> = ({ stack, onClose, onR
   };
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200">
-      <div className="bg-white rounded-2xl w-full max-w-3xl max-h-[85vh] flex flex-col shadow-2xl overflow-hidden ring-1 ring-slate-200">
+    <div
+      className={`fixed inset-0 z-50 flex items-center justify-center p-4 transition-opacity duration-200 ${
+        isDraggingOut ? 'pointer-events-none opacity-30' : 'bg-slate-900/40 backdrop-blur-sm animate-in fade-in'
+      }`}
+      onDragOver={(e) => {
+        if (!draggingId || e.target !== e.currentTarget) return;
+        setPreviewOrder(null);
+        setIsDraggingOut(true);
+      }}
+    >
+      <div
+        className="bg-white rounded-2xl w-full max-w-3xl max-h-[85vh] flex flex-col shadow-2xl overflow-hidden ring-1 ring-slate-200"
+        onDragOver={(e) => { if (draggingId) e.preventDefault(); }}
+        onDrop={handleDropInside}
+      >
         
         {/* Header */}
         <div className="p-5 border-b border-slate-100 flex items-center justify-between bg-white">
@@ -45,8 +116,20 @@ const StackDetailModal: React.FC<StackDetailModalProps> = ({ stack, onClose, onR
               <Layers className="w-6 h-6" />
             </div>
             <div>
+              {ancestors.length > 0 && (
+                <nav className="flex items-center gap-1 text-xs text-slate-400 mb-0.5">
+                  {ancestors.map(ancestor => (
+                    <React.Fragment key={ancestor.id}>
+                      <button onClick={() => onOpenStack?.(ancestor)} className="hover:text-purple-600 truncate max-w-[10rem]">
+                        {ancestor.title || '未命名卡片组'}
+                      </button>
+                      <ChevronRight className="w-3 h-3 shrink-0" />
+                    </React.Fragment>
+                  ))}
+                </nav>
+              )}
               <h3 className="font-bold text-xl text-slate-800">{stack.title || '卡片组详情'}</h3>
-              <p className="text-sm text-slate-500 font-medium">{stack.stackItems?.length || 0} 条笔记 · {stack.stackCategory || '通用'}</p>
+              <p className="text-sm text-slate-500 font-medium">{stackSize(stack)} 条笔记 · {stack.stack_category || '通用'}</p>
             </div>
           </div>
           <button 
@@ -59,14 +142,37 @@ const StackDetailModal: React.FC<StackDetailModalProps> = ({ stack, onClose, onR
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6 bg-slate-50/50">
+          {isLoadingItems && (
+            <div className="py-12 flex justify-center text-slate-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
-            {stack.stackItems?.map(item => (
-              <div key={item.id} className="relative group">
-                <NoteCard note={item} draggable={false} />
+            {displayedItems.map(item => (
+              <div
+                key={item.id}
+                className={`relative group transition-opacity ${draggingId === item.id ? 'opacity-40' : ''}`}
+                onDragStart={() => {
+                  setDraggingId(item.id);
+                  setPreviewOrder(items.map(i => i.id));
+                }}
+                onDragEnter={() => {
+                  if (!draggingId || !previewOrder) return;
+                  if (draggingId === item.id) {
+                    lastTargetId.current = null;
+                    return;
+                  }
+                  if (lastTargetId.current === item.id) return;
+                  lastTargetId.current = item.id;
+                  setPreviewOrder(moveTo(previewOrder, draggingId, item.id));
+                }}
+                onDragEnd={endDrag}
+              >
+                <NoteCard note={item} onClick={item.type === NoteType.STACK ? onOpenStack : onOpenNote} />
                 <button 
                   onClick={(e) => { e.stopPropagation(); onRemoveItem(item.id); }}
                   className="absolute top-2 right-2 bg-white text-red-500 p-2 rounded-full shadow-md opacity-0 group-hover:opacity-100 transition-all hover:bg-red-50 border border-red-100"
-                  title="移出卡片组"
+                  title={ancestors.length > 0 ? '移到上一级卡片组' : '移出卡片组'}
                 >
                   <Trash2 className="w-4 h-4" />
                 </button>
@@ -78,11 +184,11 @@ const StackDetailModal: React.FC<StackDetailModalProps> = ({ stack, onClose, onR
         {/* Footer */}
         <div className="p-5 border-t border-slate-100 bg-white flex justify-between items-center">
           <span className="text-xs text-slate-400 font-medium">
-            提示: 拖拽卡片可重新排序（开发中）
+            提示: 拖动卡片调整顺序，生成总结时按此顺序组织；拖到弹窗外可放到其他笔记或卡片组上
           </span>
           <button
             onClick={handleGenerateSummary}
-            disabled={isGenerating}
+            disabled={isGenerating || isLoadingItems}
             className="bg-purple-600 hover:bg-purple-700 text-white px-6 py-2.5 rounded-xl font-bold shadow-lg shadow-purple-200 transition-all flex items-center gap-2 disabled:opacity-70 disabled:shadow-none"
           >
             {isGenerating ? '生成中...' : <><FileText className="w-4 h-4" /> 生成组总结</>}
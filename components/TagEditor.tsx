@@ -0,0 +1,86 @@
+import React, { useId, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+
+interface TagEditorProps {
+  tags: string[];
+  /** 不传则只读 */
+  onChange?: (tags: string[]) => void;
+  /** 已有标签，输入时作为候选 */
+  suggestions?: string[];
+  /** 只显示前几个，其余折叠为 +N */
+  limit?: number;
+  size?: 'sm' | 'md';
+}
+
+const chipStyles = {
+  sm: 'text-[10px] px-2 py-0.5',
+  md: 'text-sm px-3 py-1',
+};
+
+/** 可编辑的标签：悬停显示删除按钮，点 + 输入新标签（回车确认，可用逗号一次添加多个） */
+const TagEditor: React.FC<TagEditorProps> = ({ tags, onChange, suggestions = [], limit, size = 'sm' }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [draft, setDraft] = useState('');
+  const listId = useId();
+
+  const visible = limit !== undefined ? tags.slice(0, limit) : tags;
+  const hidden = tags.length - visible.length;
+
+  const commitDraft = () => {
+    const added = draft.split(/[,，\s]+/).map(tag => tag.replace(/^#/, '').trim()).filter(Boolean);
+    if (added.length > 0 && onChange) onChange(Array.from(new Set([...tags, ...added])));
+    setDraft('');
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" onClick={(e) => onChange && e.stopPropagation()}>
+      {visible.map(tag => (
+        <span key={tag} className={`group/tag flex items-center gap-1 font-medium text-slate-500 bg-slate-100 rounded-full ${chipStyles[size]}`}>
+          #{tag}
+          {onChange && (
+            <button
+              onClick={() => onChange(tags.filter(t => t !== tag))}
+              className="hidden group-hover/tag:inline-flex text-slate-400 hover:text-red-500"
+              aria-label={`删除标签 ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </span>
+      ))}
+      {hidden > 0 && <span className={`font-medium text-slate-400 ${chipStyles[size]}`}>+{hidden}</span>}
+
+      {onChange && (isAdding ? (
+        <>
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') { e.preventDefault(); commitDraft(); }
+              if (e.key === 'Escape') { setDraft(''); setIsAdding(false); }
+            }}
+            onBlur={commitDraft}
+            list={listId}
+            placeholder="新标签"
+            className={`w-24 rounded-full border border-purple-300 bg-white outline-none focus:ring-1 focus:ring-purple-400 ${chipStyles[size]}`}
+            autoFocus
+          />
+          <datalist id={listId}>
+            {suggestions.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+        </>
+      ) : (
+        <button
+          onClick={() => setIsAdding(true)}
+          className={`flex items-center text-slate-400 hover:text-purple-600 hover:bg-purple-50 rounded-full ${chipStyles[size]}`}
+          aria-label="添加标签"
+        >
+          <Plus className="w-3 h-3" />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Loader2, Pencil, Trash2 } from 'lucide-react';
+import { Taxonomy, TaxonomyEntry } from '../services/repositories';
+import ConfirmDialog from './ConfirmDialog';
+
+type Kind = 'tag' | 'category';
+
+interface TagManagerProps {
+  taxonomy: Taxonomy;
+  isLoading: boolean;
+  /** to 为 null 表示删除标签 */
+  onRenameTag: (from: string, to: string | null) => void;
+  onRenameCategory: (from: string, to: string) => void;
+}
+
+const LABELS: Record<Kind, string> = { tag: '标签', category: '分类' };
+
+/** 标签与分类管理：重命名（改成已有的名字即合并）与删除标签，作用于全部笔记 */
+const TagManager: React.FC<TagManagerProps> = ({ taxonomy, isLoading, onRenameTag, onRenameCategory }) => {
+  const [editing, setEditing] = useState<{ kind: Kind; name: string } | null>(null);
+  const [draft, setDraft] = useState('');
+  // 需要确认的操作：合并到已有项，或删除标签
+  const [pending, setPending] = useState<{ kind: Kind; from: string; to: string | null } | null>(null);
+
+  const entriesOf = (kind: Kind) => (kind === 'tag' ? taxonomy.tags : taxonomy.categories);
+
+  const apply = (kind: Kind, from: string, to: string | null) => {
+    if (kind === 'tag') onRenameTag(from, to);
+    else if (to) onRenameCategory(from, to);
+  };
+
+  const startRename = (kind: Kind, name: string) => {
+    setEditing({ kind, name });
+    setDraft(name);
+  };
+
+  const commitRename = () => {
+    if (!editing) return;
+    const to = draft.replace(/^#/, '').trim();
+    const { kind, name } = editing;
+    setEditing(null);
+    if (!to || to === name) return;
+    if (entriesOf(kind).some(entry => entry.name === to)) setPending({ kind, from: name, to });
+    else apply(kind, name, to);
+  };
+
+  const handleConfirm = () => {
+    if (pending) apply(pending.kind, pending.from, pending.to);
+    setPending(null);
+  };
+
+  const renderSection = (kind: Kind, entries: TaxonomyEntry[]) => (
+    <section className="bg-white rounded-2xl ring-1 ring-slate-200 overflow-hidden">
+      <h3 className="px-5 py-3 text-xs font-bold text-slate-400 uppercase tracking-wider border-b border-slate-100">
+        {LABELS[kind]}（{entries.length}）
+      </h3>
+      {entries.length === 0 ? (
+        <p className="px-5 py-8 text-center text-sm text-slate-400">还没有{LABELS[kind]}</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {entries.map(entry => (
+            <li key={entry.name} className="group flex items-center gap-3 px-5 py-2.5">
+              {editing?.kind === kind && editing.name === entry.name ? (
+                <input
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  onBlur={commitRename}
+                  list={`taxonomy-${kind}-names`}
+                  className="flex-1 px-2 py-1 text-sm rounded-md border border-purple-300 outline-none focus:ring-1 focus:ring-purple-400"
+                  autoFocus
+                />
+              ) : (
+                <span className="flex-1 text-sm font-medium text-slate-700">{kind === 'tag' ? `#${entry.name}` : entry.name}</span>
+              )}
+              <span className="text-xs text-slate-400 tabular-nums">{entry.count} 条笔记</span>
+              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => startRename(kind, entry.name)}
+                  className="p-1.5 rounded-md text-slate-400 hover:text-purple-600 hover:bg-purple-50"
+                  title="重命名或合并"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                {kind === 'tag' && (
+                  <button
+                    onClick={() => setPending({ kind, from: entry.name, to: null })}
+                    className="p-1.5 rounded-md text-slate-400 hover:text-red-500 hover:bg-red-50"
+                    title="从所有笔记中删除"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <datalist id={`taxonomy-${kind}-names`}>
+        {entries.map(entry => <option key={entry.name} value={entry.name} />)}
+      </datalist>
+    </section>
+  );
+
+  const pendingEntry = pending && entriesOf(pending.kind).find(entry => entry.name === pending.from);
+
+  return (
+    <div className="h-full flex flex-col">
+      <header className="h-16 flex items-center justify-between px-8 bg-white/80 backdrop-blur-md sticky top-0 z-20 border-b border-slate-100">
+        <h2 className="text-lg font-bold text-slate-800">标签管理</h2>
+        <span className="text-xs text-slate-400">重命名为已有的名字即可合并</span>
+      </header>
+
+      <div className="flex-1 overflow-y-auto px-8 py-8 no-scrollbar">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {isLoading ? (
+            <div className="py-20 flex justify-center text-slate-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : (
+            <>
+              {renderSection('category', taxonomy.categories)}
+              {renderSection('tag', taxonomy.tags)}
+            </>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!pending}
+        title={pending?.to ? `合并${LABELS[pending.kind]}` : '删除标签'}
+        message={pending?.to
+          ? `“${pending.from}”将合并到已有的“${pending.to}”，影响 ${pendingEntry?.count ?? 0} 条笔记。`
+          : `将从 ${pendingEntry?.count ?? 0} 条笔记中移除标签“${pending?.from ?? ''}”。`}
+        confirmText={pending?.to ? '合并' : '删除'}
+        danger={!pending?.to}
+        onConfirm={handleConfirm}
+        onCancel={() => setPending(null)}
+      />
+    </div>
+  );
+};
+
+export default TagManager;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AlertCircle, Info, X } from 'lucide-react';
+import { Toast } from '../hooks/useToasts';
+
+interface ToastStackProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+const ToastStack: React.FC<ToastStackProps> = ({ toasts, onDismiss }) => {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[70] flex flex-col items-center gap-2 pointer-events-none">
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          role={toast.tone === 'error' ? 'alert' : 'status'}
+          className={`pointer-events-auto flex items-center gap-3 pl-4 pr-2 py-2.5 rounded-xl shadow-lg ring-1 text-sm font-medium animate-in fade-in slide-in-from-bottom-2 duration-150
+            ${toast.tone === 'error'
+              ? 'bg-red-50 text-red-700 ring-red-200'
+              : 'bg-slate-900 text-white ring-slate-800'}`}
+        >
+          {toast.tone === 'error' ? <AlertCircle className="w-4 h-4 shrink-0" /> : <Info className="w-4 h-4 shrink-0" />}
+          <span>{toast.message}</span>
+          {toast.action && (
+            <button
+              onClick={() => { toast.action!.onClick(); onDismiss(toast.id); }}
+              className={`px-2 py-0.5 rounded-md font-bold transition-colors
+                ${toast.tone === 'error' ? 'text-red-700 hover:bg-red-100' : 'text-purple-300 hover:bg-slate-800'}`}
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button
+            onClick={() => onDismiss(toast.id)}
+            className="p-1 rounded-full opacity-60 hover:opacity-100 transition-opacity"
+            aria-label="关闭"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ToastStack;
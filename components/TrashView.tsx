@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Trash2, RotateCcw, Loader2 } from 'lucide-react';
+import { Note } from '../types';
+import NoteCard from './NoteCard';
+import ConfirmDialog from './ConfirmDialog';
+
+interface TrashViewProps {
+  notes: Note[];
+  isLoading: boolean;
+  onRestore: (noteId: string) => void;
+  onPurge: (noteIds: string[]) => void;
+}
+
+const TrashView: React.FC<TrashViewProps> = ({ notes, isLoading, onRestore, onPurge }) => {
+  // 待确认永久删除的笔记；'ALL' 表示清空回收站
+  const [toPurge, setToPurge] = useState<string | 'ALL' | null>(null);
+
+  const handleConfirmPurge = () => {
+    if (!toPurge) return;
+    onPurge(toPurge === 'ALL' ? notes.map(note => note.id) : [toPurge]);
+    setToPurge(null);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <header className="h-16 flex items-center justify-between px-8 bg-white/80 backdrop-blur-md sticky top-0 z-20 border-b border-slate-100">
+        <h2 className="text-lg font-bold text-slate-800">回收站</h2>
+        <button
+          onClick={() => setToPurge('ALL')}
+          disabled={notes.length === 0}
+          className="flex items-center gap-2 text-sm font-medium text-red-500 hover:text-red-600 disabled:text-slate-300 transition-colors"
+        >
+          <Trash2 className="w-4 h-4" /> 清空回收站
+        </button>
+      </header>
+
+      <div className="flex-1 overflow-y-auto px-8 py-8 no-scrollbar">
+        <div className="max-w-5xl mx-auto">
+          {isLoading ? (
+            <div className="py-20 flex justify-center text-slate-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : notes.length === 0 ? (
+            <p className="py-20 text-center text-slate-400 font-medium">回收站是空的</p>
+          ) : (
+            <div className="columns-1 md:columns-2 lg:columns-3 gap-6 space-y-6">
+              {notes.map(note => (
+                <div key={note.id} className="break-inside-avoid">
+                  <NoteCard note={note} draggable={false} />
+                  <div className="flex items-center justify-between mt-2 px-1 text-xs text-slate-400">
+                    <span>
+                      删除于 {note.deleted_at && new Date(note.deleted_at).toLocaleString('zh-CN', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => onRestore(note.id)}
+                        className="flex items-center gap-1 font-medium text-purple-600 hover:text-purple-700"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" /> 恢复
+                      </button>
+                      <button
+                        onClick={() => setToPurge(note.id)}
+                        className="font-medium text-red-500 hover:text-red-600"
+                      >
+                        永久删除
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!toPurge}
+        title={toPurge === 'ALL' ? '清空回收站' : '永久删除'}
+        message={toPurge === 'ALL'
+          ? `将永久删除回收站中的 ${notes.length} 项内容，此操作无法撤销。`
+          : '将永久删除这条内容（卡片组会连同其中已删除的笔记），此操作无法撤销。'}
+        confirmText="永久删除"
+        danger
+        onConfirm={handleConfirmPurge}
+        onCancel={() => setToPurge(null)}
+      />
+    </div>
+  );
+};
+
+export default TrashView;
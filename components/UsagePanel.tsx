@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip } from 'recharts';
+import { RefreshCw } from 'lucide-react';
+import { fetchDailyUsage, DailyUsage, USAGE_CASE_LABELS } from '../services/usageTracker';
+
+const COLORS = ['#8b5cf6', '#ec4899', '#3b82f6', '#10b981', '#f59e0b', '#64748b', '#ef4444', '#14b8a6'];
+const DAYS = 7;
+
+const formatUsd = (value: number) => `$${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+
+const UsagePanel: React.FC = () => {
+  const [usage, setUsage] = useState<DailyUsage[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setUsage(await fetchDailyUsage(DAYS));
+    } catch (e: any) {
+      console.error('Error fetching AI usage:', e.message);
+      setError('用量数据加载失败');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  // Pivot rows into one bar per day, stacked by use case
+  const { chartData, useCases, totals, totalCost } = useMemo(() => {
+    const days: string[] = [];
+    for (let i = DAYS - 1; i >= 0; i--) {
+      days.push(new Date(Date.now() - i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10));
+    }
+
+    const byDay: Record<string, Record<string, number | string>> = {};
+    days.forEach(day => { byDay[day] = { day: day.slice(5) }; });
+
+    const totals: Record<string, number> = {};
+    usage.forEach(row => {
+      if (!byDay[row.day]) return;
+      byDay[row.day][row.useCase] = ((byDay[row.day][row.useCase] as number) || 0) + row.costUsd;
+      totals[row.useCase] = (totals[row.useCase] || 0) + row.costUsd;
+    });
+
+    const useCases = Object.keys(totals).sort((a, b) => totals[b] - totals[a]);
+    const totalCost = useCases.reduce((sum, key) => sum + totals[key], 0);
+
+    return { chartData: days.map(day => byDay[day]), useCases, totals, totalCost };
+  }, [usage]);
+
+  return (
+    <div className="mb-10">
+      <div className="flex items-center justify-between mb-6">
+        <h4 className="text-sm font-semibold text-slate-500">AI 花费（近 {DAYS} 天）</h4>
+        <button
+          onClick={loadUsage}
+          disabled={isLoading}
+          className="p-1 rounded-md text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition-colors disabled:opacity-50"
+          title="刷新"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error ? (
+        <div className="h-40 w-full flex items-center justify-center text-red-400 text-sm bg-red-50 rounded-2xl">
+          {error}
+        </div>
+      ) : useCases.length === 0 ? (
+        <div className="h-40 w-full flex items-center justify-center text-slate-300 text-sm bg-slate-50 rounded-2xl">
+          {isLoading ? '加载中...' : '暂无用量'}
+        </div>
+      ) : (
+        <>
+          <div className="mb-4">
+            <span className="text-2xl font-bold text-slate-800">{formatUsd(totalCost)}</span>
+            <span className="text-xs text-slate-400 font-medium ml-2">估算</span>
+          </div>
+
+          <BarChart width={250} height={160} data={chartData} margin={{ top: 0, right: 0, bottom: 0, left: -20 }}>
+            <XAxis dataKey="day" tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+            <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+            <Tooltip
+              formatter={(value: number, name: string) => [formatUsd(value), USAGE_CASE_LABELS[name] || name]}
+              contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
+            />
+            {useCases.map((useCase, index) => (
+              <Bar key={useCase} dataKey={useCase} stackId="cost" fill={COLORS[index % COLORS.length]} />
+            ))}
+          </BarChart>
+
+          <ul className="mt-4 space-y-2">
+            {useCases.map((useCase, index) => (
+              <li key={useCase} className="flex items-center justify-between text-xs">
+                <span className="flex items-center gap-2 text-slate-500 font-medium">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }}></span>
+                  {USAGE_CASE_LABELS[useCase] || useCase}
+                </span>
+                <span className="text-slate-700 font-semibold">{formatUsd(totals[useCase])}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
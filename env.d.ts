@@ -1,13 +1,17 @@
 /// <reference types="vite/client" />
 
 // 可选：声明我们会用到的环境变量，便于类型提示 & 消除 import.meta.env 报错
+// 注意：VITE_ 前缀的变量会被打进前端包，服务商 Key 只能放在服务端的 PLATO_API_KEY 中
 interface ImportMetaEnv {
-  readonly VITE_PLATO_API_KEY: "sk-vuOSva5fSrMmwIuX8Zb8DyTSGxoYNAsx19gEttt2UuPzf8yf";
-  readonly VITE_PLATO_BASE_URL: "https://api.bltcy.ai";
-  readonly VITE_PLATO_DEFAULT_MODEL: "gemini-3-pro-preview";
+  readonly VITE_PLATO_DEFAULT_MODEL?: string;
+  readonly VITE_PLATO_IMAGE_MODEL?: string;
+  readonly VITE_PLATO_EMBEDDING_MODEL?: string; // 默认 text-embedding-3-small，须输出 1536 维
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  readonly VITE_AI_PROVIDER?: string;     // plato | gemini-native | mock，默认 plato
+  readonly VITE_AI_CACHE_REMOTE?: string; // 'true' 时 AI 响应缓存同时写入 Supabase ai_cache 表
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv;
 }
-
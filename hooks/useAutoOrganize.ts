@@ -0,0 +1,94 @@
+import { useState, useCallback, useRef } from 'react';
+import { Note, StackCategory } from '../types';
+import { Repositories } from '../services/repositories';
+import { generateStackTitle, determineStackCategory } from '../services/aiProvider';
+import { describePlatoError } from '../services/platoClient';
+import { clusterNotes, StackProposal, CLUSTER_SIMILARITY } from '../services/autoOrganize';
+
+const PAIR_LIMIT = 500;
+
+export interface AutoOrganizeProgress {
+  done: number;
+  total: number;
+}
+
+export type StackPreset = Pick<StackProposal, 'title' | 'category'>;
+
+/**
+ * 自动整理的提案状态：聚类后逐组生成标题与风格，生成一组就展示一组。
+ * 提案只在本地，用户接受时才通过 createStack 写入；拒绝或关闭不产生任何写入。
+ */
+export function useAutoOrganize(
+  repositories: Repositories | null,
+  createStack: (notes: Note[], preset: StackPreset) => Promise<string>
+) {
+  // null 表示面板关闭
+  const [proposals, setProposals] = useState<StackProposal[] | null>(null);
+  const [progress, setProgress] = useState<AutoOrganizeProgress | null>(null);
+  const [acceptingIds, setAcceptingIds] = useState<Set<string>>(new Set());
+  const runId = useRef(0);
+
+  const start = useCallback(async (notes: Note[]) => {
+    if (!repositories) return;
+    const id = ++runId.current;
+    setProposals([]);
+    setProgress({ done: 0, total: 0 });
+
+    // 还没有向量时仍可按分类归组
+    const pairs = await repositories.embeddings.similarPairs(CLUSTER_SIMILARITY, PAIR_LIMIT).catch((error: any) => {
+      console.warn('读取相似笔记失败，仅按分类整理:', error?.message || error);
+      return [];
+    });
+    if (id !== runId.current) return;
+    const clusters = clusterNotes(notes, pairs);
+    setProgress({ done: 0, total: clusters.length });
+
+    for (const [index, cluster] of clusters.entries()) {
+      const [title, category] = await Promise.all([generateStackTitle(cluster.notes), determineStackCategory(cluster.notes)]);
+      if (id !== runId.current) return; // 已关闭或重新开始
+      // 生成失败时不填占位标题：标题留空并显示原因，由用户补上
+      const failed = [title, category].find(result => result.ok === false);
+      setProposals(prev => [...(prev || []), {
+        ...cluster,
+        id: `proposal-${id}-${index}`,
+        title: title.ok ? title.data : '',
+        category: category.ok ? category.data : StackCategory.GENERAL,
+        generationError: failed?.ok === false ? describePlatoError(failed) : undefined,
+      }]);
+      setProgress({ done: index + 1, total: clusters.length });
+    }
+    setProgress(null);
+  }, [repositories]);
+
+  const update = useCallback((proposalId: string, patch: Partial<Pick<StackProposal, 'title' | 'category' | 'notes'>>) => {
+    setProposals(prev => prev && prev.map(p => (p.id === proposalId ? { ...p, ...patch } : p)));
+  }, []);
+
+  const reject = useCallback((proposalId: string) => {
+    setProposals(prev => prev && prev.filter(p => p.id !== proposalId));
+  }, []);
+
+  /** 返回是否已创建卡片组；失败时保留提案以便重试 */
+  const accept = useCallback(async (proposal: StackProposal): Promise<boolean> => {
+    setAcceptingIds(prev => new Set(prev).add(proposal.id));
+    try {
+      const stackId = await createStack(proposal.notes, { title: proposal.title.trim(), category: proposal.category });
+      if (stackId) reject(proposal.id);
+      return !!stackId;
+    } finally {
+      setAcceptingIds(prev => {
+        const next = new Set(prev);
+        next.delete(proposal.id);
+        return next;
+      });
+    }
+  }, [createStack, reject]);
+
+  const close = useCallback(() => {
+    runId.current++;
+    setProposals(null);
+    setProgress(null);
+  }, []);
+
+  return { proposals, progress, acceptingIds, start, update, reject, accept, close };
+}
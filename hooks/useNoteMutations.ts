@@ -0,0 +1,68 @@
+import { useState, useMemo, useCallback, useRef } from 'react';
+import { Note } from '../types';
+
+type TreeUpdate = (tree: Note[]) => Note[];
+
+interface PendingMutation {
+  id: number;
+  apply: TreeUpdate;
+}
+
+export interface MutationOptions<R> {
+  /** 立即作用在界面上的变更 */
+  apply: TreeUpdate;
+  /** 真正写入服务端 */
+  commit: () => Promise<R>;
+  /** 成功后如何更新已确认的状态；默认沿用 apply */
+  settle?: (tree: Note[], result: R) => Note[];
+  /** 失败提示的前缀，例如“删除失败” */
+  failureMessage: string;
+  /** 返回 true 表示调用方已自行处理该错误，不再弹出提示 */
+  onError?: (error: any) => boolean;
+}
+
+export type MutationResult<R> = { ok: true; data: R } | { ok: false; error: any };
+
+/**
+ * 笔记的乐观更新：界面显示“已确认状态 + 尚未完成的变更”。
+ * 某个变更失败时只撤掉它自己，不影响同时进行中的其他变更，并通过 notify 提示用户。
+ */
+export function useNoteMutations(notify: (message: string) => void) {
+  const [confirmed, setConfirmed] = useState<Note[]>([]);
+  const [pending, setPending] = useState<PendingMutation[]>([]);
+  const nextId = useRef(0);
+
+  const notes = useMemo(
+    () => pending.reduce((tree, mutation) => mutation.apply(tree), confirmed),
+    [confirmed, pending]
+  );
+
+  const mutate = useCallback(async <R>(options: MutationOptions<R>): Promise<MutationResult<R>> => {
+    const id = nextId.current++;
+    const remove = () => setPending(prev => prev.filter(mutation => mutation.id !== id));
+    setPending(prev => [...prev, { id, apply: options.apply }]);
+
+    try {
+      const data = await options.commit();
+      setConfirmed(prev => (options.settle ? options.settle(prev, data) : options.apply(prev)));
+      remove();
+      return { ok: true, data };
+    } catch (error: any) {
+      remove();
+      if (!options.onError?.(error)) {
+        console.error(`${options.failureMessage}:`, error?.message || error);
+        notify(`${options.failureMessage}：${error?.message || '请稍后重试'}`);
+      }
+      return { ok: false, error };
+    }
+  }, [notify]);
+
+  return {
+    /** 界面应显示的笔记树 */
+    notes,
+    /** 直接替换已确认状态（拉取列表、实时同步） */
+    setNotes: setConfirmed,
+    mutate,
+    pendingCount: pending.length,
+  };
+}
@@ -0,0 +1,127 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { Note, NoteType } from '../types';
+import { Repositories, NoteConflictError } from '../services/repositories';
+import { analyzeNoteContent, NoteAnalysis, REVIEW_ANALYSIS, REVIEW_TAG } from '../services/aiProvider';
+import { describePlatoError } from '../services/platoClient';
+import { blobToDataUrl } from '../services/captureOutbox';
+import { loadAnalysisVocabulary } from '../services/analysisVocabulary';
+
+const REANALYZE_DEBOUNCE_MS = 3000;
+
+export interface ReanalyzeOptions {
+  refresh?: boolean;         // 跳过分析缓存
+  markOnFailure?: boolean;   // 失败时写入“人工复核”默认结果（内容已变，旧标签不再可信）
+}
+
+/** stale：分析期间笔记又被修改或删除，结果已丢弃（那次修改会重新触发分析），不必提示 */
+export type ReanalyzeResult = { ok: true } | { ok: false; message: string; stale?: boolean };
+
+export interface BulkReanalysisProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+async function loadImage(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`图片加载失败（${response.status}）`);
+  return blobToDataUrl(await response.blob());
+}
+
+/**
+ * 笔记的重新分析：编辑后防抖触发、手动触发，以及批量处理带“人工复核”标签的笔记。
+ * 分析基于服务端最新内容；写回时带上分析开始时的 updated_at，期间内容又被改过就放弃本次结果。
+ */
+export function useNoteReanalysis(
+  repositories: Repositories | null,
+  onAnalyzed: (note: Note) => void,
+  onFailed: (message: string) => void
+) {
+  const [reanalyzingIds, setReanalyzingIds] = useState<Set<string>>(new Set());
+  const [bulkProgress, setBulkProgress] = useState<BulkReanalysisProgress | null>(null);
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const bulkCancelled = useRef(false);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => {
+      pending.forEach(clearTimeout);
+      pending.clear();
+    };
+  }, []);
+
+  /** 失败时返回原因，由调用方决定如何提示 */
+  const reanalyze = useCallback(async (noteId: string, options: ReanalyzeOptions = {}): Promise<ReanalyzeResult> => {
+    if (!repositories) return { ok: false, message: '尚未登录' };
+    clearTimeout(timers.current.get(noteId));
+    timers.current.delete(noteId);
+
+    setReanalyzingIds(prev => new Set(prev).add(noteId));
+    try {
+      const note = await repositories.notes.get(noteId);
+      if (!note) return { ok: false, message: '笔记已被删除', stale: true };
+      if (note.type === NoteType.STACK) return { ok: false, message: '卡片组不需要分析' };
+
+      const imageBase64 = note.image_url ? await loadImage(note.image_url) : undefined;
+      const vocabulary = await loadAnalysisVocabulary(repositories);
+      const result = await analyzeNoteContent(note.content, imageBase64, { refresh: options.refresh, vocabulary });
+      if (result.ok === false && !options.markOnFailure) return { ok: false, message: describePlatoError(result) };
+      const analysis: NoteAnalysis = result.ok ? result.data : REVIEW_ANALYSIS;
+
+      const updated = await repositories.notes.update(noteId, {
+        analysis_category: analysis.category,
+        analysis_tags: analysis.tags,
+        analysis_sentiment: analysis.sentiment,
+        ocr_text: analysis.ocrText,
+      }, { expectedUpdatedAt: note.updated_at });
+      onAnalyzed(updated);
+      return result.ok === false ? { ok: false, message: describePlatoError(result) } : { ok: true };
+    } catch (error: any) {
+      if (error instanceof NoteConflictError) return { ok: false, message: '笔记在分析期间被修改', stale: true };
+      console.error('重新分析失败:', error?.message || error);
+      return { ok: false, message: error?.message || String(error) };
+    } finally {
+      setReanalyzingIds(prev => {
+        const next = new Set(prev);
+        next.delete(noteId);
+        return next;
+      });
+    }
+  }, [repositories, onAnalyzed]);
+
+  /** 编辑后调用：停止输入一段时间后再分析，连续修改只分析最后一次 */
+  const scheduleReanalysis = useCallback((noteId: string) => {
+    clearTimeout(timers.current.get(noteId));
+    timers.current.set(noteId, setTimeout(() => {
+      timers.current.delete(noteId);
+      reanalyze(noteId, { markOnFailure: true }).then(result => {
+        if (result.ok === false && !result.stale) onFailed(`笔记分析失败，已标记为人工复核：${result.message}`);
+      });
+    }, REANALYZE_DEBOUNCE_MS));
+  }, [reanalyze, onFailed]);
+
+  /** 逐条重新分析所有带“人工复核”标签的笔记（包括尚未加载的），返回处理结果 */
+  const reanalyzeFlagged = useCallback(async (): Promise<BulkReanalysisProgress | null> => {
+    if (!repositories) return null;
+    bulkCancelled.current = false;
+    const flagged = (await repositories.notes.listByTag(REVIEW_TAG)).filter(note => note.type !== NoteType.STACK);
+    const progress: BulkReanalysisProgress = { done: 0, total: flagged.length, failed: 0 };
+    setBulkProgress({ ...progress });
+
+    for (const note of flagged) {
+      if (bulkCancelled.current) break;
+      const result = await reanalyze(note.id, { refresh: true });
+      progress.done++;
+      if (result.ok === false) progress.failed++;
+      setBulkProgress({ ...progress });
+    }
+    setBulkProgress(null);
+    return progress;
+  }, [repositories, reanalyze]);
+
+  const cancelBulkReanalysis = useCallback(() => {
+    bulkCancelled.current = true;
+  }, []);
+
+  return { reanalyze, scheduleReanalysis, reanalyzeFlagged, cancelBulkReanalysis, reanalyzingIds, bulkProgress };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { Note, NoteType } from '../types';
+import { NoteInput, Repositories } from '../services/repositories';
+import { generateStackTitle, determineStackCategory } from '../services/aiProvider';
+import { describePlatoError } from '../services/platoClient';
+
+const REFRESH_DEBOUNCE_MS = 1500;
+
+/**
+ * 卡片组成员变化（移入、移出、合并）后重新生成标题与风格。
+ * 连续拖动时防抖，只按服务端的最新成员生成一次（含子卡片组中的笔记）；成员已清空的卡片组保持不变。
+ * 生成失败的那一项保留原值，并通过 onFailed 提示。
+ */
+export function useStackMetadata(repositories: Repositories | null, onUpdated: (stack: Note) => void, onFailed: (message: string) => void) {
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => {
+      pending.forEach(clearTimeout);
+      pending.clear();
+    };
+  }, []);
+
+  const refresh = useCallback(async (stackId: string) => {
+    if (!repositories) return;
+    try {
+      const items = (await repositories.notes.listStackItems([stackId])).filter(item => item.type !== NoteType.STACK);
+      if (items.length === 0) return;
+      const [title, category] = await Promise.all([generateStackTitle(items), determineStackCategory(items)]);
+      const patch: NoteInput = {};
+      if (title.ok) patch.title = title.data;
+      if (category.ok) patch.stack_category = category.data;
+      const failed = [title, category].find(result => result.ok === false);
+      if (failed?.ok === false) onFailed(`卡片组标题更新失败：${describePlatoError(failed)}`);
+      if (Object.keys(patch).length > 0) onUpdated(await repositories.notes.update(stackId, patch));
+    } catch (error: any) {
+      console.error('重新生成卡片组标题失败:', error?.message || error);
+      onFailed('卡片组标题更新失败');
+    }
+  }, [repositories, onUpdated, onFailed]);
+
+  const scheduleRefresh = useCallback((...stackIds: Array<string | null | undefined>) => {
+    stackIds.forEach(stackId => {
+      if (!stackId) return;
+      clearTimeout(timers.current.get(stackId));
+      timers.current.set(stackId, setTimeout(() => {
+        timers.current.delete(stackId);
+        refresh(stackId);
+      }, REFRESH_DEBOUNCE_MS));
+    });
+  }, [refresh]);
+
+  return { scheduleRefresh };
+}
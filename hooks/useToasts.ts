@@ -0,0 +1,39 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Toast {
+  id: number;
+  message: string;
+  tone: 'error' | 'info';
+  action?: ToastAction; // 例如删除后的“撤销”
+}
+
+const TOAST_DURATION_MS = 5000;
+
+/** 轻量提示队列：show 之后自动在几秒内消失，也可手动关闭 */
+export function useToasts() {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const dismiss = useCallback((id: number) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  const show = useCallback((message: string, tone: Toast['tone'] = 'info', action?: ToastAction) => {
+    const id = nextId.current++;
+    setToasts(prev => [...prev, { id, message, tone, action }]);
+    timers.current.set(id, setTimeout(() => dismiss(id), TOAST_DURATION_MS));
+    return id;
+  }, [dismiss]);
+
+  useEffect(() => () => timers.current.forEach(timer => clearTimeout(timer)), []);
+
+  return { toasts, show, dismiss };
+}
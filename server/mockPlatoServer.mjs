@@ -0,0 +1,270 @@
+// @ts-check
+/**
+ * 本地 Plato 模拟服务器：离线提供 OpenAI 兼容的 chat/completions（含 SSE 流式）、images/generations 与 embeddings。
+ * 相同请求得到相同响应；可通过环境变量或 /__mock/config 注入延迟、429 与 5xx，便于验证重试与回退。
+ *
+ * 启动：npm run mock:plato
+ * 接入：在 .env.local 中设置 PLATO_BASE_URL=http://localhost:8787/v1/，开发服务器的 /api 代理即会转发到这里
+ *       （上游是本机地址时代理不校验 Supabase 登录，整个流程可以完全离线）。
+ * 测试中可直接导入 mockPlatoServer 并监听任意端口；只有直接运行本文件时才会自动监听。
+ *
+ * 环境变量：
+ *   MOCK_PLATO_PORT               监听端口，默认 8787
+ *   MOCK_PLATO_FIXTURES           夹具 JSON 路径，格式见 server/fixtures/mock-plato.example.json
+ *   MOCK_PLATO_LATENCY_MS         每个请求返回前的固定延迟
+ *   MOCK_PLATO_STREAM_DELAY_MS    流式输出每个分片之间的延迟，默认 30
+ *   MOCK_PLATO_FAIL_EVERY         每第 N 个请求返回 MOCK_PLATO_FAIL_STATUS（默认 503），0 为关闭
+ *   MOCK_PLATO_RATE_LIMIT_EVERY   每第 N 个请求返回 429，0 为关闭
+ *   MOCK_PLATO_RETRY_AFTER        429 响应的 Retry-After 秒数，默认 1
+ */
+import http from 'node:http';
+import fs from 'node:fs';
+import crypto from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+
+const env = process.env;
+const num = (value, fallback) => (value !== undefined && value !== '' && !Number.isNaN(Number(value)) ? Number(value) : fallback);
+
+const config = {
+  port: num(env.MOCK_PLATO_PORT, 8787),
+  latencyMs: num(env.MOCK_PLATO_LATENCY_MS, 0),
+  streamDelayMs: num(env.MOCK_PLATO_STREAM_DELAY_MS, 30),
+  failEvery: num(env.MOCK_PLATO_FAIL_EVERY, 0),
+  failStatus: num(env.MOCK_PLATO_FAIL_STATUS, 503),
+  rateLimitEvery: num(env.MOCK_PLATO_RATE_LIMIT_EVERY, 0),
+  retryAfter: num(env.MOCK_PLATO_RETRY_AFTER, 1),
+};
+
+/** @type {{ chat: Array<{ match: string, response: string }>, images: Array<{ match: string, url: string }> }} */
+const fixtures = { chat: [], images: [] };
+if (env.MOCK_PLATO_FIXTURES) {
+  const loaded = JSON.parse(fs.readFileSync(env.MOCK_PLATO_FIXTURES, 'utf8'));
+  fixtures.chat = loaded.chat || [];
+  fixtures.images = loaded.images || [];
+  console.log(`[mock-plato] loaded ${fixtures.chat.length} chat / ${fixtures.images.length} image fixtures`);
+}
+
+let requestCount = 0;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+const shortHash = (input) => crypto.createHash('sha256').update(input).digest('hex').slice(0, 12);
+
+/** @param {any} content */
+const textOf = (content) => (Array.isArray(content)
+  ? content.map(part => (part.type === 'text' ? part.text : '[image]')).join('\n')
+  : String(content ?? ''));
+
+// ---------- Canned responses ----------
+
+/** 按 JSON Schema 生成一个合法的示例值，用于 response_format: json_schema */
+function sampleFromSchema(schema, key = 'value') {
+  switch (schema?.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([k, s]) => [k, sampleFromSchema(s, k)]));
+    case 'array': {
+      const count = Math.min(Math.max(schema.minItems ?? 0, 3), schema.maxItems ?? 3);
+      return Array.from({ length: count }, (_, i) => {
+        const item = sampleFromSchema(schema.items, key);
+        return typeof item === 'string' ? `${item}${i + 1}` : item;
+      });
+    }
+    case 'string':
+      return schema.enum ? schema.enum[0] : `示例${key}`;
+    case 'integer':
+    case 'number':
+      return 1;
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+}
+
+function buildArticle(userText) {
+  const lines = userText.split('\n').filter(line => line.startsWith('内容:')).map(line => line.slice(3).trim());
+  const points = (lines.length ? lines : ['（没有笔记内容）']).slice(0, 5);
+  return [
+    '## 模拟洞察：本地离线生成',
+    '这是一篇由本地模拟服务器生成的文章，用于验证**流式渲染**与配图流程。',
+    '{{GEN_IMG: A small seedling growing out of an open book}}',
+    ...points.map((point, i) => `### 要点 ${i + 1}\n${point}`),
+    '> 模拟总结：相同输入总会得到相同输出。',
+    '## 下一步',
+    '{{GEN_IMG: A winding path leading toward a distant mountain}}',
+    '把本地验证过的流程切回真实服务即可。',
+    '> 模拟结语：离线也能跑通完整流程。',
+  ].join('\n\n');
+}
+
+function cannedChat(body) {
+  const messages = body.messages || [];
+  const system = messages.filter(m => m.role === 'system').map(m => textOf(m.content)).join('\n');
+  const lastUser = textOf([...messages].reverse().find(m => m.role === 'user')?.content);
+  const haystack = `${system}\n${lastUser}`;
+
+  const fixture = fixtures.chat.find(f => new RegExp(f.match, 'i').test(haystack));
+  if (fixture) return fixture.response;
+
+  if (body.response_format?.type === 'json_schema') {
+    return JSON.stringify(sampleFromSchema(body.response_format.json_schema?.schema));
+  }
+  if (/标题生成器/.test(system)) return '模拟标题';
+  if (/TECH \/ LIFE \/ WISDOM \/ GENERAL/.test(system)) {
+    return /代码|函数|react|typescript|api|```/i.test(lastUser) ? 'TECH' : 'GENERAL';
+  }
+  if (/image prompts in English/i.test(system)) return 'A single paper plane flying over a quiet city';
+  if (/编辑|运营专家|技术专家|博主|思考者|日报/.test(system)) return buildArticle(lastUser);
+  return `模拟回复：${lastUser.slice(0, 100)}`;
+}
+
+// ---------- HTTP helpers ----------
+
+const sendJson = (res, status, payload, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+const readBody = async (req) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? JSON.parse(raw) : {};
+};
+
+const usageFor = (body, text) => {
+  const promptTokens = Math.ceil(JSON.stringify(body.messages || []).length / 4);
+  const completionTokens = Math.ceil(text.length / 4);
+  return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+};
+
+/** 按请求序号注入故障；返回 true 表示已经响应 */
+function injectFault(res) {
+  requestCount++;
+  if (config.rateLimitEvery > 0 && requestCount % config.rateLimitEvery === 0) {
+    sendJson(res, 429, { error: { message: 'mock rate limit' } }, { 'Retry-After': String(config.retryAfter) });
+    return true;
+  }
+  if (config.failEvery > 0 && requestCount % config.failEvery === 0) {
+    sendJson(res, config.failStatus, { error: { message: `mock failure ${config.failStatus}` } });
+    return true;
+  }
+  return false;
+}
+
+async function handleChat(req, res, body) {
+  const text = cannedChat(body);
+  const id = `chatcmpl-mock-${shortHash(JSON.stringify(body.messages || []))}`;
+  const model = body.model || 'mock';
+
+  if (!body.stream) {
+    sendJson(res, 200, {
+      id,
+      object: 'chat.completion',
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }],
+      usage: usageFor(body, text),
+    });
+    return;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  let closed = false;
+  res.on('close', () => { closed = true; });
+
+  const chunkSize = 16;
+  for (let i = 0; i < text.length && !closed; i += chunkSize) {
+    const delta = { id, object: 'chat.completion.chunk', model, choices: [{ index: 0, delta: { content: text.slice(i, i + chunkSize) } }] };
+    res.write(`data: ${JSON.stringify(delta)}\n\n`);
+    if (config.streamDelayMs > 0) await sleep(config.streamDelayMs);
+  }
+  if (closed) return;
+  if (body.stream_options?.include_usage) {
+    res.write(`data: ${JSON.stringify({ id, object: 'chat.completion.chunk', model, choices: [], usage: usageFor(body, text) })}\n\n`);
+  }
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+function handleImage(req, res, body) {
+  const prompt = String(body.prompt || '');
+  const fixture = fixtures.images.find(f => new RegExp(f.match, 'i').test(prompt));
+  const url = fixture
+    ? fixture.url
+    : `http://${req.headers.host}/mock-images/${shortHash(prompt)}.svg?label=${encodeURIComponent(prompt.slice(0, 40))}`;
+  sendJson(res, 200, { created: Math.floor(Date.now() / 1000), data: [{ url }] });
+}
+
+/** 按字符二元组哈希出的向量：字面相近的文本得到相近的向量，足以演示相关笔记 */
+function mockEmbedding(text, dimensions) {
+  const vector = new Array(dimensions).fill(0);
+  const chars = Array.from(String(text).toLowerCase().replace(/\s+/g, ' '));
+  for (let i = 0; i < chars.length; i++) {
+    const gram = chars[i] + (chars[i + 1] || '');
+    vector[parseInt(shortHash(gram).slice(0, 8), 16) % dimensions] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
+
+function handleEmbeddings(res, body) {
+  const input = Array.isArray(body.input) ? body.input : [body.input];
+  const dimensions = num(body.dimensions, 1536);
+  const promptTokens = Math.ceil(input.join('').length / 4);
+  sendJson(res, 200, {
+    object: 'list',
+    model: body.model || 'mock',
+    data: input.map((text, index) => ({ object: 'embedding', index, embedding: mockEmbedding(text, dimensions) })),
+    usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+  });
+}
+
+function serveImage(res, url) {
+  const label = (url.searchParams.get('label') || 'mock image').replace(/[<>&"]/g, '');
+  const hue = parseInt(shortHash(label).slice(0, 4), 16) % 360;
+  res.writeHead(200, { 'Content-Type': 'image/svg+xml', 'Cache-Control': 'public, max-age=86400' });
+  res.end(`<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="576">`
+    + `<rect width="100%" height="100%" fill="hsl(${hue},35%,88%)"/>`
+    + `<text x="50%" y="50%" font-family="sans-serif" font-size="28" fill="hsl(${hue},35%,30%)" text-anchor="middle" dominant-baseline="middle">${label}</text>`
+    + `</svg>`);
+}
+
+export const mockPlatoServer = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const path = url.pathname.replace(/^\/v1\//, '/');
+
+  try {
+    if (path.startsWith('/mock-images/')) return serveImage(res, url);
+
+    // 运行时调整故障注入，例如 curl -X POST localhost:8787/__mock/config -d '{"rateLimitEvery":2}'
+    if (path === '/__mock/config') {
+      if (req.method === 'POST') Object.assign(config, await readBody(req));
+      return sendJson(res, 200, { ...config, requestCount });
+    }
+    if (path === '/__mock/reset' && req.method === 'POST') {
+      requestCount = 0;
+      return sendJson(res, 200, { requestCount });
+    }
+
+    if (req.method !== 'POST' || !['/chat/completions', '/images/generations', '/embeddings'].includes(path)) {
+      return sendJson(res, 404, { error: { message: `mock-plato: unknown endpoint ${req.method} ${url.pathname}` } });
+    }
+
+    const body = await readBody(req);
+    if (config.latencyMs > 0) await sleep(config.latencyMs);
+    if (injectFault(res)) return;
+
+    if (path === '/chat/completions') return await handleChat(req, res, body);
+    if (path === '/embeddings') return handleEmbeddings(res, body);
+    return handleImage(req, res, body);
+  } catch (err) {
+    console.error('[mock-plato]', err);
+    if (!res.headersSent) sendJson(res, 400, { error: { message: err instanceof Error ? err.message : String(err) } });
+    else res.end();
+  }
+});
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  mockPlatoServer.listen(config.port, () => {
+    console.log(`[mock-plato] listening on http://localhost:${config.port}/v1/`, config);
+  });
+}
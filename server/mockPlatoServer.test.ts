@@ -0,0 +1,71 @@
+/**
+ * 离线链路：客户端 → /api 代理 → 本地模拟服务器。
+ * 上游是本机地址时代理不要求 Supabase 登录，流式补全可以完整跑通。
+ */
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { chatCompletionStream, registerProvider } from '../services/platoClient';
+import { createPlatoProxy, proxyConfigFromEnv } from './platoProxy';
+import { mockPlatoServer } from './mockPlatoServer.mjs';
+
+vi.mock('../services/supabaseClient', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null } }) } },
+}));
+
+const PROXY_ORIGIN = 'http://proxy.test';
+let upstreamBaseUrl: string;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => mockPlatoServer.listen(0, '127.0.0.1', resolve));
+  const { port } = mockPlatoServer.address() as AddressInfo;
+  upstreamBaseUrl = `http://127.0.0.1:${port}/v1/`;
+  await fetch(`${upstreamBaseUrl}__mock/config`, { method: 'POST', body: JSON.stringify({ streamDelayMs: 0, latencyMs: 0 }) });
+
+  // 发往 PROXY_ORIGIN 的请求交给代理处理器，其余（代理到上游的请求）照常走网络
+  const proxy = createPlatoProxy(proxyConfigFromEnv({ PLATO_BASE_URL: upstreamBaseUrl, PLATO_API_KEY: 'mock-key' }));
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    return url.origin === PROXY_ORIGIN ? proxy(request, url.pathname.replace(/^\/api\//, '')) : realFetch(request);
+  });
+  registerProvider('offline', { baseUrl: `${PROXY_ORIGIN}/api/`, apiKey: 'not-a-supabase-jwt' });
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await new Promise(resolve => mockPlatoServer.close(resolve));
+});
+
+describe('offline proxy to the mock server', () => {
+  it('skips Supabase auth only when the upstream is a loopback address', () => {
+    expect(proxyConfigFromEnv({ PLATO_BASE_URL: 'http://localhost:8787/v1/' }).skipAuth).toBe(true);
+    expect(proxyConfigFromEnv({ PLATO_BASE_URL: 'https://api.bltcy.ai/v1/' }).skipAuth).toBe(false);
+  });
+
+  it('rejects callers without a session when the upstream is remote', async () => {
+    const proxy = createPlatoProxy({ upstreamBaseUrl: 'https://api.example.com/v1/', apiKey: 'key', supabaseUrl: 'https://example.supabase.co' });
+    const response = await proxy(new Request(`${PROXY_ORIGIN}/api/chat/completions`, { method: 'POST', body: '{}' }), 'chat/completions');
+    expect(response.status).toBe(401);
+  });
+
+  it('streams a completion through the proxy without a Supabase session', async () => {
+    const messages = [
+      { role: 'system' as const, content: '你是一位技术博主' },
+      { role: 'user' as const, content: '内容: 第一条笔记\n内容: 第二条笔记' },
+    ];
+    const deltas: string[] = [];
+    for await (const delta of chatCompletionStream(messages, { provider: 'offline', model: 'mock', retry: { maxAttempts: 1 } })) {
+      deltas.push(delta);
+    }
+
+    const text = deltas.join('');
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(text).toContain('## 模拟洞察：本地离线生成');
+    expect(text).toContain('### 要点 2\n第二条笔记');
+
+    let again = '';
+    for await (const delta of chatCompletionStream(messages, { provider: 'offline', model: 'mock', retry: { maxAttempts: 1 } })) again += delta;
+    expect(again).toBe(text);
+  });
+});
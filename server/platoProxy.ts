@@ -0,0 +1,203 @@
+/**
+ * Plato 服务端代理：浏览器只持有 Supabase 登录凭证，服务商 Key 仅存在于服务端环境变量。
+ * - 校验调用方的 Supabase JWT
+ * - 按用户限流（固定窗口，计数存在 Supabase，所有实例共用；计数失败时拒绝请求）
+ * - 注入 Authorization 后转发到上游，响应（含 SSE 流）原样透传
+ * 基于 Web 标准 Request/Response，Vercel 函数与 Vite 开发中间件共用。
+ */
+
+export interface PlatoProxyConfig {
+  upstreamBaseUrl: string;       // 例如 https://api.bltcy.ai/v1/
+  apiKey: string;                // 服务商 Key（不得以 VITE_ 开头，避免被打进前端包）
+  supabaseUrl?: string;          // 未配置 jwtSecret 时，通过 Supabase Auth 接口校验 token
+  supabaseAnonKey?: string;
+  jwtSecret?: string;            // Supabase 项目的 JWT Secret，配置后本地校验 HS256 签名
+  supabaseServiceRoleKey?: string; // 调用限流计数函数；未配置时只在本进程内计数（仅适合本地开发）
+  rateLimitPerMinute?: number;   // 每个用户每分钟允许的请求数，默认 30
+  skipAuth?: boolean;            // 不校验登录，只用于上游是本机模拟服务器（npm run mock:plato）的离线开发
+}
+
+// 只转发客户端实际用到的接口
+const ALLOWED_PATHS = new Set(['chat/completions', 'images/generations', 'embeddings']);
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+// ---------- Auth ----------
+
+function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** 本地校验 HS256 签名与过期时间，返回用户 ID */
+async function verifyJwtLocally(token: string, secret: string): Promise<string | null> {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+  const valid = await crypto.subtle.verify('HMAC', key, base64UrlDecode(signature), encoder.encode(`${header}.${payload}`));
+  if (!valid) return null;
+
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+    if (typeof claims.exp === 'number' && claims.exp * 1000 < Date.now()) return null;
+    return typeof claims.sub === 'string' ? claims.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 通过 Supabase Auth 接口校验 token（适用于非对称签名或未提供 JWT Secret 的项目） */
+async function verifyJwtRemotely(token: string, supabaseUrl: string, anonKey: string): Promise<string | null> {
+  const res = await fetch(`${supabaseUrl.replace(/\/$/, '')}/auth/v1/user`, {
+    headers: { apikey: anonKey, Authorization: `Bearer ${token}` },
+  });
+  if (!res.ok) return null;
+  const user = await res.json().catch(() => null);
+  return typeof user?.id === 'string' ? user.id : null;
+}
+
+const bearerToken = (request: Request) => request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1].trim() ?? null;
+
+async function authenticate(token: string | null, config: PlatoProxyConfig): Promise<string | null> {
+  if (!token) return null;
+  if (config.jwtSecret) return verifyJwtLocally(token, config.jwtSecret);
+  if (config.supabaseUrl && config.supabaseAnonKey) return verifyJwtRemotely(token, config.supabaseUrl, config.supabaseAnonKey);
+  return null;
+}
+
+// ---------- Rate limit ----------
+
+const WINDOW_MS = 60 * 1000;
+const windows = new Map<string, { start: number; count: number }>();
+let warnedLocalRateLimit = false;
+
+/** 进程内的固定窗口计数，只在没有配置 service role key 时使用；超限时返回需要等待的毫秒数 */
+function consumeLocalRateLimit(userId: string, limit: number, warn: boolean, now = Date.now()): number | null {
+  if (warn && !warnedLocalRateLimit) {
+    warnedLocalRateLimit = true;
+    console.warn('[platoProxy] 未配置 SUPABASE_SERVICE_ROLE_KEY，限流只在本进程内计数，多实例部署时几乎不起作用');
+  }
+  const current = windows.get(userId);
+  if (!current || now - current.start >= WINDOW_MS) {
+    windows.set(userId, { start: now, count: 1 });
+    return null;
+  }
+  if (current.count >= limit) return current.start + WINDOW_MS - now;
+  current.count++;
+  return null;
+}
+
+/** 以 service role 调用 consume_plato_rate_limit，计数在所有函数实例之间共享 */
+async function consumeSharedRateLimit(userId: string, limit: number, supabaseUrl: string, serviceRoleKey: string): Promise<number | null> {
+  const res = await fetch(`${supabaseUrl.replace(/\/$/, '')}/rest/v1/rpc/consume_plato_rate_limit`, {
+    method: 'POST',
+    headers: { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ target_user_id: userId, window_seconds: WINDOW_MS / 1000, request_limit: limit }),
+  });
+  if (!res.ok) throw new Error(`rate limit RPC failed (${res.status})`);
+  const waitMs = await res.json();
+  return typeof waitMs === 'number' ? waitMs : null;
+}
+
+/** 共享计数失败时抛出，由调用方拒绝请求 */
+const consumeRateLimit = (userId: string, limit: number, config: PlatoProxyConfig): Promise<number | null> =>
+  !config.skipAuth && config.supabaseUrl && config.supabaseServiceRoleKey
+    ? consumeSharedRateLimit(userId, limit, config.supabaseUrl, config.supabaseServiceRoleKey)
+    : Promise.resolve(consumeLocalRateLimit(userId, limit, !config.skipAuth));
+
+// ---------- Handler ----------
+
+const LOCAL_MOCK_USER = 'local-mock';
+
+/** 上游是否为本机地址；只有本地模拟服务器会这样配置 */
+const isLoopbackUrl = (url: string) => {
+  try {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+};
+
+export function createPlatoProxy(config: PlatoProxyConfig) {
+  const limit = config.rateLimitPerMinute ?? 30;
+
+  return async function handle(request: Request, path: string): Promise<Response> {
+    if (request.method !== 'POST') {
+      return json(405, { error: { message: 'Method not allowed' } }, { Allow: 'POST' });
+    }
+
+    const normalizedPath = path.replace(/^\/+/, '');
+    if (!ALLOWED_PATHS.has(normalizedPath)) {
+      return json(404, { error: { message: `Unknown endpoint: ${normalizedPath}` } });
+    }
+
+    if (!config.apiKey || !config.upstreamBaseUrl) {
+      return json(500, { error: { message: 'Plato proxy is not configured (PLATO_API_KEY / PLATO_BASE_URL)' } });
+    }
+
+    const userId = config.skipAuth ? LOCAL_MOCK_USER : await authenticate(bearerToken(request), config).catch(() => null);
+    if (!userId) {
+      return json(401, { error: { message: 'Invalid or missing Supabase session' } });
+    }
+
+    let waitMs: number | null;
+    try {
+      waitMs = await consumeRateLimit(userId, limit, config);
+    } catch (error: any) {
+      // 计数失败时不放行：否则限流形同虚设
+      console.error('[platoProxy] 限流计数失败:', error?.message || error);
+      return json(503, { error: { message: 'Rate limiter unavailable' } });
+    }
+    if (waitMs !== null) {
+      // 与客户端的 Retry-After 解析一致：单位为秒
+      return json(429, { error: { message: 'Rate limit exceeded' } }, { 'Retry-After': String(Math.ceil(waitMs / 1000)) });
+    }
+
+    const body = await request.text();
+    let upstream: Response;
+    try {
+      upstream = await fetch(`${config.upstreamBaseUrl.replace(/\/?$/, '/')}${normalizedPath}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': request.headers.get('accept') || 'application/json',
+          'Authorization': `Bearer ${config.apiKey}`,
+        },
+        body,
+        signal: request.signal,
+      });
+    } catch (error: any) {
+      // 上游不可达（DNS、连接被拒、TLS 等）：给出与其他错误一致的 JSON，而不是让运行时返回空的 500
+      console.error('[platoProxy] 上游请求失败:', error?.message || error);
+      return json(502, { error: { message: `Upstream request failed: ${error?.message || 'network error'}` } });
+    }
+
+    const headers = new Headers();
+    ['content-type', 'retry-after', 'cache-control'].forEach(name => {
+      const value = upstream.headers.get(name);
+      if (value) headers.set(name, value);
+    });
+    return new Response(upstream.body, { status: upstream.status, headers });
+  };
+}
+
+/** 从环境变量读取配置（Vercel 与 Vite 开发服务器共用同一组变量名） */
+export function proxyConfigFromEnv(env: Record<string, string | undefined>): PlatoProxyConfig {
+  return {
+    upstreamBaseUrl: env.PLATO_BASE_URL || 'https://api.bltcy.ai/v1/',
+    apiKey: env.PLATO_API_KEY || '',
+    supabaseUrl: env.SUPABASE_URL || env.VITE_SUPABASE_URL,
+    supabaseAnonKey: env.SUPABASE_ANON_KEY || env.VITE_SUPABASE_ANON_KEY,
+    jwtSecret: env.SUPABASE_JWT_SECRET,
+    supabaseServiceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY,
+    rateLimitPerMinute: env.PLATO_RATE_LIMIT_PER_MINUTE ? Number(env.PLATO_RATE_LIMIT_PER_MINUTE) : undefined,
+    // 转发到本机模拟服务器时不要求 Supabase 登录，离线也能跑通从捕捉到成文的流程
+    skipAuth: isLoopbackUrl(env.PLATO_BASE_URL || ''),
+  };
+}
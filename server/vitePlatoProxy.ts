@@ -0,0 +1,54 @@
+/**
+ * 开发环境下的 /api 中间件：与 api/plato.ts 使用同一个代理处理器，
+ * 把 Node 的 req/res 转成 Web 标准 Request/Response。
+ */
+import { Readable } from 'node:stream';
+import type { Plugin } from 'vite';
+import { createPlatoProxy, PlatoProxyConfig } from './platoProxy';
+
+export function platoProxyPlugin(config: PlatoProxyConfig): Plugin {
+  const proxy = createPlatoProxy(config);
+
+  return {
+    name: 'plato-proxy',
+    configureServer(server) {
+      server.middlewares.use('/api', async (req, res) => {
+        const controller = new AbortController();
+        res.on('close', () => controller.abort());
+
+        try {
+          const chunks: Buffer[] = [];
+          for await (const chunk of req) chunks.push(chunk as Buffer);
+
+          const headers = new Headers();
+          Object.entries(req.headers).forEach(([name, value]) => {
+            if (typeof value === 'string') headers.set(name, value);
+          });
+
+          // 挂载在 /api 下时 req.url 已去掉前缀，例如 /chat/completions
+          const url = new URL(req.url || '/', 'http://localhost');
+          const request = new Request(url, {
+            method: req.method,
+            headers,
+            body: req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks),
+            signal: controller.signal,
+          });
+
+          const response = await proxy(request, url.pathname);
+          res.statusCode = response.status;
+          response.headers.forEach((value, name) => res.setHeader(name, value));
+          if (response.body) {
+            Readable.fromWeb(response.body as any).pipe(res);
+          } else {
+            res.end();
+          }
+        } catch (err: any) {
+          if (controller.signal.aborted) return;
+          console.error('[plato-proxy]', err);
+          if (!res.headersSent) res.statusCode = 502;
+          res.end();
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * 确定性 AI 调用的响应缓存：以请求内容（服务商、模型、消息、采样参数）的 SHA-256 为键。
+ * 本地存 IndexedDB；设置 VITE_AI_CACHE_REMOTE=true 后同时读写 Supabase `ai_cache` 表，跨设备复用。
+ * 只有显式传入 ChatOptions.cache 的调用才会走缓存，见 platoClient.chatCompletion。
+ * 条目按当前登录用户隔离（同一浏览器切换账号互不可见），未登录时不读写缓存；过期条目在读到时删除，每次打开页面也会清理一次。
+ */
+import { openDatabase, withStore } from './idb';
+import { supabase } from './supabaseClient';
+
+export interface CacheOptions {
+  ttlMs?: number;     // 过期时间，默认 30 天
+  refresh?: boolean;  // 跳过读取、强制请求并覆盖旧值（如用户手动“重新分析”）
+}
+
+interface CacheEntry {
+  userId: string;
+  key: string;
+  value: string;
+  model: string;
+  useCase: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'growthloop-ai-cache';
+const STORE = 'entries';
+const LEGACY_STORE = 'responses'; // 版本 1：不区分用户，升级时整体丢弃
+const REMOTE_ENABLED = import.meta.env.VITE_AI_CACHE_REMOTE === 'true';
+
+const openCache = () => openDatabase(DB_NAME, 2, db => {
+  if (db.objectStoreNames.contains(LEGACY_STORE)) db.deleteObjectStore(LEGACY_STORE);
+  const store = db.createObjectStore(STORE, { keyPath: ['userId', 'key'] });
+  store.createIndex('userId', 'userId');
+  store.createIndex('userUseCase', ['userId', 'useCase']);
+  store.createIndex('expiresAt', 'expiresAt');
+});
+
+const currentUserId = async (): Promise<string | undefined> =>
+  (await supabase.auth.getSession()).data.session?.user.id;
+
+/** 删除索引上落在 range 内的全部条目 */
+async function deleteLocal(indexName: string, range: IDBKeyRange): Promise<void> {
+  const db = await openCache();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const cursorRequest = tx.objectStore(STORE).index(indexName).openCursor(range);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+let pruned = false;
+
+/** 清理已过期的条目（本地全部用户，远端由 RLS 限定为自己的行）；每个页面生命周期只执行一次 */
+function pruneExpiredOnce(): void {
+  if (pruned) return;
+  pruned = true;
+  const now = Date.now();
+  deleteLocal('expiresAt', IDBKeyRange.upperBound(now)).catch(err => console.warn('[aiCache] local prune failed', err));
+  if (REMOTE_ENABLED) {
+    supabase.from('ai_cache').delete().lte('expires_at', new Date(now).toISOString())
+      .then(({ error }) => { if (error) console.warn('[aiCache] remote prune failed', error.message); });
+  }
+}
+
+/** 计算请求的缓存键（键顺序稳定的 JSON 再做 SHA-256） */
+export async function cacheKey(request: unknown): Promise<string> {
+  const stable = JSON.stringify(request, (_, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(stable));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function readLocal(userId: string, key: string): Promise<CacheEntry | undefined> {
+  const db = await openCache();
+  return withStore<CacheEntry | undefined>(db, STORE, 'readonly', store => store.get([userId, key]));
+}
+
+async function writeLocal(entry: CacheEntry): Promise<void> {
+  const db = await openCache();
+  await withStore(db, STORE, 'readwrite', store => store.put(entry));
+}
+
+async function deleteLocalEntry(userId: string, key: string): Promise<void> {
+  const db = await openCache();
+  await withStore(db, STORE, 'readwrite', store => store.delete([userId, key]));
+}
+
+async function readRemote(userId: string, key: string): Promise<CacheEntry | undefined> {
+  const { data, error } = await supabase
+    .from('ai_cache')
+    .select('key, value, model, use_case, created_at, expires_at')
+    .eq('user_id', userId)
+    .eq('key', key)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return undefined;
+  return {
+    userId,
+    key: data.key,
+    value: data.value,
+    model: data.model,
+    useCase: data.use_case,
+    createdAt: Date.parse(data.created_at),
+    expiresAt: Date.parse(data.expires_at),
+  };
+}
+
+async function writeRemote(entry: CacheEntry): Promise<void> {
+  const { error } = await supabase.from('ai_cache').upsert({
+    user_id: entry.userId,
+    key: entry.key,
+    value: entry.value,
+    model: entry.model,
+    use_case: entry.useCase,
+    created_at: new Date(entry.createdAt).toISOString(),
+    expires_at: new Date(entry.expiresAt).toISOString(),
+  }, { onConflict: 'user_id,key' });
+  if (error) throw error;
+}
+
+/**
+ * 读取当前用户未过期的缓存值。本地未命中时再查远端，命中后回填本地；读到的过期条目顺手删除。
+ * 缓存故障只打日志，按未命中处理。
+ */
+export async function readCache(key: string): Promise<string | undefined> {
+  const userId = await currentUserId().catch(() => undefined);
+  if (!userId) return undefined;
+  pruneExpiredOnce();
+
+  const now = Date.now();
+  try {
+    const local = await readLocal(userId, key);
+    if (local && local.expiresAt > now) return local.value;
+    if (local) deleteLocalEntry(userId, key).catch(() => {});
+  } catch (err) {
+    console.warn('[aiCache] local read failed', err);
+  }
+
+  if (!REMOTE_ENABLED) return undefined;
+  try {
+    const remote = await readRemote(userId, key);
+    if (remote && remote.expiresAt > now) {
+      writeLocal(remote).catch(() => {});
+      return remote.value;
+    }
+  } catch (err: any) {
+    console.warn('[aiCache] remote read failed', err?.message || err);
+  }
+  return undefined;
+}
+
+export async function writeCache(key: string, value: string, meta: { model: string; useCase?: string; ttlMs?: number }): Promise<void> {
+  const userId = await currentUserId().catch(() => undefined);
+  if (!userId) return;
+  const createdAt = Date.now();
+  const entry: CacheEntry = {
+    userId,
+    key,
+    value,
+    model: meta.model,
+    useCase: meta.useCase || 'other',
+    createdAt,
+    expiresAt: createdAt + (meta.ttlMs ?? DEFAULT_CACHE_TTL_MS),
+  };
+
+  await Promise.all([
+    writeLocal(entry).catch(err => console.warn('[aiCache] local write failed', err)),
+    REMOTE_ENABLED ? writeRemote(entry).catch(err => console.warn('[aiCache] remote write failed', err?.message || err)) : undefined,
+  ]);
+}
+
+/**
+ * 手动失效当前用户的缓存：传 useCase 只清除该用例（如 'analyze'），不传则清空全部。
+ */
+export async function invalidateCache(useCase?: string): Promise<void> {
+  const userId = await currentUserId();
+  if (!userId) return;
+  await (useCase
+    ? deleteLocal('userUseCase', IDBKeyRange.only([userId, useCase]))
+    : deleteLocal('userId', IDBKeyRange.only(userId)));
+
+  if (REMOTE_ENABLED) {
+    const query = supabase.from('ai_cache').delete().eq('user_id', userId);
+    const { error } = useCase ? await query.eq('use_case', useCase) : await query;
+    if (error) console.error('Error invalidating AI cache:', error.message);
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * AI 服务商抽象：业务代码只从这里调用，具体实现按运行时设置选择。
+ * - plato：经服务端代理调用 Plato（默认，见 geminiService.ts）
+ * - gemini-native：浏览器直连 @google/genai，需要构建时注入 GEMINI_API_KEY，仅用于本地调试
+ * - mock：确定性的离线实现，不发任何网络请求，用于本地开发与测试
+ * 选择顺序：localStorage 中的用户设置 > VITE_AI_PROVIDER > plato。
+ */
+import { Note, NoteType, InsightPlatform, StackCategory } from '../types';
+import { RoutedResult, RouteTrace } from './modelRouter';
+import { PlatoResult } from './platoClient';
+
+export interface NoteAnalysis {
+  category: string;
+  tags: string[];
+  sentiment: string;
+  ocrText?: string; // 图片中识别出的文字（仅带图片时返回），用于搜索
+}
+
+/** 分析失败时打上的标签，带此标签的笔记可以批量重新分析 */
+export const REVIEW_TAG = '人工复核';
+
+/** 分析失败但笔记仍要保存时由调用方写入的默认结果；服务商自己不会返回它 */
+export const REVIEW_ANALYSIS: NoteAnalysis = { category: '常规', tags: [REVIEW_TAG], sentiment: '中性' };
+
+/** 用户已有的分类与标签（常用的在前），分析时优先复用，避免同一概念出现多个同义标签 */
+export interface AnalysisVocabulary {
+  categories: string[];
+  tags: string[];
+}
+
+/** 附加到分析提示词中的已有分类/标签说明；没有时返回空字符串 */
+export function vocabularyPrompt(vocabulary?: AnalysisVocabulary): string {
+  if (!vocabulary || (vocabulary.categories.length === 0 && vocabulary.tags.length === 0)) return '';
+  const lines = ['用户已有的分类和标签如下，含义相同或相近时必须沿用已有的写法，确实没有合适的才新建：'];
+  if (vocabulary.categories.length > 0) lines.push(`已有分类：${vocabulary.categories.join('、')}`);
+  if (vocabulary.tags.length > 0) lines.push(`已有标签：${vocabulary.tags.join('、')}`);
+  return lines.join('\n');
+}
+
+/** 长文洞察的一段素材；groups 为它所在的各级子卡片组标题 */
+export interface InsightFragment {
+  note: Note;
+  groups: string[];
+}
+
+/** 卡片组递归展开为素材片段（含各级子卡片组），保持用户在卡片组中排定的顺序 */
+export const insightFragments = (notes: Note[], groups: string[] = []): InsightFragment[] =>
+  notes.flatMap(n => (n.type === NoteType.STACK && n.stackItems
+    ? insightFragments(n.stackItems, [...groups, n.title || '未命名卡片组'])
+    : [{ note: n, groups }]));
+
+/** 长文洞察的素材：卡片组递归展开为其中的笔记，顺序同 insightFragments */
+export const flattenStackNotes = (notes: Note[]): Note[] => insightFragments(notes).map(fragment => fragment.note);
+
+/** 片段的分节标记，模型据此按顺序组织文章 */
+export const fragmentHeading = ({ groups }: InsightFragment, index: number, total: number): string =>
+  `=== 片段 ${index + 1}/${total}${groups.length ? `（分组：${groups.join(' / ')}）` : ''} ===`;
+
+/** 附在素材前的顺序说明 */
+export const FRAGMENT_ORDER_RULE = '以下素材片段已按用户排定的顺序编号，这个顺序就是文章的骨架：按片段顺序展开论述与章节，同一分组的片段放在一起，不要打乱或遗漏。';
+
+export interface AnalyzeOptions {
+  refresh?: boolean; // 跳过缓存重新请求（手动“重新分析”）
+  vocabulary?: AnalysisVocabulary;
+}
+
+/** 笔记向量的维度，与数据库 note_embeddings.embedding 列一致；各服务商都须输出这个维度 */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface StreamInsightsOptions {
+  signal?: AbortSignal;
+  onRoute?: (trace: RouteTrace) => void; // 实际使用的模型（含回退）确定后回调
+}
+
+export interface AIProvider {
+  /** 失败时返回错误（结构化输出未通过校验时带 issues），不替调用方决定如何降级 */
+  analyzeNoteContent(text: string, imageBase64?: string, options?: AnalyzeOptions): Promise<PlatoResult<NoteAnalysis>>;
+  /** 失败时返回错误而不是占位标题，由调用方决定保留原值还是提示用户 */
+  generateStackTitle(notes: Note[]): Promise<PlatoResult<string>>;
+  determineStackCategory(notes: Note[]): Promise<PlatoResult<StackCategory>>;
+  generateInsights(notes: Note[], platform: InsightPlatform, category?: StackCategory): Promise<RoutedResult<string>>;
+  streamInsights(notes: Note[], platform: InsightPlatform, category?: StackCategory, options?: StreamInsightsOptions): AsyncGenerator<string, void, undefined>;
+  generateSocialImage(contextText: string): Promise<string | undefined>;
+  generateInContextImage(prompt: string): Promise<string | undefined>;
+  generateCoverImage(title: string): Promise<string | undefined>;
+  /** 计算向量所用的模型；不同模型的向量不可比较，换模型后旧向量会被重新计算 */
+  embeddingModel: string;
+  /** 与输入顺序一致；失败时返回 undefined，由调用方稍后重试 */
+  embedTexts(texts: string[]): Promise<number[][] | undefined>;
+}
+
+export type AIProviderId = 'plato' | 'gemini-native' | 'mock';
+
+// 按需加载，未选中的实现（如 @google/genai）不会进入首屏包
+const registry: Record<AIProviderId, { label: string; load: () => Promise<AIProvider> }> = {
+  'plato': { label: 'Plato（服务端代理）', load: () => import('./geminiService').then(m => m.platoProvider) },
+  'gemini-native': { label: 'Gemini 直连（本地调试）', load: () => import('./geminiService.native').then(m => m.nativeProvider) },
+  'mock': { label: '离线模拟', load: () => import('./mockProvider').then(m => m.mockProvider) },
+};
+
+const STORAGE_KEY = 'growthloop.aiProvider';
+const DEFAULT_PROVIDER_ID: AIProviderId = 'plato';
+
+const isProviderId = (value: unknown): value is AIProviderId =>
+  typeof value === 'string' && value in registry;
+
+export function listAIProviders(): Array<{ id: AIProviderId; label: string }> {
+  return (Object.keys(registry) as AIProviderId[]).map(id => ({ id, label: registry[id].label }));
+}
+
+export function getActiveAIProviderId(): AIProviderId {
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    // 非浏览器环境或禁用了存储
+  }
+  if (isProviderId(stored)) return stored;
+  const fromEnv = import.meta.env.VITE_AI_PROVIDER;
+  return isProviderId(fromEnv) ? fromEnv : DEFAULT_PROVIDER_ID;
+}
+
+/** 切换服务商并记住选择；传 null 恢复为环境变量/默认值 */
+export function setActiveAIProvider(id: AIProviderId | null): void {
+  try {
+    if (id) localStorage.setItem(STORAGE_KEY, id);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // 忽略存储失败，本次会话内仍按默认值运行
+  }
+}
+
+const loaded = new Map<AIProviderId, Promise<AIProvider>>();
+
+export function getAIProvider(id: AIProviderId = getActiveAIProviderId()): Promise<AIProvider> {
+  let provider = loaded.get(id);
+  if (!provider) {
+    provider = registry[id].load();
+    provider.catch(() => loaded.delete(id));
+    loaded.set(id, provider);
+  }
+  return provider;
+}
+
+// ---------- 委托给当前服务商 ----------
+
+export const analyzeNoteContent: AIProvider['analyzeNoteContent'] = async (text, imageBase64, options) =>
+  (await getAIProvider()).analyzeNoteContent(text, imageBase64, options);
+
+export const generateStackTitle: AIProvider['generateStackTitle'] = async (notes) =>
+  (await getAIProvider()).generateStackTitle(notes);
+
+export const determineStackCategory: AIProvider['determineStackCategory'] = async (notes) =>
+  (await getAIProvider()).determineStackCategory(notes);
+
+export const generateInsights: AIProvider['generateInsights'] = async (notes, platform, category) =>
+  (await getAIProvider()).generateInsights(notes, platform, category);
+
+export async function* streamInsights(
+  notes: Note[],
+  platform: InsightPlatform,
+  category?: StackCategory,
+  options?: StreamInsightsOptions
+): AsyncGenerator<string, void, undefined> {
+  const provider = await getAIProvider();
+  yield* provider.streamInsights(notes, platform, category, options);
+}
+
+export const generateSocialImage: AIProvider['generateSocialImage'] = async (contextText) =>
+  (await getAIProvider()).generateSocialImage(contextText);
+
+export const generateInContextImage: AIProvider['generateInContextImage'] = async (prompt) =>
+  (await getAIProvider()).generateInContextImage(prompt);
+
+export const generateCoverImage: AIProvider['generateCoverImage'] = async (title) =>
+  (await getAIProvider()).generateCoverImage(title);
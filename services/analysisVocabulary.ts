@@ -0,0 +1,38 @@
+/**
+ * 分析用的已有分类/标签词表：从用户的标签统计中取最常用的一部分，附加到分析提示词里。
+ * 批量分析时会连续调用，短时间内复用同一份结果。
+ */
+import { Repositories } from './repositories';
+import { AnalysisVocabulary, REVIEW_TAG } from './aiProvider';
+
+const MAX_TAGS = 50;
+const MAX_CATEGORIES = 20;
+const CACHE_MS = 60 * 1000;
+// 兜底结果里的占位标签不算用户的词表
+const PLACEHOLDER_TAGS = new Set([REVIEW_TAG, '待处理']);
+
+const cache = new WeakMap<Repositories, { loadedAt: number; vocabulary: Promise<AnalysisVocabulary | undefined> }>();
+
+/** 读取失败不影响分析，返回 undefined */
+export function loadAnalysisVocabulary(repositories: Repositories): Promise<AnalysisVocabulary | undefined> {
+  const cached = cache.get(repositories);
+  if (cached && Date.now() - cached.loadedAt < CACHE_MS) return cached.vocabulary;
+
+  const vocabulary = repositories.taxonomy.get()
+    .then(taxonomy => ({
+      categories: taxonomy.categories.slice(0, MAX_CATEGORIES).map(entry => entry.name),
+      tags: taxonomy.tags.filter(entry => !PLACEHOLDER_TAGS.has(entry.name)).slice(0, MAX_TAGS).map(entry => entry.name),
+    }))
+    .catch((error: any) => {
+      console.warn('[analysisVocabulary] 读取已有标签失败，按无词表分析:', error?.message || error);
+      cache.delete(repositories);
+      return undefined;
+    });
+  cache.set(repositories, { loadedAt: Date.now(), vocabulary });
+  return vocabulary;
+}
+
+/** 标签被改名/合并后调用，下一次分析使用新的词表 */
+export function invalidateAnalysisVocabulary(repositories: Repositories): void {
+  cache.delete(repositories);
+}
@@ -0,0 +1,62 @@
+/**
+ * 自动整理的聚类：先按向量相似度成组，剩下的再按相同的分析分类归组。
+ */
+import { describe, expect, it, vi } from 'vitest';
+import { Note, NoteType } from '../types';
+import { REVIEW_TAG } from './aiProvider';
+import { clusterNotes, isLooseNote } from './autoOrganize';
+
+vi.mock('./supabaseClient', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null } }) } },
+}));
+
+const note = (id: string, extra: Partial<Note> = {}): Note => ({
+  id, content: id, created_at: '2026-10-19T00:00:00.000Z', type: NoteType.TEXT, ...extra,
+});
+const ids = (cluster: { notes: Note[] }) => cluster.notes.map(n => n.id).sort();
+
+describe('isLooseNote', () => {
+  it('excludes stacks, stack members and pending captures', () => {
+    expect(isLooseNote(note('a'))).toBe(true);
+    expect(isLooseNote(note('s', { type: NoteType.STACK }))).toBe(false);
+    expect(isLooseNote(note('m', { parent_stack_id: 's' }))).toBe(false);
+    expect(isLooseNote(note('p', { isPending: true }))).toBe(false);
+  });
+});
+
+describe('clusterNotes', () => {
+  it('groups similar notes first and the rest by category, largest first', () => {
+    const notes = [
+      note('a', { analysis_category: '技术' }),
+      note('b', { analysis_category: '生活' }),
+      note('c', { analysis_category: '技术' }),
+      note('d', { analysis_category: '技术' }),
+      note('e', { analysis_category: '技术' }),
+    ];
+    const clusters = clusterNotes(notes, [{ a: 'a', b: 'b', similarity: 0.9 }]);
+
+    expect(clusters.map(c => c.basis)).toEqual([{ kind: 'category', category: '技术' }, { kind: 'similarity' }]);
+    expect(clusters.map(ids)).toEqual([['c', 'd', 'e'], ['a', 'b']]);
+  });
+
+  it('does not group by placeholder categories or notes awaiting review', () => {
+    const notes = [
+      note('a', { analysis_category: '未分类' }),
+      note('b', { analysis_category: '未分类' }),
+      note('c', { analysis_category: '常规', analysis_tags: [REVIEW_TAG] }),
+      note('d', { analysis_category: '常规', analysis_tags: [REVIEW_TAG] }),
+      note('e'),
+      note('f'),
+    ];
+    expect(clusterNotes(notes, [])).toEqual([]);
+  });
+
+  it('ignores pairs involving notes that are not loose and leaves singletons out', () => {
+    const notes = [
+      note('a', { analysis_category: '技术' }),
+      note('m', { parent_stack_id: 's', analysis_category: '技术' }),
+      note('b', { analysis_category: '生活' }),
+    ];
+    expect(clusterNotes(notes, [{ a: 'a', b: 'm', similarity: 0.95 }])).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * 自动整理：把主列表中的零散笔记按主题聚成若干组，作为待确认的卡片组提案。
+ * 优先按向量相似度聚类（见 noteEmbeddings），还没有向量或没有相近笔记的，再按相同的分析分类归组。
+ * 这里只计算提案，不写数据库；接受后才由调用方创建卡片组。
+ */
+import { Note, NoteType, StackCategory } from '../types';
+import { SimilarPair } from './repositories';
+import { REVIEW_TAG } from './aiProvider';
+import { groupSimilarNotes } from './noteEmbeddings';
+
+export interface StackProposal {
+  id: string;
+  notes: Note[];
+  title: string;
+  category: StackCategory;
+  /** 归组依据：内容相近，或分析分类相同（此时为该分类名） */
+  basis: { kind: 'similarity' } | { kind: 'category'; category: string };
+  /** 标题或风格生成失败的原因；标题为空时需要用户填写后才能接受 */
+  generationError?: string;
+}
+
+export type NoteCluster = Pick<StackProposal, 'notes' | 'basis'>;
+
+/** 比分组建议宽松一些：自动整理希望尽量多地归组，再由用户逐个确认 */
+export const CLUSTER_SIMILARITY = 0.55;
+const MAX_CLUSTER_SIZE = 12;
+// 这些分类说明分析没有给出有效结果，不能作为归组依据
+const PLACEHOLDER_CATEGORIES = new Set(['未分类', '']);
+
+/** 可以参与整理的笔记：不在卡片组里、不是卡片组、不是待同步的 */
+export const isLooseNote = (note: Note) =>
+  note.type !== NoteType.STACK && !note.parent_stack_id && !note.isPending;
+
+/** 聚类结果按组的大小倒序；只有一条笔记的不成组，留在主列表 */
+export function clusterNotes(notes: Note[], pairs: SimilarPair[]): NoteCluster[] {
+  const loose = new Map(notes.filter(isLooseNote).map(note => [note.id, note]));
+
+  const bySimilarity: NoteCluster[] = groupSimilarNotes(pairs, new Set(loose.keys()), MAX_CLUSTER_SIZE)
+    .map(ids => ({ notes: ids.map(id => loose.get(id)!), basis: { kind: 'similarity' } }));
+  bySimilarity.forEach(cluster => cluster.notes.forEach(note => loose.delete(note.id)));
+
+  const byCategory = new Map<string, Note[]>();
+  loose.forEach(note => {
+    const category = note.analysis_category?.trim() || '';
+    if (PLACEHOLDER_CATEGORIES.has(category) || note.analysis_tags?.includes(REVIEW_TAG)) return;
+    byCategory.set(category, [...(byCategory.get(category) || []), note]);
+  });
+  const categoryClusters: NoteCluster[] = [...byCategory.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([category, members]) => ({ notes: members, basis: { kind: 'category', category } }));
+
+  return [...bySimilarity, ...categoryClusters].sort((a, b) => b.notes.length - a.notes.length);
+}
@@ -0,0 +1,110 @@
+/**
+ * 捕捉队列的重试：分析失败按指数退避重试，成功后入库并移出队列；连续失败到上限后以人工复核的结果入库。
+ * IndexedDB 替换为内存中的 Map，分析替换为按调用顺序返回预设结果的桩。
+ */
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeNoteContent, NoteAnalysis, REVIEW_ANALYSIS } from './aiProvider';
+import { PlatoResult } from './platoClient';
+import { createInMemoryRepositories } from './inMemoryRepositories';
+import { enqueueCapture, listPendingCaptures, PendingCapture, startCaptureSync } from './captureOutbox';
+
+vi.mock('./supabaseClient', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null } }) } },
+}));
+
+vi.mock('./aiProvider', async importOriginal => ({
+  ...(await importOriginal<typeof import('./aiProvider')>()),
+  analyzeNoteContent: vi.fn(),
+}));
+
+const rows = new Map<string, PendingCapture>();
+
+vi.mock('./idb', () => ({
+  openDatabase: async () => ({}),
+  withStore: async (_db: unknown, _name: string, _mode: string, run: (store: unknown) => unknown) => run({
+    put: (capture: PendingCapture) => { rows.set(capture.id, structuredClone(capture)); },
+    delete: (id: string) => { rows.delete(id); },
+    index: () => ({ getAll: (userId: string) => [...rows.values()].filter(row => row.userId === userId).map(row => structuredClone(row)) }),
+  }),
+}));
+
+const mockedAnalyze = vi.mocked(analyzeNoteContent);
+const ANALYSIS: NoteAnalysis = { category: '技术', tags: ['react'], sentiment: '积极' };
+const offline: PlatoResult<NoteAnalysis> = { ok: false, kind: 'network', message: 'offline' };
+
+let stop: () => void = () => {};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  rows.clear();
+  mockedAnalyze.mockReset();
+});
+
+afterEach(() => {
+  stop();
+  vi.useRealTimers();
+});
+
+const start = () => {
+  const repositories = createInMemoryRepositories('u1');
+  const handlers = { onChange: vi.fn(), onSaved: vi.fn() };
+  stop = startCaptureSync('u1', repositories, handlers);
+  return { repositories, handlers };
+};
+
+describe('capture outbox', () => {
+  it('retries failed analysis with exponential backoff and then saves the note', async () => {
+    mockedAnalyze.mockResolvedValueOnce(offline).mockResolvedValueOnce(offline).mockResolvedValueOnce({ ok: true, data: ANALYSIS });
+    const capture = await enqueueCapture('u1', '写了一个 React 组件');
+    const { repositories, handlers } = start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockedAnalyze).toHaveBeenCalledTimes(1);
+    expect(await listPendingCaptures('u1')).toMatchObject([{ attempts: 1, lastError: 'AI 服务连接失败，请检查网络' }]);
+
+    // 第一次重试在 2 秒后，第二次在其后 4 秒
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(mockedAnalyze).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockedAnalyze).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(3_999);
+    expect(mockedAnalyze).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockedAnalyze).toHaveBeenCalledTimes(3);
+
+    expect(handlers.onSaved).toHaveBeenCalledWith(expect.objectContaining({ id: capture.id, analysis_tags: ['react'] }));
+    expect(await repositories.notes.get(capture.id)).toMatchObject({ content: '写了一个 React 组件', analysis_category: '技术' });
+    expect(await listPendingCaptures('u1')).toEqual([]);
+    expect(handlers.onChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it('keeps a completed analysis when saving the note fails', async () => {
+    mockedAnalyze.mockResolvedValue({ ok: true, data: ANALYSIS });
+    const capture = await enqueueCapture('u1', '入库失败的笔记');
+    const { repositories } = start();
+    const create = vi.spyOn(repositories.notes, 'create').mockRejectedValueOnce(new Error('insert failed'));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await listPendingCaptures('u1')).toMatchObject([{ attempts: 1, analysis: ANALYSIS, lastError: 'insert failed' }]);
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(mockedAnalyze).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(await repositories.notes.get(capture.id)).toMatchObject({ analysis_tags: ['react'] });
+  });
+
+  it('saves the note for manual review once analysis has failed too many times', async () => {
+    mockedAnalyze.mockResolvedValue(offline);
+    const capture = await enqueueCapture('u1', '一直分析失败');
+    rows.set(capture.id, { ...rows.get(capture.id)!, attempts: 4 });
+    const { repositories, handlers } = start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(handlers.onSaved).toHaveBeenCalledTimes(1);
+    expect(await repositories.notes.get(capture.id)).toMatchObject({
+      analysis_category: REVIEW_ANALYSIS.category,
+      analysis_tags: REVIEW_ANALYSIS.tags,
+    });
+    expect(rows.size).toBe(0);
+  });
+});
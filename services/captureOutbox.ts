@@ -0,0 +1,226 @@
+/**
+ * 离线优先的捕捉队列：笔记先写入本地 IndexedDB（连同图片 Blob），再在后台完成分析、上传图片与入库。
+ * - 网络或服务不可用时按指数退避重试，永不丢弃；恢复联网（online 事件）时立即重试
+ * - 队列条目的 id 就是最终笔记的 id，重复提交不会产生重复笔记，入库后待同步卡片原地替换为正式卡片
+ * - 每完成一步都写回本地，重试时不会重复分析或上传
+ */
+import { Note, NoteType } from '../types';
+import { analyzeNoteContent, NoteAnalysis, REVIEW_ANALYSIS } from './aiProvider';
+import { describePlatoError } from './platoClient';
+import { openDatabase, withStore } from './idb';
+import { Repositories } from './repositories';
+import { loadAnalysisVocabulary } from './analysisVocabulary';
+
+export interface PendingCapture {
+  id: string;
+  userId: string;
+  content: string;
+  image?: Blob;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  analysis?: NoteAnalysis; // 已完成的步骤，重试时跳过
+  imageUrl?: string;
+}
+
+export interface CaptureSyncHandlers {
+  /** 队列内容变化（新增、重试失败、完成）时给出当前用户的全部待同步条目 */
+  onChange: (pending: PendingCapture[]) => void;
+  onSaved: (note: Note) => void;
+}
+
+const DB_NAME = 'growthloop-outbox';
+const STORE = 'captures';
+const LOCK_NAME = 'growthloop-outbox';
+const BASE_DELAY_MS = 2_000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+// 分析连续失败这么多次后接受默认结果先入库，带“人工复核”标签的笔记之后可以批量重新分析
+const MAX_ANALYSIS_ATTEMPTS = 5;
+
+const openOutbox = () => openDatabase(DB_NAME, 1, db => {
+  const store = db.createObjectStore(STORE, { keyPath: 'id' });
+  store.createIndex('userId', 'userId');
+});
+
+const backoff = (attempts: number) => Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+
+async function putCapture(capture: PendingCapture): Promise<void> {
+  const db = await openOutbox();
+  await withStore(db, STORE, 'readwrite', store => store.put(capture));
+}
+
+async function deleteCapture(id: string): Promise<void> {
+  const db = await openOutbox();
+  await withStore(db, STORE, 'readwrite', store => store.delete(id));
+}
+
+export async function listPendingCaptures(userId: string): Promise<PendingCapture[]> {
+  const db = await openOutbox();
+  const captures = await withStore<PendingCapture[]>(db, STORE, 'readonly', store => store.index('userId').getAll(userId));
+  return captures.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// 入队后唤醒对应用户的同步循环
+const wakers = new Map<string, () => void>();
+
+/** 把一条新笔记写入本地队列；只依赖 IndexedDB，离线也能成功 */
+export async function enqueueCapture(userId: string, content: string, imageBase64?: string): Promise<PendingCapture> {
+  const capture: PendingCapture = {
+    id: crypto.randomUUID(),
+    userId,
+    content,
+    image: imageBase64 ? await (await fetch(imageBase64)).blob() : undefined,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: 0,
+  };
+  await putCapture(capture);
+  wakers.get(userId)?.();
+  return capture;
+}
+
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/** 依次完成分析、上传与入库；中途失败会抛出，已完成的步骤已经写回本地 */
+async function syncCapture(capture: PendingCapture, repositories: Repositories): Promise<Note> {
+  if (!capture.analysis) {
+    const imageBase64 = capture.image ? await blobToDataUrl(capture.image) : undefined;
+    const vocabulary = await loadAnalysisVocabulary(repositories);
+    const result = await analyzeNoteContent(capture.content, imageBase64, { vocabulary });
+    if (result.ok === false && capture.attempts + 1 < MAX_ANALYSIS_ATTEMPTS) {
+      throw new Error(describePlatoError(result));
+    }
+    capture.analysis = result.ok ? result.data : REVIEW_ANALYSIS;
+    await putCapture(capture);
+  }
+
+  if (capture.image && !capture.imageUrl) {
+    capture.imageUrl = await repositories.images.upload(`${capture.userId}/${capture.id}.png`, capture.image);
+    await putCapture(capture);
+  }
+
+  const { analysis, imageUrl, content } = capture;
+  const note = await repositories.notes.create({
+    content,
+    image_url: imageUrl,
+    type: imageUrl ? (content ? NoteType.MIXED : NoteType.IMAGE) : NoteType.TEXT,
+    analysis_category: analysis.category,
+    analysis_tags: analysis.tags,
+    analysis_sentiment: analysis.sentiment,
+    ocr_text: analysis.ocrText,
+  }, { id: capture.id });
+
+  await deleteCapture(capture.id);
+  return note;
+}
+
+/** 多个标签页同时打开时只让一个处理队列 */
+const withOutboxLock = (run: () => Promise<void>): Promise<void> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request(LOCK_NAME, run)
+    : run();
+
+/**
+ * 为当前用户启动后台同步，返回停止函数。
+ * 启动时、入队时、恢复联网时以及最近一条重试到期时各处理一轮。
+ */
+export function startCaptureSync(userId: string, repositories: Repositories, handlers: CaptureSyncHandlers): () => void {
+  let stopped = false;
+  let running = false;
+  let rerun = false;
+  let forceNext = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const publish = async () => {
+    const pending = await listPendingCaptures(userId);
+    if (!stopped) handlers.onChange(pending);
+    return pending;
+  };
+
+  const schedule = (pending: PendingCapture[]) => {
+    clearTimeout(timer);
+    if (stopped || pending.length === 0) return;
+    const next = Math.min(...pending.map(capture => capture.nextAttemptAt));
+    timer = setTimeout(() => run(), Math.max(next - Date.now(), 0));
+  };
+
+  const processDue = async (ignoreBackoff: boolean) => {
+    const pending = await listPendingCaptures(userId);
+    // 从最早的开始，保持捕捉顺序
+    for (const capture of pending.reverse()) {
+      if (stopped || (!ignoreBackoff && capture.nextAttemptAt > Date.now())) continue;
+      try {
+        const note = await syncCapture(capture, repositories);
+        if (!stopped) handlers.onSaved(note);
+      } catch (error: any) {
+        capture.attempts += 1;
+        capture.nextAttemptAt = Date.now() + backoff(capture.attempts);
+        capture.lastError = error?.message || String(error);
+        console.warn(`Capture ${capture.id} sync failed (attempt ${capture.attempts}):`, capture.lastError);
+        await putCapture(capture);
+      }
+      await publish();
+    }
+  };
+
+  /** ignoreBackoff：恢复联网时不必等退避到期 */
+  async function run(ignoreBackoff = false) {
+    if (stopped) return;
+    if (running) {
+      rerun = true;
+      forceNext = forceNext || ignoreBackoff;
+      return;
+    }
+    running = true;
+    try {
+      if (typeof navigator === 'undefined' || navigator.onLine !== false) {
+        await withOutboxLock(() => processDue(ignoreBackoff));
+      }
+      schedule(await publish());
+    } catch (error: any) {
+      console.error('Error syncing capture outbox:', error?.message || error);
+    } finally {
+      running = false;
+      if (rerun) {
+        const force = forceNext;
+        rerun = false;
+        forceNext = false;
+        run(force);
+      }
+    }
+  }
+
+  const handleOnline = () => run(true);
+  const wake = () => run();
+
+  wakers.set(userId, wake);
+  if (typeof window !== 'undefined') window.addEventListener('online', handleOnline);
+  run();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    if (wakers.get(userId) === wake) wakers.delete(userId);
+    if (typeof window !== 'undefined') window.removeEventListener('online', handleOnline);
+  };
+}
+
+/** 把待同步条目显示为笔记卡片；imageUrl 由调用方用 object URL 提供并负责释放 */
+export const pendingCaptureToNote = (capture: PendingCapture, imageUrl?: string): Note => ({
+  id: capture.id,
+  content: capture.content,
+  image_url: capture.imageUrl || imageUrl,
+  created_at: capture.createdAt,
+  type: capture.image ? (capture.content ? NoteType.MIXED : NoteType.IMAGE) : NoteType.TEXT,
+  analysis_category: capture.analysis?.category,
+  analysis_tags: capture.analysis?.tags,
+  analysis_sentiment: capture.analysis?.sentiment,
+  isPending: true,
+  syncError: capture.lastError,
+});
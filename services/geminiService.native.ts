@@ -1,9 +1,12 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { Note, InsightPlatform, NoteType, StackCategory } from "../types";
+import { Note, InsightPlatform, StackCategory } from "../types";
+import { PlatoError, PlatoRequestError, PlatoResult } from "./platoClient";
+import { RoutedResult, RouteTrace } from "./modelRouter";
+import { AIProvider, AnalyzeOptions, EMBEDDING_DIMENSIONS, FRAGMENT_ORDER_RULE, NoteAnalysis, StreamInsightsOptions, fragmentHeading, insightFragments, vocabularyPrompt } from "./aiProvider";
 
 // NOTE: In a production environment, never expose API keys on the client side.
-// This is structured to use the environment variable as requested.
+// 这是浏览器直连实现，仅供本地调试（AI 服务商选择 gemini-native）；线上请使用经服务端代理的 plato。
 const apiKey = process.env.API_KEY || '';
 
 const ai = new GoogleGenAI({ apiKey });
@@ -12,14 +15,9 @@ const ai = new GoogleGenAI({ apiKey });
  * 分析新的笔记内容以提取类别、标签，并在需要时执行 OCR。
  * 使用 Gemini 2.5 Flash 以提高速度和效率。
  */
-export const analyzeNoteContent = async (text: string, imageBase64?: string): Promise<{ category: string, tags: string[], sentiment: string }> => {
+export const analyzeNoteContent = async (text: string, imageBase64?: string, options: AnalyzeOptions = {}): Promise<PlatoResult<NoteAnalysis>> => {
   if (!apiKey) {
-    console.warn("未找到 API Key。返回模拟分析结果。");
-    return {
-      category: "未分类",
-      tags: ["待处理"],
-      sentiment: "中性"
-    };
+    return { ok: false, kind: 'config', message: '未找到 GEMINI_API_KEY' };
   }
 
   const parts: any[] = [];
@@ -44,7 +42,9 @@ export const analyzeNoteContent = async (text: string, imageBase64?: string): Pr
     2. 将内容归类为一个大类（例如：技术、设计、哲学、生活、工作、阅读）。
     3. 生成 3-5 个具体的中文标签。
     4. 确定情感倾向（积极、中性、消极）。
+    ${imageBase64 ? '5. 在 ocrText 中返回图片里的全部文字，没有文字时返回空字符串。' : ''}
     请直接返回 JSON 格式。
+    ${vocabularyPrompt(options.vocabulary)}
   `;
 
   try {
@@ -63,33 +63,28 @@ export const analyzeNoteContent = async (text: string, imageBase64?: string): Pr
               type: Type.ARRAY,
               items: { type: Type.STRING }
             },
-            sentiment: { type: Type.STRING }
+            sentiment: { type: Type.STRING },
+            ...(imageBase64 ? { ocrText: { type: Type.STRING } } : {})
           },
-          required: ["category", "tags", "sentiment"]
+          required: imageBase64 ? ["category", "tags", "sentiment", "ocrText"] : ["category", "tags", "sentiment"]
         }
       }
     });
 
-    if (response.text) {
-      return JSON.parse(response.text);
-    }
-    throw new Error("响应为空");
-
-  } catch (error) {
+    if (!response.text) return { ok: false, kind: 'empty', message: '响应为空' };
+    return { ok: true, data: JSON.parse(response.text) };
+  } catch (error: any) {
     console.error("Gemini 分析失败:", error);
-    return {
-      category: "常规",
-      tags: ["人工复核"],
-      sentiment: "中性"
-    };
+    return { ok: false, kind: 'network', message: error?.message || '分析失败' };
   }
 };
 
 /**
  * 为卡片组生成简短标题
  */
-export const generateStackTitle = async (notes: Note[]): Promise<string> => {
-  if (!apiKey || notes.length === 0) return "未命名卡片组";
+export const generateStackTitle = async (notes: Note[]): Promise<PlatoResult<string>> => {
+  if (!apiKey) return { ok: false, kind: 'config', message: '未找到 GEMINI_API_KEY' };
+  if (notes.length === 0) return { ok: true, data: "未命名卡片组" };
 
   const contentSummary = notes.slice(0, 5).map(n => n.content).join("\n");
 
@@ -107,17 +102,20 @@ export const generateStackTitle = async (notes: Note[]): Promise<string> => {
       model: 'gemini-2.5-flash',
       contents: prompt
     });
-    return response.text?.trim() || "新的笔记组";
-  } catch (error) {
-    return "新的笔记组";
+    const title = response.text?.trim();
+    return title ? { ok: true, data: title } : { ok: false, kind: 'empty', message: '响应为空' };
+  } catch (error: any) {
+    console.error("标题生成失败:", error);
+    return { ok: false, kind: 'network', message: error?.message || '标题生成失败' };
   }
 };
 
 /**
  * 确定卡片组的分类 (TECH, LIFE, WISDOM, GENERAL)
  */
-export const determineStackCategory = async (notes: Note[]): Promise<StackCategory> => {
-  if (!apiKey || notes.length === 0) return StackCategory.GENERAL;
+export const determineStackCategory = async (notes: Note[]): Promise<PlatoResult<StackCategory>> => {
+  if (!apiKey) return { ok: false, kind: 'config', message: '未找到 GEMINI_API_KEY' };
+  if (notes.length === 0) return { ok: true, data: StackCategory.GENERAL };
 
   const contentSummary = notes.map(n => n.content).join("\n---\n");
 
@@ -141,14 +139,15 @@ export const determineStackCategory = async (notes: Note[]): Promise<StackCatego
     });
 
     const text = response.text?.trim().toUpperCase();
-    if (text?.includes("TECH")) return StackCategory.TECH;
-    if (text?.includes("LIFE")) return StackCategory.LIFE;
-    if (text?.includes("WISDOM")) return StackCategory.WISDOM;
-    return StackCategory.GENERAL;
+    if (!text) return { ok: false, kind: 'empty', message: '响应为空' };
+    if (text.includes("TECH")) return { ok: true, data: StackCategory.TECH };
+    if (text.includes("LIFE")) return { ok: true, data: StackCategory.LIFE };
+    if (text.includes("WISDOM")) return { ok: true, data: StackCategory.WISDOM };
+    return { ok: true, data: StackCategory.GENERAL };
 
-  } catch (error) {
+  } catch (error: any) {
     console.error("分类判定失败:", error);
-    return StackCategory.GENERAL;
+    return { ok: false, kind: 'network', message: error?.message || '分类判定失败' };
   }
 };
 
@@ -243,29 +242,15 @@ export const generateInContextImage = async (prompt: string): Promise<string | u
 };
 
 /**
- * 从笔记集合生成深度洞察/总结。
- * 使用 Gemini 3.0 Pro 获取更强的推理能力。
- * 根据 stackCategory 动态选择 System Prompt。
+ * 根据 stackCategory 动态选择 System Prompt，拼出完整的洞察提示词。
  */
-export const generateInsights = async (notes: Note[], platform: InsightPlatform, category: StackCategory = StackCategory.GENERAL): Promise<string> => {
-  if (!apiKey) return "API Key 缺失。请配置 process.env.API_KEY。";
-  if (notes.length === 0) return "没有可用的笔记进行分析。";
-
-  // Flatten notes if there are stacks (though usually we generate from a single stack or list of notes)
-  const allNotes: Note[] = [];
-  notes.forEach(n => {
-    if (n.type === NoteType.STACK && n.stackItems) {
-      allNotes.push(...n.stackItems);
-    } else {
-      allNotes.push(n);
-    }
-  });
-
-  const notesContext = allNotes.map(n => `
-    ---
-    内容: ${n.content}
-    标签: ${n.analysis?.tags.join(', ')}
-    ---
+const buildInsightsPrompt = (notes: Note[], platform: InsightPlatform, category: StackCategory): string => {
+  // Flatten notes if there are stacks, including sub-stacks, into numbered fragments in the user-defined order
+  const fragments = insightFragments(notes);
+  const notesContext = fragments.map((fragment, i) => `
+    ${fragmentHeading(fragment, i, fragments.length)}
+    内容: ${fragment.note.content}
+    标签: ${(fragment.note.analysis_tags || []).join(', ')}
   `).join('\n');
 
   let systemPrompt = "";
@@ -419,26 +404,78 @@ export const generateInsights = async (notes: Note[], platform: InsightPlatform,
     }
   }
 
-  const prompt = `
+  return `
     ${systemPrompt}
 
     Input Data (User Notes):
+    ${FRAGMENT_ORDER_RULE}
     ${notesContext}
   `;
+};
+
+const INSIGHTS_MODEL = 'gemini-3-pro-preview';
+const INSIGHTS_TRACE: RouteTrace = { useCase: 'insights', model: INSIGHTS_MODEL, provider: 'gemini-native', fallbacks: [] };
+
+/** 检查直连调用的前置条件，返回失败原因 */
+const insightsPrecondition = (notes: Note[]): PlatoError | undefined => {
+  if (!apiKey) return { kind: 'config', message: 'API Key 缺失。请配置 process.env.API_KEY。' };
+  if (notes.length === 0) return { kind: 'empty', message: '没有可用的笔记进行分析。' };
+  return undefined;
+};
+
+/**
+ * 从笔记集合生成深度洞察/总结。
+ * 使用 Gemini 3.0 Pro 获取更强的推理能力。
+ */
+export const generateInsights = async (notes: Note[], platform: InsightPlatform, category: StackCategory = StackCategory.GENERAL): Promise<RoutedResult<string>> => {
+  const failure = insightsPrecondition(notes);
+  if (failure) return { ok: false, ...failure, trace: INSIGHTS_TRACE };
 
   try {
     const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt
+      model: INSIGHTS_MODEL,
+      contents: buildInsightsPrompt(notes, platform, category)
     });
 
-    return response.text || "无法生成洞察。";
-  } catch (error) {
+    if (!response.text) return { ok: false, kind: 'empty', message: '无法生成洞察。', trace: INSIGHTS_TRACE };
+    return { ok: true, data: response.text, trace: INSIGHTS_TRACE };
+  } catch (error: any) {
     console.error("Gemini 生成失败:", error);
-    return "生成洞察时出错，请重试。";
+    return { ok: false, kind: 'network', message: error?.message || '生成洞察时出错，请重试。', trace: INSIGHTS_TRACE };
   }
 };
 
+/**
+ * 流式生成洞察。取消后静默结束；失败时抛出 PlatoRequestError，与 Plato 实现保持一致。
+ */
+export async function* streamInsights(notes: Note[], platform: InsightPlatform, category: StackCategory = StackCategory.GENERAL, options: StreamInsightsOptions = {}): AsyncGenerator<string, void, undefined> {
+  const failure = insightsPrecondition(notes);
+  if (failure) throw new PlatoRequestError(failure);
+
+  let stream: AsyncGenerator<{ text?: string }>;
+  try {
+    stream = await ai.models.generateContentStream({
+      model: INSIGHTS_MODEL,
+      contents: buildInsightsPrompt(notes, platform, category),
+      config: { abortSignal: options.signal }
+    });
+  } catch (error: any) {
+    if (options.signal?.aborted) return;
+    throw new PlatoRequestError({ kind: 'network', message: error?.message || String(error) });
+  }
+
+  options.onRoute?.(INSIGHTS_TRACE);
+  try {
+    for await (const chunk of stream) {
+      if (options.signal?.aborted) return;
+      if (chunk.text) yield chunk.text;
+    }
+  } catch (error: any) {
+    if (options.signal?.aborted) return;
+    throw new PlatoRequestError({ kind: 'network', message: error?.message || String(error) });
+  }
+}
+
 
 /**
  * Generates a cover image for the article.
@@ -483,4 +520,41 @@ export const generateCoverImage = async (title: string): Promise<string | undefi
     console.error("Cover image generation failed:", error);
     return undefined;
   }
-};
\ No newline at end of file
+};
+
+const EMBEDDING_MODEL = 'gemini-embedding-001';
+
+/** 笔记向量：截断到与数据库一致的维度 */
+export const embedTexts = async (texts: string[]): Promise<number[][] | undefined> => {
+  if (!apiKey) {
+    console.warn("API Key not found. Skipping embeddings.");
+    return undefined;
+  }
+  try {
+    const response = await ai.models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: texts,
+      config: { outputDimensionality: EMBEDDING_DIMENSIONS },
+    });
+    const vectors = (response.embeddings || []).map(embedding => embedding.values || []);
+    if (vectors.length !== texts.length || vectors.some(values => values.length === 0)) return undefined;
+    return vectors;
+  } catch (error) {
+    console.error("Embedding failed:", error);
+    return undefined;
+  }
+};
+
+/** 浏览器直连 Gemini 的服务商实现，见 aiProvider */
+export const nativeProvider: AIProvider = {
+  analyzeNoteContent,
+  generateStackTitle,
+  determineStackCategory,
+  generateInsights,
+  streamInsights,
+  generateSocialImage,
+  generateInContextImage,
+  generateCoverImage,
+  embeddingModel: EMBEDDING_MODEL,
+  embedTexts,
+};
@@ -0,0 +1,139 @@
+/**
+ * 结构化输出：本地 schema 校验，以及 generateStructured 的“校验 → 带问题修复一次 → 仍失败则报错”流程。
+ * 模型调用替换为按顺序返回预设回复的 routeChat。
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RoutedResult, RouteTrace } from './modelRouter';
+import { NoteType, StackCategory } from '../types';
+import { analyzeNoteContent, determineStackCategory, generateStackTitle, generateStructured, JsonSchema, validateSchema } from './geminiService';
+import { routeChat } from './modelRouter';
+
+vi.mock('./supabaseClient', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null } }) } },
+}));
+
+vi.mock('./modelRouter', async importOriginal => ({
+  ...(await importOriginal<typeof import('./modelRouter')>()),
+  routeChat: vi.fn(),
+}));
+
+const mockedRouteChat = vi.mocked(routeChat);
+const trace: RouteTrace = { useCase: 'analyze', model: 'test-model', provider: 'test', fallbacks: [] };
+
+/** 依次返回给定的回复文本 */
+const replyWith = (...replies: string[]) => {
+  replies.forEach(reply => mockedRouteChat.mockResolvedValueOnce({ ok: true, data: reply, trace } as RoutedResult<string>));
+};
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    category: { type: 'string', minLength: 1 },
+    tags: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, maxItems: 3 },
+    sentiment: { type: 'string', enum: ['积极', '中性', '消极'] },
+    score: { type: 'integer' },
+  },
+  required: ['category', 'tags', 'sentiment'],
+  additionalProperties: false,
+};
+
+beforeEach(() => {
+  mockedRouteChat.mockReset();
+});
+
+describe('validateSchema', () => {
+  it('accepts a conforming value', () => {
+    expect(validateSchema({ category: '技术', tags: ['react'], sentiment: '中性', score: 3 }, SCHEMA)).toEqual([]);
+  });
+
+  it('reports every violation with its path', () => {
+    const issues = validateSchema({ category: ' ', tags: [], sentiment: '开心', score: 1.5, extra: true }, SCHEMA);
+    expect(issues).toEqual([
+      '$.category 长度至少为 1',
+      '$.tags 至少需要 1 项',
+      '$.sentiment 应为 积极 / 中性 / 消极 之一，实际为 "开心"',
+      '$.score 应为整数',
+      '$.extra 不是允许的字段',
+    ]);
+  });
+
+  it('reports missing required fields and wrong container types', () => {
+    expect(validateSchema({ tags: 'a' }, SCHEMA)).toEqual(['$.category 缺失', '$.sentiment 缺失', '$.tags 应为数组']);
+    expect(validateSchema([], SCHEMA)).toEqual(['$ 应为对象']);
+    expect(validateSchema({ category: 'a', tags: ['a', 'b', 'c', 'd'], sentiment: '积极' }, SCHEMA)).toEqual(['$.tags 最多 3 项']);
+  });
+});
+
+describe('generateStructured', () => {
+  it('returns a valid reply without a repair round', async () => {
+    replyWith('```json\n{"category":"技术","tags":["react"],"sentiment":"积极"}\n```');
+    const result = await generateStructured('analyze', [{ role: 'user', content: 'hi' }], SCHEMA);
+
+    expect(result).toMatchObject({ ok: true, data: { category: '技术', tags: ['react'], sentiment: '积极' }, trace });
+    expect(mockedRouteChat).toHaveBeenCalledTimes(1);
+    expect(mockedRouteChat.mock.calls[0][2].response_format).toEqual({ type: 'json_schema', json_schema: { name: 'analyze', schema: SCHEMA } });
+  });
+
+  it('repairs a reply that violates the schema by sending the issues back', async () => {
+    replyWith(
+      '{"category":"技术","tags":[],"sentiment":"开心"}',
+      '{"category":"技术","tags":["react"],"sentiment":"积极"}',
+    );
+    const result = await generateStructured('analyze', [{ role: 'user', content: 'hi' }], SCHEMA);
+
+    expect(result).toMatchObject({ ok: true, data: { tags: ['react'], sentiment: '积极' } });
+    expect(mockedRouteChat).toHaveBeenCalledTimes(2);
+    const repairMessages = mockedRouteChat.mock.calls[1][1];
+    expect(repairMessages[1]).toEqual({ role: 'assistant', content: '{"category":"技术","tags":[],"sentiment":"开心"}' });
+    expect(repairMessages[2].content).toContain('$.tags 至少需要 1 项');
+    expect(repairMessages[2].content).toContain('$.sentiment 应为 积极 / 中性 / 消极 之一');
+  });
+
+  it('surfaces the validation issues when the repaired reply is still invalid', async () => {
+    replyWith('not json at all', '{"category":"技术","tags":["react"]}');
+    const result = await generateStructured('analyze', [{ role: 'user', content: 'hi' }], SCHEMA);
+
+    expect(result).toMatchObject({ ok: false, kind: 'invalid', issues: ['$.sentiment 缺失'] });
+    expect(mockedRouteChat).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns a routing failure without attempting a repair', async () => {
+    mockedRouteChat.mockResolvedValueOnce({ ok: false, kind: 'timeout', message: 'timeout', trace });
+    const result = await generateStructured('analyze', [{ role: 'user', content: 'hi' }], SCHEMA);
+
+    expect(result).toMatchObject({ ok: false, kind: 'timeout' });
+    expect(mockedRouteChat).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('analyzeNoteContent', () => {
+  it('reports invalid output instead of a placeholder analysis', async () => {
+    replyWith('{"category":"技术"}', '{"category":"技术","tags":[]}');
+    const result = await analyzeNoteContent('写了一个 React 组件', undefined, { refresh: true });
+
+    expect(result.ok).toBe(false);
+    if (result.ok === false) {
+      expect(result.kind).toBe('invalid');
+      expect(result.kind === 'invalid' && result.issues).toContain('$.sentiment 缺失');
+    }
+  });
+});
+
+describe('stack title and category', () => {
+  const notes = [{ id: 'a', content: '修复 React 组件', created_at: '2026-10-19T00:00:00.000Z', type: NoteType.TEXT }];
+
+  it('returns the generated values', async () => {
+    replyWith(' React 组件\n修复 ', 'tech');
+    expect(await generateStackTitle(notes)).toEqual({ ok: true, data: 'React组件修复' });
+    expect(await determineStackCategory(notes)).toEqual({ ok: true, data: StackCategory.TECH });
+  });
+
+  it('returns the failure instead of a placeholder', async () => {
+    mockedRouteChat.mockResolvedValue({ ok: false, kind: 'network', message: 'offline', trace });
+    expect(await generateStackTitle(notes)).toMatchObject({ ok: false, kind: 'network' });
+    expect(await determineStackCategory(notes)).toMatchObject({ ok: false, kind: 'network' });
+
+    replyWith('   ');
+    expect(await generateStackTitle(notes)).toMatchObject({ ok: false, kind: 'empty' });
+  });
+});
@@ -1,57 +1,184 @@
-import { Note, InsightPlatform, NoteType, StackCategory } from '../types';
-import { chatCompletion, imagesGenerate, ChatMessageContentPart } from './platoClient';
-
-// 用例级模型固定为与旧实现一致的名称（由柏拉图平台侧适配）
-const MODEL_ANALYZE = 'gemini-2.5-flash';
-const MODEL_TITLE = 'gemini-2.5-flash';
-const MODEL_CATEGORY = 'gemini-2.5-flash';
-const MODEL_INSIGHTS = 'gemini-3-pro-preview';
+import { Note, InsightPlatform, StackCategory } from '../types';
+import { embeddings, imagesGenerate, ChatMessage, ChatMessageContentPart, ChatOptions, PlatoResult, PlatoRequestError, ResponseFormat } from './platoClient';
+import { routeChat, routeChatStream, RoutedResult, UseCase } from './modelRouter';
+import { AIProvider, AnalyzeOptions, EMBEDDING_DIMENSIONS, FRAGMENT_ORDER_RULE, NoteAnalysis, StreamInsightsOptions, fragmentHeading, insightFragments, vocabularyPrompt } from './aiProvider';
+import { CacheOptions, cacheKey, readCache, writeCache } from './aiCache';
+
+// 文本用例的模型与回退链见 modelRouter；生图与向量模型单独配置
 const IMAGE_MODEL = import.meta.env.VITE_PLATO_IMAGE_MODEL || 'nano-banana';
+const EMBEDDING_MODEL = import.meta.env.VITE_PLATO_EMBEDDING_MODEL || 'text-embedding-3-small';
 
 // ---------- Helpers ----------
 /**
  * 从 AI 回复中提取并解析 JSON。
  * 处理常见情况：markdown 代码块包裹、前后有多余文字等。
  */
-const safeJSON = <T>(s: string, fallback: T): T => {
+const extractJSON = (s: string): PlatoResult<unknown> => {
+  // 1. 尝试匹配 Markdown 代码块: ```json ... ``` 或 ``` ... ```
+  // 2. 尝试直接解析（纯 JSON 情况）
+  // 3. 尝试提取第一个 {...} 结构
+  const trimmed = s.trim();
+  const candidate = s.match(/```(?:json)?\s*([\s\S]*?)```/)?.[1].trim()
+    ?? (trimmed.startsWith('{') || trimmed.startsWith('[') ? trimmed : s.match(/\{[\s\S]*\}/)?.[0]);
+  if (!candidate) {
+    return { ok: false, kind: 'invalid', issues: ['回复中没有 JSON'], message: '回复中没有 JSON' };
+  }
   try {
-    // 1. 尝试匹配 Markdown 代码块: ```json ... ``` 或 ``` ... ```
-    const codeBlockMatch = s.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      return JSON.parse(codeBlockMatch[1].trim()) as T;
-    }
+    return { ok: true, data: JSON.parse(candidate) };
+  } catch (err: any) {
+    const issue = `JSON 解析失败：${err?.message || String(err)}`;
+    return { ok: false, kind: 'invalid', issues: [issue], message: issue };
+  }
+};
 
-    // 2. 尝试直接解析（纯 JSON 情况）
-    const trimmed = s.trim();
-    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
-      return JSON.parse(trimmed) as T;
-    }
+/**
+ * 运行时 schema：JSON Schema 的一个子集。
+ * 同一份定义既作为 response_format 发给模型，也用于本地校验回复。
+ */
+export type JsonSchema =
+  | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[]; additionalProperties?: boolean; description?: string }
+  | { type: 'array'; items: JsonSchema; minItems?: number; maxItems?: number; description?: string }
+  | { type: 'string'; enum?: string[]; minLength?: number; description?: string }
+  | { type: 'number' | 'integer' | 'boolean'; description?: string };
 
-    // 3. 尝试提取第一个 {...} 结构
-    const jsonMatch = s.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]) as T;
+/** 校验 value 是否符合 schema，返回问题列表（空数组表示通过） */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} 应为对象`];
+      const record = value as Record<string, unknown>;
+      const issues = (schema.required || []).filter(key => !(key in record)).map(key => `${path}.${key} 缺失`);
+      Object.entries(record).forEach(([key, child]) => {
+        if (schema.properties[key]) {
+          issues.push(...validateSchema(child, schema.properties[key], `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          issues.push(`${path}.${key} 不是允许的字段`);
+        }
+      });
+      return issues;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} 应为数组`];
+      const issues: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) issues.push(`${path} 至少需要 ${schema.minItems} 项`);
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) issues.push(`${path} 最多 ${schema.maxItems} 项`);
+      value.forEach((item, i) => issues.push(...validateSchema(item, schema.items, `${path}[${i}]`)));
+      return issues;
     }
+    case 'string':
+      if (typeof value !== 'string') return [`${path} 应为字符串`];
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) return [`${path} 长度至少为 ${schema.minLength}`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} 应为 ${schema.enum.join(' / ')} 之一，实际为 "${value}"`];
+      return [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path} 应为整数`];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} 应为数字`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} 应为布尔值`];
+  }
+}
 
-    return fallback;
-  } catch {
-    return fallback;
+const parseStructured = <T>(raw: string, schema: JsonSchema): PlatoResult<T> => {
+  const parsed = extractJSON(raw);
+  if (parsed.ok === false) return parsed;
+  const issues = validateSchema(parsed.data, schema);
+  if (issues.length > 0) {
+    return { ok: false, kind: 'invalid', issues, message: `结构化输出校验失败：${issues.join('；')}` };
   }
+  return { ok: true, data: parsed.data as T };
 };
 
-function buildNotesContext(allNotes: Note[]): string {
-  return allNotes.map(n => `---\n内容: ${n.content}\n标签: ${(n.analysis_tags || []).join(', ')}\n---`).join('\n');
+type StructuredOptions = Omit<ChatOptions, 'model' | 'provider' | 'useCase' | 'response_format'>;
+
+/**
+ * 结构化输出：以 response_format 发送 JSON Schema，按同一 schema 校验回复；
+ * 不通过时带上问题列表重试一次修复，仍失败则返回 kind: 'invalid'（含 issues），由调用方决定如何降级。
+ * options.cache 缓存的是校验通过的 JSON，而不是原始回复。
+ */
+export async function generateStructured<T>(
+  useCase: UseCase,
+  messages: ChatMessage[],
+  schema: JsonSchema,
+  options: StructuredOptions = {}
+): Promise<RoutedResult<T>> {
+  const { cache, ...chatOptions } = options;
+  const cacheOptions: CacheOptions | undefined = cache === true ? {} : cache || undefined;
+  const key = cacheOptions ? await cacheKey({ useCase, messages, schema, temperature: chatOptions.temperature }) : undefined;
+  if (key && !cacheOptions.refresh) {
+    const cached = await readCache(key);
+    const hit = cached !== undefined ? parseStructured<T>(cached, schema) : undefined;
+    if (hit?.ok) return { ...hit, trace: { useCase, model: 'cache', provider: 'cache', fallbacks: [] } };
+  }
+
+  // 不开 strict：严格模式不接受 minLength/minItems/maxItems 和可选字段，会直接返回 400；这些约束由本地校验与修复保证
+  const response_format: ResponseFormat = { type: 'json_schema', json_schema: { name: useCase, schema } };
+  const first = await routeChat(useCase, messages, { ...chatOptions, response_format });
+  if (first.ok === false) return first;
+
+  let result: RoutedResult<T> = { ...parseStructured<T>(first.data, schema), trace: first.trace };
+  if (result.ok === false && result.kind === 'invalid') {
+    console.warn(`[generateStructured] ${useCase} 输出未通过校验，尝试修复:`, result.issues);
+    const repair = await routeChat(useCase, [
+      ...messages,
+      { role: 'assistant', content: first.data },
+      { role: 'user', content: `上面的回复不符合要求：\n- ${result.issues.join('\n- ')}\n请修正后只返回符合以下 JSON Schema 的 JSON，不要任何解释：\n${JSON.stringify(schema)}` },
+    ], { ...chatOptions, response_format });
+    if (repair.ok === false) return repair;
+    result = { ...parseStructured<T>(repair.data, schema), trace: repair.trace };
+  }
+
+  if (key && result.ok) {
+    await writeCache(key, JSON.stringify(result.data), { model: result.trace.model, useCase, ttlMs: cacheOptions.ttlMs });
+  }
+  return result;
+}
+
+/** 素材按卡片组中的顺序编号分节（含子卡片组中的笔记），分节标记见 fragmentHeading */
+function buildNotesContext(notes: Note[]): string {
+  const fragments = insightFragments(notes);
+  return fragments.map((fragment, i) => [
+    fragmentHeading(fragment, i, fragments.length),
+    `内容: ${fragment.note.content}`,
+    `标签: ${(fragment.note.analysis_tags || []).join(', ')}`,
+  ].join('\n')).join('\n\n');
 }
 
 // ---------- API Implementations (same signatures as original geminiService.ts) ----------
 
+const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    category: { type: 'string', minLength: 1, description: '中文类别' },
+    tags: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, maxItems: 5, description: '3-5 个中文标签' },
+    sentiment: { type: 'string', enum: ['积极', '中性', '消极'] },
+  },
+  required: ['category', 'tags', 'sentiment'],
+  additionalProperties: false,
+};
+
+// 带图片时同时返回 OCR 文字
+const IMAGE_ANALYSIS_SCHEMA: JsonSchema = {
+  ...ANALYSIS_SCHEMA,
+  properties: {
+    ...ANALYSIS_SCHEMA.properties,
+    ocrText: { type: 'string', description: '图片中的全部文字，没有文字时为空字符串' },
+  },
+  required: [...ANALYSIS_SCHEMA.required, 'ocrText'],
+};
+
 /** 笔记分析 + 可选图片OCR（OpenAI 兼容：把图片以 image_url 形式放入 messages） */
-export const analyzeNoteContent = async (text: string, imageBase64?: string): Promise<{ category: string, tags: string[], sentiment: string }> => {
+export const analyzeNoteContent = async (text: string, imageBase64?: string, options: AnalyzeOptions = {}): Promise<PlatoResult<NoteAnalysis>> => {
   if (!text && !imageBase64) {
-    return { category: '未分类', tags: ['待处理'], sentiment: '中性' };
+    return { ok: true, data: { category: '未分类', tags: ['待处理'], sentiment: '中性' } };
   }
 
-  const system = `你是一个内容分析助手。\n任务：从用户输入的文本/图片中提取：category(中文)、3-5个中文tags、sentiment(积极/中性/消极)。\n只返回JSON：{ "category": string, "tags": string[], "sentiment": string }`;
+  const system = [
+    imageBase64
+      ? `你是一个内容分析助手。\n任务：从用户输入的文本/图片中提取：category(中文)、3-5个中文tags、sentiment(积极/中性/消极)，并识别图片中的全部文字(ocrText)。\n只返回JSON：{ "category": string, "tags": string[], "sentiment": string, "ocrText": string }`
+      : `你是一个内容分析助手。\n任务：从用户输入的文本/图片中提取：category(中文)、3-5个中文tags、sentiment(积极/中性/消极)。\n只返回JSON：{ "category": string, "tags": string[], "sentiment": string }`,
+    vocabularyPrompt(options.vocabulary),
+  ].filter(Boolean).join('\n');
 
   const parts: ChatMessageContentPart[] = [];
   if (imageBase64) {
@@ -60,54 +187,57 @@ export const analyzeNoteContent = async (text: string, imageBase64?: string): Pr
   }
   if (text) parts.push({ type: 'text', text });
 
-  const reply = await chatCompletion([
+  const result = await generateStructured<NoteAnalysis>('analyze', [
     { role: 'system', content: system },
     { role: 'user', content: parts.length > 0 ? parts : '无内容' }
-  ], { model: MODEL_ANALYZE, temperature: 0 });
+  ], imageBase64 ? IMAGE_ANALYSIS_SCHEMA : ANALYSIS_SCHEMA, { temperature: 0, cache: options.refresh ? { refresh: true } : true });
 
-  const fallback = { category: '常规', tags: ['人工复核'], sentiment: '中性' };
-  return safeJSON(reply, fallback);
+  if (result.ok === false) {
+    console.warn('[analyzeNoteContent] 分析失败:', result.kind, result.kind === 'invalid' ? result.issues : result.message);
+  }
+  return result;
 };
 
 /** 生成简短标题 */
-export const generateStackTitle = async (notes: Note[]): Promise<string> => {
-  if (!notes.length) return '未命名卡片组';
+export const generateStackTitle = async (notes: Note[]): Promise<PlatoResult<string>> => {
+  if (!notes.length) return { ok: true, data: '未命名卡片组' };
   const contentSummary = notes.slice(0, 5).map(n => n.content).join('\n');
   const system = '你是标题生成器。规则：输出一个不超过10个字的中文标题，不要标点。只返回标题本身。';
-  const reply = await chatCompletion([
+  const result = await routeChat('title', [
     { role: 'system', content: system },
     { role: 'user', content: contentSummary }
-  ], { model: MODEL_TITLE, temperature: 0.5 });
-  return (reply || '新的笔记组').replace(/[\s\n]+/g, '').slice(0, 20);
+  ], { temperature: 0.5 });
+  if (result.ok === false) {
+    console.warn('[generateStackTitle] 标题生成失败:', result.kind, result.message);
+    return result;
+  }
+  const title = result.data.replace(/[\s\n]+/g, '').slice(0, 20);
+  return title ? { ok: true, data: title } : { ok: false, kind: 'empty', message: 'AI 没有返回标题' };
 };
 
 /** 判定栈类别 */
-export const determineStackCategory = async (notes: Note[]): Promise<StackCategory> => {
-  if (!notes.length) return StackCategory.GENERAL;
+export const determineStackCategory = async (notes: Note[]): Promise<PlatoResult<StackCategory>> => {
+  if (!notes.length) return { ok: true, data: StackCategory.GENERAL };
   const contentSummary = notes.map(n => n.content).join('\n---\n');
   const system = '请将内容归类到 TECH / LIFE / WISDOM / GENERAL 之一。只返回类别英文单词。';
-  const reply = (await chatCompletion([
+  const result = await routeChat('category', [
     { role: 'system', content: system },
     { role: 'user', content: contentSummary }
-  ], { model: MODEL_CATEGORY, temperature: 0 })).toUpperCase();
+  ], { temperature: 0, cache: true });
+  if (result.ok === false) {
+    console.warn('[determineStackCategory] 分类失败:', result.kind, result.message);
+    return result;
+  }
 
-  if (reply.includes('TECH')) return StackCategory.TECH;
-  if (reply.includes('LIFE')) return StackCategory.LIFE;
-  if (reply.includes('WISDOM')) return StackCategory.WISDOM;
-  return StackCategory.GENERAL;
+  const reply = result.data.toUpperCase();
+  const category = [StackCategory.TECH, StackCategory.LIFE, StackCategory.WISDOM].find(c => reply.includes(c)) ?? StackCategory.GENERAL;
+  return { ok: true, data: category };
 };
 
-/** 生成长文洞察（复用 Antigravity 规则与分类策略） */
-export const generateInsights = async (notes: Note[], platform: InsightPlatform, category: StackCategory = StackCategory.GENERAL): Promise<string> => {
-  if (!notes.length) return '没有可用的笔记进行分析。';
-
-  // Flatten stacks -> notes
-  const allNotes: Note[] = [];
-  notes.forEach(n => {
-    if (n.type === NoteType.STACK && n.stackItems) allNotes.push(...n.stackItems); else allNotes.push(n);
-  });
-
-  const notesContext = buildNotesContext(allNotes);
+/** 组装长文洞察的 messages（复用 Antigravity 规则与分类策略），供普通与流式调用共用 */
+function buildInsightsMessages(notes: Note[], platform: InsightPlatform, category: StackCategory): ChatMessage[] {
+  // Flatten stacks (including sub-stacks) -> ordered fragments
+  const notesContext = buildNotesContext(notes);
 
   const ANTIGRAVITY_LAYOUT_RULES = `
 # 核心目标：多模态图文策展
@@ -144,35 +274,92 @@ export const generateInsights = async (notes: Note[], platform: InsightPlatform,
     }
   }
 
-  const user = `Input Data (User Notes):\n${notesContext}`;
-  const reply = await chatCompletion([
+  const user = `Input Data (User Notes):\n${FRAGMENT_ORDER_RULE}\n\n${notesContext}`;
+  return [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: user }
-  ], { model: MODEL_INSIGHTS, temperature: 0.7 });
+  ];
+}
+
+/**
+ * 生成长文洞察（复用 Antigravity 规则与分类策略）。失败时返回错误结果，调用方不得保存。
+ * 结果附带 trace，保存洞察时应一并记录实际使用的模型与回退情况。
+ */
+export const generateInsights = async (notes: Note[], platform: InsightPlatform, category: StackCategory = StackCategory.GENERAL): Promise<RoutedResult<string>> => {
+  if (!notes.length) {
+    return { ok: false, kind: 'empty', message: '没有可用的笔记进行分析。', trace: { useCase: 'insights', model: '', provider: '', fallbacks: [] } };
+  }
 
-  return reply || '无法生成洞察。';
+  return routeChat('insights', buildInsightsMessages(notes, platform, category), { temperature: 0.7 });
 };
 
+/**
+ * 流式生成长文洞察：逐段产出增量文本，调用方自行拼接渲染。
+ * 传入 signal 可中途取消；失败时抛出 PlatoRequestError。
+ */
+export async function* streamInsights(notes: Note[], platform: InsightPlatform, category: StackCategory = StackCategory.GENERAL, options: StreamInsightsOptions = {}): AsyncGenerator<string, void, undefined> {
+  if (!notes.length) {
+    throw new PlatoRequestError({ kind: 'empty', message: '没有可用的笔记进行分析。' });
+  }
+
+  yield* routeChatStream('insights', buildInsightsMessages(notes, platform, category), { temperature: 0.7, timeout_ms: 60000, ...options });
+}
+
+/** 生图结果只关心成功的 URL；失败记录日志后返回 undefined，由 UI 展示“配图失败” */
+function imageUrlOrUndefined(result: PlatoResult<string>, label: string): string | undefined {
+  if (result.ok === false) {
+    console.error(`[${label}] 生图失败:`, result.kind, result.message);
+    return undefined;
+  }
+  return result.data;
+}
+
 /** 社交配图（先生成英文提示词，再走生图模型） */
 export const generateSocialImage = async (contextText: string): Promise<string | undefined> => {
-  const promptGen = await chatCompletion([
+  const promptGen = await routeChat('image_prompt', [
     { role: 'system', content: 'You write concise image prompts in English only.' },
     { role: 'user', content: `Based on this content: "${contextText.substring(0, 500)}...", create a minimalist, abstract, digital brutalism style image prompt.` }
-  ], { model: MODEL_TITLE, temperature: 0.7 });
+  ], { temperature: 0.7 });
 
-  const img = await imagesGenerate(promptGen || 'abstract architectural composition, minimalist black and white', { model: IMAGE_MODEL, size: '1024x1024' });
-  return img;
+  const imagePrompt = promptGen.ok ? promptGen.data : 'abstract architectural composition, minimalist black and white';
+  const img = await imagesGenerate(imagePrompt, { model: IMAGE_MODEL, size: '1024x1024', useCase: 'social_image' });
+  return imageUrlOrUndefined(img, 'generateSocialImage');
 };
 
 /** 文中配图 */
 export const generateInContextImage = async (prompt: string): Promise<string | undefined> => {
   const styleSuffix = ', minimalist vector art, high contrast, black and white';
-  return imagesGenerate(prompt + styleSuffix, { model: IMAGE_MODEL, size: '1024x576' });
+  const img = await imagesGenerate(prompt + styleSuffix, { model: IMAGE_MODEL, size: '1024x576', useCase: 'inline_image' });
+  return imageUrlOrUndefined(img, 'generateInContextImage');
 };
 
 /** 封面图 */
 export const generateCoverImage = async (title: string): Promise<string | undefined> => {
   const coverPrompt = `Create a visually striking, minimalist cover image for a blog post titled "${title}". Style: Digital Brutalism, black and white, high contrast, architectural.`;
-  return imagesGenerate(coverPrompt, { model: IMAGE_MODEL, size: '1024x576' });
+  const img = await imagesGenerate(coverPrompt, { model: IMAGE_MODEL, size: '1024x576', useCase: 'cover_image' });
+  return imageUrlOrUndefined(img, 'generateCoverImage');
+};
+
+/** 笔记向量，用于相关笔记与分组建议 */
+export const embedTexts = async (texts: string[]): Promise<number[][] | undefined> => {
+  const result = await embeddings(texts, { model: EMBEDDING_MODEL, dimensions: EMBEDDING_DIMENSIONS, useCase: 'embedding' });
+  if (result.ok === false) {
+    console.error('[embedTexts] 向量计算失败:', result.kind, result.message);
+    return undefined;
+  }
+  return result.data;
 };
 
+/** 默认服务商：经服务端代理调用 Plato，按 modelRouter 的回退链选模型 */
+export const platoProvider: AIProvider = {
+  analyzeNoteContent,
+  generateStackTitle,
+  determineStackCategory,
+  generateInsights,
+  streamInsights,
+  generateSocialImage,
+  generateInContextImage,
+  generateCoverImage,
+  embeddingModel: EMBEDDING_MODEL,
+  embedTexts,
+};
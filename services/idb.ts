@@ -0,0 +1,44 @@
+/**
+ * IndexedDB 的最小 Promise 封装，供本地缓存等模块共用。
+ */
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/** 打开（并按需升级）数据库；同名数据库在页面生命周期内只打开一次 */
+export function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+  let connection = connections.get(name);
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // 打开失败时允许下次重试
+    connection.catch(() => connections.delete(name));
+    connections.set(name, connection);
+  }
+  return connection;
+}
+
+/** 在单个 object store 上执行一次请求 */
+export async function withStore<T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const tx = db.transaction(storeName, mode);
+  return promisifyRequest(run(tx.objectStore(storeName)));
+}
@@ -0,0 +1,461 @@
+/**
+ * 内存版仓储：与 Supabase 实现行为一致（同样经过行映射），但数据只存在于当前进程。
+ * 用于脱离 Supabase 测试组件与业务逻辑，也可作为离线演示的数据源。
+ * 写入后会同步通知订阅者，模拟 realtime 的回显。
+ */
+import { Note, NoteType, InsightHistoryItem } from '../types';
+import {
+  Repositories, NotesRepository, InsightsRepository, RevisionsRepository, TaxonomyRepository, SearchRepository, EmbeddingsRepository, ImagesRepository,
+  NoteRow, NoteRevisionRow, InsightRow, RowChange, TaxonomyEntry, NoteConflictError,
+  noteFromRow, noteToRow, insightFromRow, insightToRow, revisionFromRow, buildNoteTree, byNewest, renameTag,
+  searchesInsights, SEARCH_LIMIT, INSIGHT_SEARCH_LIMIT, SIMILAR_PAIRS_WINDOW,
+} from './repositories';
+import { parseSearchQuery, matchesSearch } from './searchText';
+
+export interface InMemorySeed {
+  notes?: NoteRow[];
+  insights?: InsightRow[];
+}
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+let idCounter = 0;
+const nextId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+/** 保证同一毫秒内的连续写入也得到递增的 updated_at */
+let lastStamp = 0;
+const nextStamp = () => {
+  lastStamp = Math.max(Date.now(), lastStamp + 1);
+  return new Date(lastStamp).toISOString();
+};
+
+const createEmitter = <T>() => {
+  const listeners = new Set<(change: RowChange<T>) => void>();
+  return {
+    emit: (change: RowChange<T>) => listeners.forEach(listener => listener(change)),
+    subscribe: (listener: (change: RowChange<T>) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+export function createInMemoryRepositories(userId = 'local-user', seed: InMemorySeed = {}): Repositories {
+  const noteRows = new Map<string, NoteRow>((seed.notes || []).map(row => [row.id, { ...row }]));
+  const insightRows = new Map<string, InsightRow>((seed.insights || []).map(row => [row.id, { ...row }]));
+  const revisionRows: NoteRevisionRow[] = [];
+  const embeddingRows = new Map<string, { embedding: number[]; model: string; sourceUpdatedAt: string }>();
+  const noteChanges = createEmitter<Note>();
+  const insightChanges = createEmitter<InsightHistoryItem>();
+
+  const saveNote = (row: NoteRow) => {
+    noteRows.set(row.id, row);
+    const note = noteFromRow(row);
+    noteChanges.emit({ type: 'upsert', record: note });
+    return note;
+  };
+
+  const saveInsight = (row: InsightRow) => {
+    insightRows.set(row.id, row);
+    const item = insightFromRow(row);
+    insightChanges.emit({ type: 'upsert', record: item });
+    return item;
+  };
+
+  const requireNote = (id: string): NoteRow => {
+    const row = noteRows.get(id);
+    if (!row) throw new Error(`Note not found: ${id}`);
+    return row;
+  };
+
+  const liveRows = () => [...noteRows.values()].filter(row => !row.deleted_at);
+  const trashedRows = () => [...noteRows.values()].filter(row => row.deleted_at);
+  const membersOf = (stackId: string, rows: NoteRow[]) => rows.filter(row => row.parent_stack_id === stackId);
+  /** 卡片组在 rows 中的全部后代（不含卡片组本身） */
+  const descendantsOf = (stackIds: string[], rows: NoteRow[]): NoteRow[] => {
+    const found: NoteRow[] = [];
+    const seen = new Set(stackIds);
+    let frontier = stackIds;
+    while (frontier.length) {
+      const level = rows.filter(row => frontier.includes(row.parent_stack_id) && !seen.has(row.id));
+      level.forEach(row => seen.add(row.id));
+      found.push(...level);
+      frontier = level.map(row => row.id);
+    }
+    return found;
+  };
+
+  /** 软删除与恢复对订阅者来说分别是删除与新增 */
+  const setDeletedAt = (ids: string[], deletedAt: string | null) => ids.forEach(id => {
+    const row = { ...requireNote(id), deleted_at: deletedAt, updated_at: nextStamp() };
+    noteRows.set(id, row);
+    noteChanges.emit(deletedAt ? { type: 'delete', id } : { type: 'upsert', record: noteFromRow(row) });
+  });
+
+  const notes: NotesRepository = {
+    async listPage({ cursor, limit }) {
+      const rows = liveRows()
+        .filter(row => !row.parent_stack_id)
+        .sort((a, b) => byNewest(a, b) || b.id.localeCompare(a.id))
+        .filter(row => !cursor || row.created_at < cursor.createdAt || (row.created_at === cursor.createdAt && row.id < cursor.id));
+      const page = rows.slice(0, limit).map(row => ({
+        ...noteFromRow(row),
+        stackItemCount: row.type === NoteType.STACK
+          ? membersOf(row.id, liveRows()).length
+          : undefined,
+      }));
+      const last = page[page.length - 1];
+      return {
+        notes: buildNoteTree(page),
+        nextCursor: rows.length > limit ? { createdAt: last.created_at, id: last.id } : null,
+      };
+    },
+
+    async listStackItems(stackIds) {
+      return descendantsOf(stackIds, liveRows())
+        .sort(byNewest)
+        .map(noteFromRow);
+    },
+
+    async count() {
+      return liveRows().filter(row => row.type !== NoteType.STACK).length;
+    },
+
+    async listByTag(tag) {
+      return liveRows()
+        .filter(row => row.analysis_tags?.includes(tag))
+        .sort(byNewest)
+        .map(noteFromRow);
+    },
+
+    async get(id) {
+      const row = noteRows.get(id);
+      return row && !row.deleted_at ? noteFromRow(row) : null;
+    },
+
+    async create(input, options = {}) {
+      const existing = options.id ? noteRows.get(options.id) : undefined;
+      if (existing) return saveNote({ ...existing, ...noteToRow(input), updated_at: nextStamp() });
+      const now = nextStamp();
+      const row: NoteRow = {
+        id: options.id || nextId('note'),
+        user_id: userId,
+        content: '',
+        image_url: null,
+        created_at: now,
+        type: input.type!,
+        analysis_category: null,
+        analysis_tags: null,
+        analysis_sentiment: null,
+        ocr_text: null,
+        title: null,
+        stack_category: null,
+        parent_stack_id: null,
+        position: null,
+        updated_at: now,
+        deleted_at: null,
+        ...noteToRow(input),
+      };
+      return saveNote(row);
+    },
+
+    async createStack(input, noteIds, options = {}) {
+      const stack = await notes.create({ type: NoteType.STACK, content: '', ...input }, options);
+      // 与数据库函数一致：不存在或已删除的笔记忽略
+      await notes.moveToStack(noteIds.filter(id => noteRows.get(id) && !noteRows.get(id).deleted_at), stack.id);
+      return stack;
+    },
+
+    async update(id, patch, options = {}) {
+      const existing = noteRows.get(id);
+      if (options.expectedUpdatedAt && existing?.updated_at !== options.expectedUpdatedAt) {
+        throw new NoteConflictError(existing ? noteFromRow(existing) : null);
+      }
+      const previous = requireNote(id);
+      const row = saveNote({ ...previous, ...noteToRow(patch), updated_at: nextStamp() });
+      // 与数据库触发器一致：内容变化时保存修改前的版本
+      if (row.content !== previous.content) {
+        revisionRows.push({
+          id: nextId('revision'),
+          note_id: id,
+          user_id: userId,
+          content: previous.content,
+          created_at: previous.updated_at,
+        });
+      }
+      return row;
+    },
+
+    async remove(id, { stackMode = 'dissolve' } = {}) {
+      const target = requireNote(id);
+      const memberIds = membersOf(id, liveRows()).map(row => row.id);
+      if (stackMode === 'dissolve') await notes.moveToStack(memberIds, target.parent_stack_id);
+      const ids = stackMode === 'cascade' ? [id, ...descendantsOf([id], liveRows()).map(row => row.id)] : [id];
+      setDeletedAt(ids, nextStamp());
+      return {
+        ids,
+        dissolved: stackMode === 'dissolve' && memberIds.length ? { stackId: id, noteIds: memberIds } : undefined,
+      };
+    },
+
+    async restore(ids) {
+      const rows = ids.map(id => noteRows.get(id)).filter(row => row?.deleted_at);
+      const memberIds = rows.flatMap(row => descendantsOf([row.id], trashedRows().filter(member => member.deleted_at === row.deleted_at))
+        .map(member => member.id));
+      const restoredIds = [...rows.map(row => row.id), ...memberIds];
+      setDeletedAt(restoredIds, null);
+
+      const orphans = restoredIds.filter(id => {
+        const parentId = noteRows.get(id).parent_stack_id;
+        return parentId && !restoredIds.includes(parentId) && (!noteRows.has(parentId) || !!noteRows.get(parentId).deleted_at);
+      });
+      await notes.moveToStack(orphans, null);
+      return restoredIds.map(id => noteFromRow(noteRows.get(id)));
+    },
+
+    async undoRemove(receipt) {
+      const restored = await notes.restore(receipt.ids);
+      if (!receipt.dissolved) return restored;
+      await notes.moveToStack(receipt.dissolved.noteIds, receipt.dissolved.stackId);
+      return [...restored, ...receipt.dissolved.noteIds.map(id => noteFromRow(requireNote(id)))];
+    },
+
+    async listTrash() {
+      const rows = trashedRows().sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+      return buildNoteTree(rows.map(noteFromRow), { orphansAsRoots: true });
+    },
+
+    async purge(ids) {
+      const targets = ids.filter(id => noteRows.get(id)?.deleted_at);
+      const members = descendantsOf(targets, trashedRows()).map(row => row.id);
+      [...members, ...targets].forEach(id => {
+        noteRows.delete(id);
+        embeddingRows.delete(id);
+      });
+    },
+
+    async moveToStack(noteIds, stackId) {
+      // 与数据库触发器一致：卡片组不能移入它自己或它的子卡片组
+      for (let ancestorId = stackId; ancestorId; ancestorId = noteRows.get(ancestorId)?.parent_stack_id) {
+        if (noteIds.includes(ancestorId)) throw new Error(`Stack cycle: ${ancestorId} cannot be moved into ${stackId}`);
+      }
+      noteIds.forEach(id => {
+        const row = requireNote(id);
+        // 与数据库触发器一致：换了卡片组就清除手动顺序
+        const position = row.parent_stack_id === stackId ? row.position : null;
+        saveNote({ ...row, parent_stack_id: stackId, position, updated_at: nextStamp() });
+      });
+    },
+
+    async reorderStack(stackId, orderedIds) {
+      orderedIds.forEach((id, index) => {
+        const row = noteRows.get(id);
+        if (!row || row.deleted_at || row.parent_stack_id !== stackId) return;
+        saveNote({ ...row, position: index, updated_at: nextStamp() });
+      });
+    },
+
+    subscribe: noteChanges.subscribe,
+  };
+
+  const insights: InsightsRepository = {
+    async list() {
+      return [...insightRows.values()].sort(byNewest).map(insightFromRow);
+    },
+
+    async create(input) {
+      const now = nextStamp();
+      const row: InsightRow = {
+        id: nextId('insight'),
+        user_id: userId,
+        content: '',
+        platform: input.platform,
+        category: null,
+        created_at: now,
+        generated_image_url: null,
+        related_notes: null,
+        stack_id: null,
+        model: null,
+        fallback_models: null,
+        updated_at: now,
+        ...insightToRow(input),
+      };
+      return saveInsight(row);
+    },
+
+    async update(id, patch) {
+      const existing = insightRows.get(id);
+      if (!existing) throw new Error(`Insight not found: ${id}`);
+      return saveInsight({ ...existing, ...insightToRow(patch), updated_at: nextStamp() });
+    },
+
+    subscribe: insightChanges.subscribe,
+  };
+
+  const revisions: RevisionsRepository = {
+    async list(noteId) {
+      return revisionRows
+        .filter(row => row.note_id === noteId)
+        .sort(byNewest)
+        .map(revisionFromRow);
+    },
+  };
+
+  /** 批量修改笔记行；回收站中的笔记只改数据不通知，与 realtime 的行为一致 */
+  const rewriteNotes = (match: (row: NoteRow) => boolean, patch: (row: NoteRow) => Partial<NoteRow>) => {
+    const matched = [...noteRows.values()].filter(match);
+    matched.forEach(row => {
+      const next = { ...row, ...patch(row), updated_at: nextStamp() };
+      if (row.deleted_at) noteRows.set(row.id, next);
+      else saveNote(next);
+    });
+    return matched.length;
+  };
+
+  const countBy = (values: string[]): TaxonomyEntry[] => {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    return [...counts]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  };
+
+  const taxonomy: TaxonomyRepository = {
+    async get() {
+      const rows = liveRows().filter(row => row.type !== NoteType.STACK);
+      return {
+        tags: countBy(rows.flatMap(row => row.analysis_tags || [])),
+        categories: countBy(rows.map(row => row.analysis_category).filter(Boolean)),
+      };
+    },
+
+    async renameTag(from, to) {
+      return rewriteNotes(
+        row => !!row.analysis_tags?.includes(from),
+        row => ({ analysis_tags: renameTag(row.analysis_tags!, from, to) })
+      );
+    },
+
+    async renameCategory(from, to) {
+      return rewriteNotes(row => row.analysis_category === from, () => ({ analysis_category: to }));
+    },
+  };
+
+  // 没有相关度，命中的按时间倒序
+  const search: SearchRepository = {
+    async search(query) {
+      const terms = parseSearchQuery(query.text);
+      const inRange = (createdAt: string) =>
+        (!query.from || createdAt >= query.from) && (!query.to || createdAt < query.to);
+
+      const notes = liveRows()
+        .filter(row =>
+          matchesSearch([row.content, row.ocr_text, (row.analysis_tags || []).join(' '), row.title].filter(Boolean).join('\n'), terms)
+          && (!query.categories?.length || query.categories.includes(row.analysis_category))
+          && (!query.sentiments?.length || query.sentiments.includes(row.analysis_sentiment))
+          && (!query.types?.length || query.types.includes(row.type))
+          && inRange(row.created_at))
+        .sort(byNewest)
+        .slice(0, SEARCH_LIMIT)
+        .map(noteFromRow);
+
+      const insights = searchesInsights(query)
+        ? [...insightRows.values()]
+          .filter(row => matchesSearch(row.content, terms) && inRange(row.created_at))
+          .sort(byNewest)
+          .slice(0, INSIGHT_SEARCH_LIMIT)
+          .map(insightFromRow)
+        : [];
+      return { notes, insights };
+    },
+  };
+
+  // 逐对计算余弦相似度，数据量小，不建索引
+  const embeddings: EmbeddingsRepository = {
+    async listStale(model, limit) {
+      return liveRows()
+        .filter(row => {
+          if (row.type === NoteType.STACK) return false;
+          if (!row.content && !row.ocr_text && !row.analysis_tags?.length) return false;
+          const entry = embeddingRows.get(row.id);
+          return !entry || entry.sourceUpdatedAt < row.updated_at || entry.model !== model;
+        })
+        .sort(byNewest)
+        .slice(0, limit)
+        .map(noteFromRow);
+    },
+
+    async upsert(entries, model) {
+      entries.forEach(entry => {
+        if (noteRows.has(entry.noteId)) {
+          embeddingRows.set(entry.noteId, { embedding: entry.embedding, model, sourceUpdatedAt: entry.sourceUpdatedAt });
+        }
+      });
+    },
+
+    async related(noteId, limit) {
+      const target = embeddingRows.get(noteId);
+      if (!target) return [];
+      return liveRows()
+        .filter(row => row.id !== noteId && embeddingRows.get(row.id)?.model === target.model)
+        .map(row => ({ note: noteFromRow(row), similarity: cosineSimilarity(target.embedding, embeddingRows.get(row.id)!.embedding) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit);
+    },
+
+    async similarPairs(minSimilarity, limit) {
+      const loose = liveRows()
+        .filter(row => !row.parent_stack_id && row.type !== NoteType.STACK && embeddingRows.has(row.id))
+        .sort(byNewest)
+        .slice(0, SIMILAR_PAIRS_WINDOW);
+      const pairs: Array<{ a: string; b: string; similarity: number }> = [];
+      loose.forEach((rowA, i) => loose.slice(i + 1).forEach(rowB => {
+        const a = embeddingRows.get(rowA.id)!;
+        const b = embeddingRows.get(rowB.id)!;
+        if (a.model !== b.model) return;
+        const similarity = cosineSimilarity(a.embedding, b.embedding);
+        if (similarity < minSimilarity) return;
+        const [first, second] = rowA.id < rowB.id ? [rowA.id, rowB.id] : [rowB.id, rowA.id];
+        pairs.push({ a: first, b: second, similarity });
+      }));
+      return pairs.sort((x, y) => y.similarity - x.similarity).slice(0, limit);
+    },
+  };
+
+  // 图片只保存在内存里，返回 object URL
+  const images: ImagesRepository = {
+    async upload(_path, image) {
+      return URL.createObjectURL(image);
+    },
+  };
+
+  return { notes, insights, revisions, taxonomy, search, embeddings, images };
+}
+
+/** 由前端的 Note 生成种子行（补齐默认值），方便用现成数据初始化内存仓储 */
+export const toNoteSeed = (note: Note, userId = 'local-user'): NoteRow => ({
+  id: note.id,
+  user_id: userId,
+  content: note.content,
+  image_url: note.image_url ?? null,
+  created_at: note.created_at,
+  type: note.type,
+  analysis_category: note.analysis_category ?? null,
+  analysis_tags: note.analysis_tags ?? null,
+  analysis_sentiment: note.analysis_sentiment ?? null,
+  ocr_text: note.ocr_text ?? null,
+  title: note.title ?? null,
+  stack_category: note.stack_category ?? null,
+  parent_stack_id: note.parent_stack_id ?? null,
+  position: note.position ?? null,
+  updated_at: note.updated_at ?? note.created_at,
+  deleted_at: note.deleted_at ?? null,
+});
@@ -0,0 +1,82 @@
+/**
+ * 离线模拟服务商：经 aiProvider 按 VITE_AI_PROVIDER 选中后，相同输入总是得到相同输出。
+ */
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Note, NoteType, InsightPlatform, StackCategory } from '../types';
+import {
+  analyzeNoteContent, determineStackCategory, generateInsights, generateStackTitle, getActiveAIProviderId, getAIProvider, streamInsights,
+} from './aiProvider';
+
+vi.mock('./supabaseClient', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null } }) } },
+}));
+
+const note = (id: string, content: string, extra: Partial<Note> = {}): Note => ({
+  id, content, created_at: '2026-10-19T00:00:00.000Z', type: NoteType.TEXT, ...extra,
+});
+
+beforeAll(() => {
+  vi.stubEnv('VITE_AI_PROVIDER', 'mock');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('mock provider via aiProvider', () => {
+  it('is selected by VITE_AI_PROVIDER', async () => {
+    expect(getActiveAIProviderId()).toBe('mock');
+    expect((await getAIProvider()).embeddingModel).toBe('mock');
+  });
+
+  it('analyzes notes deterministically', async () => {
+    const first = await analyzeNoteContent('今天周末去喝咖啡');
+    const second = await analyzeNoteContent('今天周末去喝咖啡');
+    expect(first).toEqual(second);
+    expect(first).toMatchObject({ ok: true, data: { category: '生活' } });
+    if (first.ok) {
+      expect(first.data.tags).toHaveLength(new Set(first.data.tags).size);
+      expect(['积极', '中性', '消极']).toContain(first.data.sentiment);
+    }
+  });
+
+  it('reuses the vocabulary and tags images', async () => {
+    const result = await analyzeNoteContent('一张截图', 'data:image/png;base64,AAAA', { vocabulary: { categories: [], tags: ['已有标签'] } });
+    expect(result).toMatchObject({ ok: true, data: { tags: ['图片', '已有标签'] } });
+  });
+
+  it('titles and categorizes stacks from their notes', async () => {
+    const notes = [note('a', '修复 React 组件的 bug'), note('b', '重构接口')];
+    expect(await generateStackTitle(notes)).toEqual({ ok: true, data: '修复React组' });
+    expect(await determineStackCategory(notes)).toEqual({ ok: true, data: StackCategory.TECH });
+  });
+
+  it('streams the same article that generateInsights returns', async () => {
+    const notes = [
+      note('s', '', { type: NoteType.STACK, title: '子分组', stackItems: [note('c', '第二条', { analysis_tags: ['复盘'] })] }),
+      note('d', '第一条'),
+    ];
+    const full = await generateInsights(notes, InsightPlatform.NEWSLETTER, StackCategory.WISDOM);
+    expect(full.ok).toBe(true);
+
+    const onRoute = vi.fn();
+    let streamed = '';
+    for await (const delta of streamInsights(notes, InsightPlatform.NEWSLETTER, StackCategory.WISDOM, { onRoute })) streamed += delta;
+
+    expect(full.ok && streamed).toBe(full.ok && full.data);
+    expect(streamed).toContain('模拟洞察：WISDOM');
+    expect(streamed).toContain('> 标签：复盘');
+    expect(streamed).toContain('**共 2 条笔记**');
+    expect(onRoute).toHaveBeenCalledWith(expect.objectContaining({ model: 'mock' }));
+  });
+
+  it('embeds text into stable unit vectors where similar text lands closer', async () => {
+    const provider = await getAIProvider();
+    const [a, b, c] = await provider.embedTexts(['学习 TypeScript 泛型', '学习 TypeScript 类型', '周末去爬山']);
+    const dot = (x: number[], y: number[]) => x.reduce((sum, v, i) => sum + v * y[i], 0);
+
+    expect(dot(a, a)).toBeCloseTo(1);
+    expect(dot(a, b)).toBeGreaterThan(dot(a, c));
+    expect(await provider.embedTexts(['学习 TypeScript 泛型'])).toEqual([a]);
+  });
+});
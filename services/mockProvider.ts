@@ -0,0 +1,144 @@
+/**
+ * 离线模拟服务商：不发网络请求，相同输入永远得到相同输出。
+ * 用于本地开发（VITE_AI_PROVIDER=mock）与测试，结果只求结构正确，不求内容有意义。
+ */
+import { Note, InsightPlatform, StackCategory } from '../types';
+import { PlatoRequestError, PlatoResult } from './platoClient';
+import { RoutedResult, RouteTrace } from './modelRouter';
+import { AIProvider, AnalyzeOptions, EMBEDDING_DIMENSIONS, NoteAnalysis, StreamInsightsOptions, flattenStackNotes } from './aiProvider';
+
+const MOCK_TRACE: RouteTrace = { useCase: 'insights', model: 'mock', provider: 'mock', fallbacks: [] };
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_DELAY_MS = 15;
+
+/** FNV-1a，作为确定性“随机”的种子 */
+const hash = (input: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const pick = <T>(items: T[], seed: number): T => items[seed % items.length];
+
+// 关键词规则，命中即归类；都未命中时按哈希挑选
+const CATEGORY_RULES: Array<[pattern: RegExp, category: string, stack: StackCategory]> = [
+  [/代码|函数|接口|bug|react|typescript|api|sql|```/i, '技术', StackCategory.TECH],
+  [/读书|思考|模型|认知|哲学|芒格/i, '阅读', StackCategory.WISDOM],
+  [/今天|周末|旅行|咖啡|吃|心情/i, '生活', StackCategory.LIFE],
+];
+
+const TAG_POOL = ['灵感', '复盘', '待办', '学习', '方法论', '效率', '观察', '记录'];
+
+export const analyzeNoteContent = async (text: string, imageBase64?: string, options: AnalyzeOptions = {}): Promise<PlatoResult<NoteAnalysis>> => {
+  const source = `${text}${imageBase64 ? '[image]' : ''}`;
+  if (!source) return { ok: true, data: { category: '未分类', tags: ['待处理'], sentiment: '中性' } };
+
+  const seed = hash(source);
+  const rule = CATEGORY_RULES.find(([pattern]) => pattern.test(text));
+  // 与真实实现一样优先沿用已有标签
+  const pool = options.vocabulary?.tags.length ? options.vocabulary.tags : TAG_POOL;
+  const tags = [0, 1, 2].map(i => pick(pool, seed + i * 3));
+  return {
+    ok: true,
+    data: {
+      category: rule ? rule[1] : pick(['常规', '工作', '想法'], seed),
+      tags: Array.from(new Set(imageBase64 ? ['图片', ...tags] : tags)),
+      sentiment: pick(['积极', '中性', '消极'], seed >> 3),
+    },
+  };
+};
+
+export const generateStackTitle = async (notes: Note[]): Promise<PlatoResult<string>> => {
+  if (!notes.length) return { ok: true, data: '未命名卡片组' };
+  const first = notes[0].content.replace(/[\s\p{P}]+/gu, '').slice(0, 8);
+  return { ok: true, data: first || '新的笔记组' };
+};
+
+export const determineStackCategory = async (notes: Note[]): Promise<PlatoResult<StackCategory>> => {
+  const text = notes.map(n => n.content).join('\n');
+  return { ok: true, data: CATEGORY_RULES.find(([pattern]) => pattern.test(text))?.[2] ?? StackCategory.GENERAL };
+};
+
+const buildArticle = (notes: Note[], platform: InsightPlatform, category: StackCategory): string => {
+  const items = flattenStackNotes(notes);
+  const title = platform === InsightPlatform.SOCIAL_MEDIA ? '🔸 模拟短文案' : `模拟洞察：${category}`;
+  const sections = items.map((note, i) => [
+    `## ${i + 1}. ${note.content.split('\n')[0].slice(0, 20) || '无标题'}`,
+    '',
+    note.content,
+    '',
+    `> 标签：${(note.analysis_tags || []).join('、') || '无'}`,
+  ].join('\n'));
+  return [`# ${title}`, ...sections, `**共 ${items.length} 条笔记**（离线模拟生成）`].join('\n\n');
+};
+
+export const generateInsights = async (notes: Note[], platform: InsightPlatform, category: StackCategory = StackCategory.GENERAL): Promise<RoutedResult<string>> => {
+  if (!notes.length) {
+    return { ok: false, kind: 'empty', message: '没有可用的笔记进行分析。', trace: MOCK_TRACE };
+  }
+  return { ok: true, data: buildArticle(notes, platform, category), trace: MOCK_TRACE };
+};
+
+/** 按固定大小分片输出，带少量延迟以便观察流式 UI */
+export async function* streamInsights(notes: Note[], platform: InsightPlatform, category: StackCategory = StackCategory.GENERAL, options: StreamInsightsOptions = {}): AsyncGenerator<string, void, undefined> {
+  if (!notes.length) {
+    throw new PlatoRequestError({ kind: 'empty', message: '没有可用的笔记进行分析。' });
+  }
+  options.onRoute?.(MOCK_TRACE);
+
+  const article = buildArticle(notes, platform, category);
+  for (let i = 0; i < article.length; i += STREAM_CHUNK_SIZE) {
+    if (options.signal?.aborted) return;
+    await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+    yield article.slice(i, i + STREAM_CHUNK_SIZE);
+  }
+}
+
+/** 生成带文字的纯色 SVG 占位图（data URL），颜色由内容决定 */
+const placeholderImage = (label: string, width: number, height: number): string => {
+  const hue = hash(label) % 360;
+  const text = label.slice(0, 24).replace(/[<>&"]/g, '');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+    + `<rect width="100%" height="100%" fill="hsl(${hue},40%,85%)"/>`
+    + `<text x="50%" y="50%" font-family="sans-serif" font-size="${Math.round(height / 12)}" fill="hsl(${hue},40%,30%)" text-anchor="middle" dominant-baseline="middle">${text}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+export const generateSocialImage = async (contextText: string): Promise<string | undefined> =>
+  placeholderImage(contextText || 'social', 1024, 1024);
+
+export const generateInContextImage = async (prompt: string): Promise<string | undefined> =>
+  placeholderImage(prompt || 'image', 1024, 576);
+
+export const generateCoverImage = async (title: string): Promise<string | undefined> =>
+  placeholderImage(title || 'cover', 1024, 576);
+
+/** 按字符二元组哈希出的向量：字面相近的笔记得到相近的向量 */
+const embedText = (text: string): number[] => {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const chars = Array.from(text.toLowerCase().replace(/\s+/g, ' '));
+  chars.forEach((char, i) => {
+    vector[hash(char + (chars[i + 1] || '')) % EMBEDDING_DIMENSIONS] += 1;
+  });
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+};
+
+export const embedTexts = async (texts: string[]): Promise<number[][] | undefined> => texts.map(embedText);
+
+export const mockProvider: AIProvider = {
+  analyzeNoteContent,
+  generateStackTitle,
+  determineStackCategory,
+  generateInsights,
+  streamInsights,
+  generateSocialImage,
+  generateInContextImage,
+  generateCoverImage,
+  embeddingModel: 'mock',
+  embedTexts,
+};
@@ -0,0 +1,154 @@
+/**
+ * 模型回退链：哪些失败会换下一个模型、回退链用尽时返回什么、流式输出开始后不再回退。
+ * chatCompletion / chatCompletionStream 替换为按模型名返回预设结果的桩服务商。
+ */
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { chatCompletion, chatCompletionStream, PlatoError, PlatoRequestError, PlatoResult } from './platoClient';
+import { routeChat, routeChatStream, RouteTrace, setModelRoutes } from './modelRouter';
+
+vi.mock('./supabaseClient', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null } }) } },
+}));
+
+vi.mock('./platoClient', async importOriginal => ({
+  ...(await importOriginal<typeof import('./platoClient')>()),
+  chatCompletion: vi.fn(),
+  chatCompletionStream: vi.fn(),
+}));
+
+const mockedChat = vi.mocked(chatCompletion);
+const mockedStream = vi.mocked(chatCompletionStream);
+
+/** 每个模型的预设结果：失败或成功的文本 */
+let outcomes: Record<string, PlatoError | string>;
+/** 流式：每个模型先输出的分片，以及之后是否失败 */
+let streams: Record<string, { chunks: string[]; error?: PlatoError }>;
+
+const CHAIN = ['first', 'second', 'third'];
+
+beforeEach(() => {
+  setModelRoutes('title', CHAIN.map(model => ({ provider: 'stub', model })));
+  mockedChat.mockReset();
+  mockedChat.mockImplementation(async (_messages, options) => {
+    const outcome = outcomes[options.model];
+    return (typeof outcome === 'string' ? { ok: true, data: outcome } : { ok: false, ...outcome }) as PlatoResult<string>;
+  });
+  mockedStream.mockReset();
+  mockedStream.mockImplementation(async function* (_messages, options) {
+    const { chunks, error } = streams[options.model];
+    yield* chunks;
+    if (error) throw new PlatoRequestError(error);
+  });
+});
+
+const ask = () => routeChat('title', [{ role: 'user', content: 'hi' }]);
+const calledModels = () => mockedChat.mock.calls.map(([, options]) => options.model);
+
+describe('routeChat', () => {
+  it.each<[string, PlatoError]>([
+    ['timeout', { kind: 'timeout', message: 'slow' }],
+    ['network', { kind: 'network', message: 'offline' }],
+    ['rate_limited', { kind: 'rate_limited', status: 429, message: 'busy' }],
+    ['empty', { kind: 'empty', message: 'nothing' }],
+    ['5xx', { kind: 'http', status: 503, message: 'down' }],
+    ['404', { kind: 'http', status: 404, message: 'unknown model' }],
+  ])('falls back to the next model on %s', async (_label, error) => {
+    outcomes = { first: error, second: 'ok from second' };
+    const result = await ask();
+
+    expect(result).toMatchObject({ ok: true, data: 'ok from second' });
+    expect(result.trace).toEqual<RouteTrace>({
+      useCase: 'title',
+      model: 'second',
+      provider: 'stub',
+      fallbacks: [{ provider: 'stub', model: 'first', kind: error.kind, message: error.message }],
+    });
+    expect(calledModels()).toEqual(['first', 'second']);
+  });
+
+  it.each<[string, PlatoError]>([
+    ['4xx', { kind: 'http', status: 400, message: 'bad request' }],
+    ['aborted', { kind: 'aborted', message: 'cancelled' }],
+    ['config', { kind: 'config', message: 'no key' }],
+    ['invalid', { kind: 'invalid', issues: ['$.x 缺失'], message: 'invalid' }],
+  ])('returns %s immediately without falling back', async (_label, error) => {
+    outcomes = { first: error, second: 'unused' };
+    const result = await ask();
+
+    expect(result).toMatchObject({ ok: false, kind: error.kind });
+    expect(result.trace.fallbacks).toEqual([]);
+    expect(calledModels()).toEqual(['first']);
+  });
+
+  it('returns the last failure once the chain is exhausted', async () => {
+    outcomes = {
+      first: { kind: 'timeout', message: 'slow' },
+      second: { kind: 'network', message: 'offline' },
+      third: { kind: 'http', status: 502, message: 'bad gateway' },
+    };
+    const result = await ask();
+
+    expect(result).toMatchObject({ ok: false, kind: 'http', status: 502 });
+    expect(result.trace.model).toBe('third');
+    expect(result.trace.fallbacks.map(f => f.model)).toEqual(['first', 'second']);
+    expect(calledModels()).toEqual(CHAIN);
+  });
+
+  it('stops at the first success', async () => {
+    outcomes = { first: 'ok from first', second: 'unused' };
+    const result = await ask();
+
+    expect(result).toMatchObject({ ok: true, data: 'ok from first', trace: { model: 'first', fallbacks: [] } });
+    expect(calledModels()).toEqual(['first']);
+  });
+});
+
+describe('routeChatStream', () => {
+  const collect = async (onRoute?: (trace: RouteTrace) => void) => {
+    const chunks: string[] = [];
+    for await (const delta of routeChatStream('title', [{ role: 'user', content: 'hi' }], { onRoute })) chunks.push(delta);
+    return chunks;
+  };
+
+  it('falls back before any output and reports the model that answered', async () => {
+    streams = {
+      first: { chunks: [], error: { kind: 'http', status: 500, message: 'boom' } },
+      second: { chunks: ['a', 'b'] },
+    };
+    const onRoute = vi.fn();
+
+    expect(await collect(onRoute)).toEqual(['a', 'b']);
+    expect(onRoute).toHaveBeenCalledTimes(1);
+    expect(onRoute.mock.calls[0][0]).toMatchObject({ model: 'second', fallbacks: [{ model: 'first', kind: 'http' }] });
+  });
+
+  it('does not fall back once output has started', async () => {
+    streams = {
+      first: { chunks: ['partial'], error: { kind: 'network', message: 'dropped' } },
+      second: { chunks: ['unused'] },
+    };
+    const received: string[] = [];
+    const run = async () => {
+      for await (const delta of routeChatStream('title', [{ role: 'user', content: 'hi' }])) received.push(delta);
+    };
+
+    await expect(run()).rejects.toBeInstanceOf(PlatoRequestError);
+    expect(received).toEqual(['partial']);
+    expect(mockedStream).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws non-fallback errors and the last error when the chain is exhausted', async () => {
+    streams = { first: { chunks: [], error: { kind: 'http', status: 401, message: 'unauthorized' } }, second: { chunks: ['unused'] } };
+    await expect(collect()).rejects.toMatchObject({ error: { kind: 'http', status: 401 } });
+    expect(mockedStream).toHaveBeenCalledTimes(1);
+
+    mockedStream.mockClear();
+    streams = {
+      first: { chunks: [], error: { kind: 'timeout', message: 'slow' } },
+      second: { chunks: [], error: { kind: 'timeout', message: 'slow' } },
+      third: { chunks: [], error: { kind: 'empty', message: 'nothing' } },
+    };
+    await expect(collect()).rejects.toMatchObject({ error: { kind: 'empty' } });
+    expect(mockedStream).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * 模型路由：按用例登记有序的“服务商 + 模型”回退链。
+ * 首选模型超时、限流、5xx 或断网时自动切换到下一个，并记录实际使用的模型与回退过程。
+ * 注意：这里同样不写提示词，只负责“用哪个模型”。
+ */
+import {
+  chatCompletion,
+  chatCompletionStream,
+  ChatMessage,
+  ChatOptions,
+  DEFAULT_PROVIDER,
+  ModelRegistry,
+  PlatoError,
+  PlatoRequestError,
+  PlatoResult,
+} from './platoClient';
+
+export type UseCase = 'analyze' | 'title' | 'category' | 'insights' | 'image_prompt';
+
+export interface ModelRoute {
+  provider: string;
+  model: string;
+}
+
+/** 一次路由调用的记录：最终使用的模型，以及之前失败而被跳过的模型 */
+export interface RouteTrace {
+  useCase: UseCase;
+  model: string;
+  provider: string;
+  fallbacks: Array<ModelRoute & { kind: PlatoError['kind']; message: string }>;
+}
+
+export type RoutedResult<T> = PlatoResult<T> & { trace: RouteTrace };
+
+const plato = (model: string): ModelRoute => ({ provider: DEFAULT_PROVIDER, model });
+
+// 用例级回退链：第一个为首选，与旧实现的固定模型保持一致
+const routes: Record<UseCase, ModelRoute[]> = {
+  analyze: [plato('gemini-2.5-flash'), plato(ModelRegistry.CLAUDE)],
+  title: [plato('gemini-2.5-flash'), plato(ModelRegistry.CLAUDE)],
+  category: [plato('gemini-2.5-flash'), plato(ModelRegistry.CLAUDE)],
+  insights: [plato('gemini-3-pro-preview'), plato('gemini-2.5-pro'), plato(ModelRegistry.CLAUDE)],
+  image_prompt: [plato('gemini-2.5-flash'), plato(ModelRegistry.CLAUDE)],
+};
+
+export function getModelRoutes(useCase: UseCase): ModelRoute[] {
+  return routes[useCase];
+}
+
+/** 运行时替换某个用例的回退链（例如设置页或测试中） */
+export function setModelRoutes(useCase: UseCase, chain: ModelRoute[]): void {
+  if (!chain.length) throw new Error(`模型路由 ${useCase} 至少需要一个模型`);
+  routes[useCase] = chain;
+}
+
+/** 只有“换个模型可能就好”的失败才回退；配置错误、主动取消、4xx 请求错误直接返回 */
+function shouldFallback(error: PlatoError): boolean {
+  switch (error.kind) {
+    case 'timeout':
+    case 'network':
+    case 'rate_limited':
+    case 'empty':
+      return true;
+    case 'http':
+      return error.status >= 500 || error.status === 404;
+    default:
+      return false;
+  }
+}
+
+type RoutedChatOptions = Omit<ChatOptions, 'model' | 'provider' | 'useCase'>;
+
+/** 按回退链依次调用 chatCompletion，直到成功或遇到不可回退的失败 */
+export async function routeChat(useCase: UseCase, messages: ChatMessage[], options: RoutedChatOptions = {}): Promise<RoutedResult<string>> {
+  const chain = routes[useCase];
+  const trace: RouteTrace = { useCase, model: chain[0].model, provider: chain[0].provider, fallbacks: [] };
+  let result: PlatoResult<string> = { ok: false, kind: 'config', message: `模型路由 ${useCase} 为空` };
+
+  for (let i = 0; i < chain.length; i++) {
+    const route = chain[i];
+    trace.model = route.model;
+    trace.provider = route.provider;
+
+    result = await chatCompletion(messages, { ...options, model: route.model, provider: route.provider, useCase });
+    if (result.ok === false && shouldFallback(result) && i < chain.length - 1) {
+      console.warn(`[modelRouter] ${useCase}: ${route.model} 失败（${result.kind}），回退到 ${chain[i + 1].model}`);
+      trace.fallbacks.push({ ...route, kind: result.kind, message: result.message });
+      continue;
+    }
+    break;
+  }
+
+  return { ...result, trace };
+}
+
+/**
+ * 流式版本：只在尚未产出任何内容前回退，避免把两个模型的输出拼在一起。
+ * onRoute 在开始输出前回调，告知最终使用的模型。
+ */
+export async function* routeChatStream(
+  useCase: UseCase,
+  messages: ChatMessage[],
+  options: RoutedChatOptions & { onRoute?: (trace: RouteTrace) => void } = {},
+): AsyncGenerator<string, void, undefined> {
+  const { onRoute, ...chatOptions } = options;
+  const chain = routes[useCase];
+  const trace: RouteTrace = { useCase, model: chain[0].model, provider: chain[0].provider, fallbacks: [] };
+
+  for (let i = 0; i < chain.length; i++) {
+    const route = chain[i];
+    trace.model = route.model;
+    trace.provider = route.provider;
+
+    let started = false;
+    try {
+      for await (const delta of chatCompletionStream(messages, { ...chatOptions, model: route.model, provider: route.provider, useCase })) {
+        if (!started) {
+          started = true;
+          onRoute?.(trace);
+        }
+        yield delta;
+      }
+      if (!started) onRoute?.(trace);
+      return;
+    } catch (err) {
+      if (started || !(err instanceof PlatoRequestError) || !shouldFallback(err.error) || i === chain.length - 1) {
+        throw err;
+      }
+      console.warn(`[modelRouter] ${useCase}: ${route.model} 失败（${err.error.kind}），回退到 ${chain[i + 1].model}`);
+      trace.fallbacks.push({ ...route, kind: err.error.kind, message: err.error.message });
+    }
+  }
+}
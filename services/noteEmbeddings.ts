@@ -0,0 +1,117 @@
+/**
+ * 笔记向量的后台补算：找出没有向量或向量已过期（笔记之后被修改、换了向量模型）的笔记，分批计算并写回。
+ * 一批写满就紧接着处理下一批，直到没有剩余；失败按指数退避重试（恢复联网时立即重试）。笔记有变化时调用 wake 重新检查。
+ */
+import { Note } from '../types';
+import { getAIProvider } from './aiProvider';
+import { Repositories, SimilarPair } from './repositories';
+
+export interface EmbeddingSync {
+  wake(): void;
+  stop(): void;
+}
+
+const BATCH_SIZE = 16;
+const MAX_TEXT_LENGTH = 2000;
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+/** 参与向量计算的文字：正文、图片文字与标签 */
+export const embeddingText = (note: Note): string =>
+  [note.content, note.ocr_text, note.analysis_tags?.length ? note.analysis_tags.map(tag => `#${tag}`).join(' ') : '']
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_TEXT_LENGTH);
+
+/** 处理一批，返回写入的条数 */
+async function embedBatch(repositories: Repositories): Promise<number> {
+  const provider = await getAIProvider();
+  const stale = await repositories.embeddings.listStale(provider.embeddingModel, BATCH_SIZE);
+  if (stale.length === 0) return 0;
+  const vectors = await provider.embedTexts(stale.map(embeddingText));
+  if (!vectors) throw new Error('向量计算失败');
+  await repositories.embeddings.upsert(
+    stale.map((note, i) => ({ noteId: note.id, embedding: vectors[i], sourceUpdatedAt: note.updated_at ?? note.created_at })),
+    provider.embeddingModel
+  );
+  return stale.length;
+}
+
+/**
+ * 开始后台补算；onEmbedded 在每批写入后调用，便于刷新相关笔记与分组建议。
+ * 同一时间只有一个批次在跑，运行中收到的 wake 会在本轮结束后再检查一次。
+ */
+export function startEmbeddingSync(repositories: Repositories, onEmbedded?: () => void): EmbeddingSync {
+  let stopped = false;
+  let running = false;
+  let rerun = false;
+  let failures = 0;
+  let retryAt = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  /** force：恢复联网时不必等退避到期 */
+  async function run(force = false) {
+    if (stopped || (!force && Date.now() < retryAt)) return;
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+    clearTimeout(timer);
+    try {
+      if (typeof navigator === 'undefined' || navigator.onLine !== false) {
+        let processed = BATCH_SIZE;
+        while (processed === BATCH_SIZE && !stopped) {
+          processed = await embedBatch(repositories);
+          failures = 0;
+          retryAt = 0;
+          if (processed > 0 && !stopped) onEmbedded?.();
+        }
+      }
+    } catch (error: any) {
+      failures += 1;
+      const delay = Math.min(BASE_DELAY_MS * 2 ** (failures - 1), MAX_DELAY_MS);
+      retryAt = Date.now() + delay;
+      console.warn(`Embedding sync failed (attempt ${failures}):`, error?.message || error);
+      if (!stopped) timer = setTimeout(() => run(true), delay);
+    } finally {
+      running = false;
+      if (rerun) {
+        rerun = false;
+        run();
+      }
+    }
+  }
+
+  const handleOnline = () => run(true);
+  if (typeof window !== 'undefined') window.addEventListener('online', handleOnline);
+  run();
+
+  return {
+    wake: () => { run(); },
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+      if (typeof window !== 'undefined') window.removeEventListener('online', handleOnline);
+    },
+  };
+}
+
+/**
+ * 把相似笔记对合并成分组建议：按相似度从高到低连接，合并后超过 maxSize 的不连，避免链式串起一大片。
+ * 只考虑 eligibleIds 中的笔记（例如已加载、仍在主列表的），按组内最高相似度排序。
+ */
+export function groupSimilarNotes(pairs: SimilarPair[], eligibleIds: Set<string>, maxSize = 6): string[][] {
+  const groupOf = new Map<string, string[]>();
+  const score = new Map<string[], number>();
+  [...pairs].sort((x, y) => y.similarity - x.similarity).forEach(({ a, b, similarity }) => {
+    if (!eligibleIds.has(a) || !eligibleIds.has(b)) return;
+    const groupA = groupOf.get(a) ?? [a];
+    const groupB = groupOf.get(b) ?? [b];
+    if (groupA === groupB || groupA.length + groupB.length > maxSize) return;
+    const merged = [...groupA, ...groupB];
+    merged.forEach(id => groupOf.set(id, merged));
+    score.set(merged, Math.max(score.get(groupA) ?? 0, score.get(groupB) ?? 0, similarity));
+  });
+  return [...new Set(groupOf.values())].sort((x, y) => (score.get(y) ?? 0) - (score.get(x) ?? 0));
+}
@@ -0,0 +1,153 @@
+/**
+ * platoClient 的重试与超时：对本地 http 服务发真实请求，逐个场景检查 fetchWithRetry 的行为。
+ */
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { chatCompletion, computeBackoffDelay, DEFAULT_RETRY_POLICY, parseRetryAfter, registerProvider, RetryPolicy } from './platoClient';
+
+// 测试服务商使用固定 apiKey，不需要 Supabase 会话
+vi.mock('./supabaseClient', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null } }) } },
+}));
+
+type Responder = (res: http.ServerResponse, attempt: number) => void;
+
+let server: http.Server;
+let respond: Responder;
+let requestTimes: number[];
+
+const reply = (res: http.ServerResponse, status: number, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(status === 200
+    ? { choices: [{ message: { role: 'assistant', content: 'pong' } }] }
+    : { error: { message: `status ${status}` } }));
+};
+
+// 退避时间缩到毫秒级，只有 Retry-After 会带来明显的等待
+const fastPolicy: Partial<RetryPolicy> = { baseDelayMs: 10, maxDelayMs: 5000, jitter: 0, attemptTimeoutMs: 2000 };
+
+const ask = (retry: Partial<RetryPolicy> = {}, signal?: AbortSignal) =>
+  chatCompletion([{ role: 'user', content: 'ping' }], { provider: 'test', retry: { ...fastPolicy, ...retry }, signal });
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      requestTimes.push(Date.now());
+      respond(res, requestTimes.length);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  registerProvider('test', { baseUrl: `http://127.0.0.1:${port}/`, apiKey: 'test-key' });
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requestTimes = [];
+});
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('parses an HTTP date relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:03 GMT', now)).toBe(3000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing or malformed values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  it('doubles per retry up to maxDelayMs', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 300, jitter: 0 };
+    expect([1, 2, 3, 4].map(retry => computeBackoffDelay(retry, policy))).toEqual([100, 200, 300, 300]);
+  });
+
+  it('applies jitter below the exponential delay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, jitter: 0.5 };
+    expect(computeBackoffDelay(1, policy, () => 0)).toBe(500);
+    expect(computeBackoffDelay(1, policy, () => 1)).toBe(1000);
+  });
+});
+
+describe('fetchWithRetry', () => {
+  it('waits for Retry-After seconds on 429 before retrying', async () => {
+    respond = (res, attempt) => (attempt === 1 ? reply(res, 429, { 'Retry-After': '1' }) : reply(res, 200));
+    const result = await ask();
+    expect(result).toEqual({ ok: true, data: 'pong' });
+    expect(requestTimes).toHaveLength(2);
+    expect(requestTimes[1] - requestTimes[0]).toBeGreaterThanOrEqual(950);
+  });
+
+  it('waits until a Retry-After HTTP date on 429', async () => {
+    // HTTP 日期只精确到秒，两秒后的日期实际等待在 1~2 秒之间
+    respond = (res, attempt) => (attempt === 1
+      ? reply(res, 429, { 'Retry-After': new Date(Date.now() + 2000).toUTCString() })
+      : reply(res, 200));
+    const result = await ask();
+    expect(result.ok).toBe(true);
+    expect(requestTimes).toHaveLength(2);
+    expect(requestTimes[1] - requestTimes[0]).toBeGreaterThanOrEqual(900);
+  });
+
+  it('gives up when Retry-After exceeds maxDelayMs and reports it', async () => {
+    respond = res => reply(res, 429, { 'Retry-After': '60' });
+    const result = await ask();
+    expect(result).toMatchObject({ ok: false, kind: 'rate_limited', status: 429, retryAfterMs: 60000 });
+    expect(requestTimes).toHaveLength(1);
+  });
+
+  it('retries a 5xx and returns the later success', async () => {
+    respond = (res, attempt) => reply(res, attempt < 3 ? 503 : 200);
+    const result = await ask();
+    expect(result).toEqual({ ok: true, data: 'pong' });
+    expect(requestTimes).toHaveLength(3);
+  });
+
+  it('does not retry a 4xx', async () => {
+    respond = res => reply(res, 400);
+    const result = await ask();
+    expect(result).toMatchObject({ ok: false, kind: 'http', status: 400 });
+    expect(requestTimes).toHaveLength(1);
+  });
+
+  it('times out a hanging attempt and retries', async () => {
+    respond = (res, attempt) => { if (attempt > 1) reply(res, 200); };
+    const result = await ask({ attemptTimeoutMs: 200 });
+    expect(result).toEqual({ ok: true, data: 'pong' });
+    expect(requestTimes).toHaveLength(2);
+  });
+
+  it('reports a timeout once attempts run out', async () => {
+    respond = () => {};
+    const startedAt = Date.now();
+    const result = await ask({ attemptTimeoutMs: 200, maxAttempts: 2 });
+    expect(result).toMatchObject({ ok: false, kind: 'timeout' });
+    expect(requestTimes).toHaveLength(2);
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+  });
+
+  it('stops immediately when the caller aborts during backoff', async () => {
+    respond = res => reply(res, 503, { 'Retry-After': '3' });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    const startedAt = Date.now();
+    const result = await ask({}, controller.signal);
+    expect(result).toMatchObject({ ok: false, kind: 'aborted' });
+    expect(requestTimes).toHaveLength(1);
+    expect(Date.now() - startedAt).toBeLessThan(1500);
+  });
+});
@@ -2,6 +2,8 @@
 /**
  * 注意：本客户端仅做“调用封装”，不包含任何具体业务提示词。
  */
+import { supabase } from './supabaseClient';
+import { CacheOptions, cacheKey, readCache, writeCache } from './aiCache';
 
 export type ChatRole = 'system' | 'user' | 'assistant';
 export type ChatMessageContentPart =
@@ -11,11 +13,64 @@ export type ChatMessageContent = string | ChatMessageContentPart[];
 export interface ChatMessage { role: ChatRole; content: ChatMessageContent }
 
 export interface ChatOptions {
+  provider?: string; // 服务商 ID，默认 plato
   model?: string;
   temperature?: number;
   max_tokens?: number;
-  timeout_ms?: number; // 请求超时
+  timeout_ms?: number; // 单次请求超时（等同于 retry.attemptTimeoutMs）
   extraHeaders?: Record<string, string>; // 额外头（可选）
+  signal?: AbortSignal; // 调用方取消请求
+  retry?: Partial<RetryPolicy>; // 覆盖默认重试策略
+  useCase?: string; // 用量统计的用例标签（analyze / insights 等）
+  cache?: boolean | CacheOptions; // 仅 chatCompletion：相同请求直接复用缓存结果（适合 temperature 为 0 的确定性调用）
+  response_format?: ResponseFormat; // 约束输出为 JSON（结构化输出见 geminiService.generateStructured）
+}
+
+/** OpenAI 兼容的 response_format；json_schema 需要模型支持 */
+export type ResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; schema: object; strict?: boolean } };
+
+/**
+ * 调用失败的分类。所有接口都以 PlatoResult 返回，调用方必须先判断 ok，
+ * 避免把错误信息当作正文保存。
+ */
+export type PlatoError =
+  | { kind: 'config'; message: string }                                   // 未配置 Key / BaseURL
+  | { kind: 'http'; status: number; message: string }                     // 非 2xx 响应
+  | { kind: 'rate_limited'; status: 429; retryAfterMs?: number; message: string } // 429 且重试用尽
+  | { kind: 'timeout'; message: string }                                  // 超过 timeout_ms
+  | { kind: 'aborted'; message: string }                                  // 调用方主动取消
+  | { kind: 'network'; message: string }                                  // fetch 失败（断网、CORS 等）
+  | { kind: 'empty'; message: string }                                    // 响应中没有可用内容
+  | { kind: 'invalid'; issues: string[]; message: string };               // 结构化输出未通过校验
+
+// 注意：项目未开启 strict，`!result.ok` 无法收窄类型，判断失败请写 `result.ok === false`
+export type PlatoResult<T> = { ok: true; data: T } | ({ ok: false } & PlatoError);
+
+/** 流式接口无法返回 PlatoResult，失败时抛出携带同样分类信息的异常 */
+export class PlatoRequestError extends Error {
+  readonly error: PlatoError;
+
+  constructor(error: PlatoError) {
+    super(error.message);
+    this.name = 'PlatoRequestError';
+    this.error = error;
+  }
+}
+
+/** 把失败结果转成面向用户的中文提示 */
+export function describePlatoError(error: PlatoError): string {
+  switch (error.kind) {
+    case 'config': return `AI 服务未配置：${error.message}`;
+    case 'rate_limited': return 'AI 服务请求过于频繁，请稍后再试';
+    case 'timeout': return 'AI 服务响应超时，请重试';
+    case 'aborted': return '请求已取消';
+    case 'invalid': return `AI 返回的内容格式不正确（${error.issues.slice(0, 3).join('；')}），请重试`;
+    case 'network': return 'AI 服务连接失败，请检查网络';
+    case 'empty': return error.message || 'AI 没有返回内容';
+    case 'http': return `AI 服务出错（HTTP ${error.status}）`;
+  }
 }
 
 // 模型注册：不要在这里写提示词，只登记可用的模型名
@@ -27,47 +82,228 @@ export const ModelRegistry = {
   // GPT_4O_MINI: 'gpt-4o-mini',
 } as const;
 
-const BASE_URL = import.meta.env.VITE_PLATO_BASE_URL || '/api'; // All requests are now routed through our own backend via proxy
-const API_KEY = import.meta.env.VITE_PLATO_API_KEY || '';
+// 所有请求都发往同源的服务端代理（api/plato.ts / Vite 开发中间件），由代理注入服务商 Key
+const PROXY_BASE_URL = '/api/';
+
+/**
+ * 用量上报：每次请求结束（成功或失败）后广播一次，便于统计 token 与成本。
+ * 本客户端不关心存到哪里，订阅方见 usageTracker。配置错误和主动取消不会上报。
+ */
+export interface UsageEvent {
+  endpoint: 'chat' | 'image' | 'embedding';
+  useCase?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  latencyMs: number;
+  ok: boolean;
+}
+
+type OpenAIUsage = { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+
+const usageListeners = new Set<(event: UsageEvent) => void>();
 
-if (!BASE_URL) {
-  // 仅控制台提示，避免在构建时中断
-  console.warn('[PlatoClient] 未配置 VITE_PLATO_BASE_URL，将导致请求失败。');
+/** 订阅用量事件，返回取消订阅函数 */
+export function onUsage(listener: (event: UsageEvent) => void): () => void {
+  usageListeners.add(listener);
+  return () => { usageListeners.delete(listener); };
 }
-if (!API_KEY) {
-  console.warn('[PlatoClient] 未配置 VITE_PLATO_API_KEY，将导致请求失败。');
+
+function emitUsage(event: UsageEvent): void {
+  usageListeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error('[PlatoClient] usage listener error', err);
+    }
+  });
 }
 
 /**
- * 带重试的基础请求封装（处理 429/5xx）。
+ * 服务商注册：每个服务商是一个 OpenAI 兼容的 baseUrl + 凭证。
+ * 默认的 plato 走服务端代理，凭证是当前用户的 Supabase access token，浏览器不持有服务商 Key；
+ * 其余可在启动时通过 registerProvider 追加，供模型路由回退使用。
  */
-async function postWithRetry<T>(url: string, body: any, headers: Record<string,string>, timeoutMs = 30000, maxRetries = 2): Promise<T> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
+export interface ProviderConfig {
+  baseUrl: string;
+  apiKey?: string;                                        // 固定 Bearer 凭证
+  getAccessToken?: () => Promise<string | null | undefined>; // 每次请求时动态获取的 Bearer 凭证
+}
 
-  try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(body),
-      signal: controller.signal,
-    });
+export const DEFAULT_PROVIDER = 'plato';
 
-    if (res.ok) {
-      return await res.json() as T;
-    }
+const providers: Record<string, ProviderConfig> = {
+  [DEFAULT_PROVIDER]: {
+    baseUrl: PROXY_BASE_URL,
+    getAccessToken: async () => (await supabase.auth.getSession()).data.session?.access_token,
+  },
+};
 
-    // 对 429 或 5xx 做指数退避重试
-    if ((res.status === 429 || (res.status >= 500 && res.status < 600)) && maxRetries > 0) {
-      const retryAfter = Number(res.headers.get('retry-after')) || 1000;
-      await new Promise(r => setTimeout(r, retryAfter));
-      return postWithRetry<T>(url, body, headers, timeoutMs, maxRetries - 1);
+export function registerProvider(id: string, config: ProviderConfig): void {
+  providers[id] = config;
+}
+
+/** 解析服务商并生成鉴权头 */
+async function resolveProvider(id: string = DEFAULT_PROVIDER): Promise<PlatoResult<{ baseUrl: string; headers: Record<string, string> }>> {
+  const provider = providers[id];
+  if (!provider) return { ok: false, kind: 'config', message: `未注册的服务商：${id}` };
+  if (!provider.baseUrl) return { ok: false, kind: 'config', message: `服务商 ${id} 缺少 baseUrl` };
+
+  const token = provider.apiKey || await provider.getAccessToken?.().catch(() => null);
+  if (!token) {
+    return { ok: false, kind: 'config', message: id === DEFAULT_PROVIDER ? '登录已过期，请重新登录后再试' : `服务商 ${id} 缺少凭证` };
+  }
+  return { ok: true, data: { baseUrl: provider.baseUrl, headers: { 'Authorization': `Bearer ${token}` } } };
+}
+
+/**
+ * 重试策略：每次调用可通过 ChatOptions.retry / ImageOptions.retry 局部覆盖。
+ * 退避时间 = min(maxDelayMs, baseDelayMs * 2^(第几次重试-1))，再乘以 jitter 抖动；
+ * 服务端给出 Retry-After 时以其为准（超过 maxDelayMs 则不再重试）。
+ */
+export interface RetryPolicy {
+  maxAttempts: number;            // 总尝试次数（含首次），1 表示不重试
+  baseDelayMs: number;            // 首次重试前的基础等待
+  maxDelayMs: number;             // 单次等待上限
+  jitter: number;                 // 0~1，0 为固定退避，1 为 full jitter
+  attemptTimeoutMs: number;       // 单次尝试超时（每次重试重新计时）
+  retryableStatuses: number[];    // 可重试的 HTTP 状态码
+  retryOnNetworkError: boolean;   // fetch 抛错（断网、连接重置）或单次超时时是否重试
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  jitter: 0.5,
+  attemptTimeoutMs: 30000,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+};
+
+/** 合并调用方的局部策略；timeout_ms 作为 attemptTimeoutMs 的简写保留 */
+function resolveRetryPolicy(overrides: Partial<RetryPolicy> | undefined, timeoutMs: number | undefined, defaultTimeoutMs: number): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    attemptTimeoutMs: timeoutMs ?? defaultTimeoutMs,
+    ...(overrides || {}),
+  };
+}
+
+/**
+ * 解析 Retry-After 头，返回毫秒。
+ * 按 HTTP 规范其值为秒数（delta-seconds）或 HTTP 日期；无法解析时返回 undefined。
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/** 计算第 retry 次重试（从 1 开始）前的等待时间 */
+export function computeBackoffDelay(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(exponential * (1 - jitter + jitter * random()));
+}
+
+/** 可被 signal 打断的等待；被打断时返回 false */
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve(false);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 带重试的 POST：成功时返回 2xx 的 Response（body 尚未读取），
+ * 失败时归类为 PlatoError，不抛异常。
+ * 每次尝试使用独立的 AbortController，外部 signal 会一直转发到最终返回的响应上，
+ * 以便流式读取过程中也能取消。
+ */
+async function fetchWithRetry(url: string, body: any, headers: Record<string,string>, policy: RetryPolicy, signal?: AbortSignal): Promise<PlatoResult<Response>> {
+  const aborted: PlatoResult<Response> = { ok: false, kind: 'aborted', message: '请求已取消' };
+  let lastError: PlatoError = { kind: 'network', message: '请求未发出' };
+
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    if (signal?.aborted) return aborted;
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(), policy.attemptTimeoutMs);
+
+    let retryAfterMs: number | undefined;
+    let retryable = false;
+
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (res.ok) {
+        return { ok: true, data: res };
+      }
+
+      signal?.removeEventListener('abort', onAbort);
+      const text = await res.text().catch(() => '');
+      const message = `HTTP ${res.status} ${res.statusText}: ${text}`;
+      retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+      retryable = policy.retryableStatuses.includes(res.status);
+      lastError = res.status === 429
+        ? { kind: 'rate_limited', status: 429, retryAfterMs, message }
+        : { kind: 'http', status: res.status, message };
+    } catch (err: any) {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) return aborted;
+      lastError = err?.name === 'AbortError'
+        ? { kind: 'timeout', message: `请求超时（${policy.attemptTimeoutMs}ms）` }
+        : { kind: 'network', message: err?.message || String(err) };
+      retryable = policy.retryOnNetworkError;
+    } finally {
+      clearTimeout(timer);
     }
 
-    const text = await res.text().catch(() => '');
-    throw new Error(`HTTP ${res.status} ${res.statusText}: ${text}`);
-  } finally {
-    clearTimeout(timer);
+    if (!retryable || attempt >= policy.maxAttempts) break;
+
+    // 服务端要求的等待超出上限时直接放弃，把 retryAfterMs 交给调用方
+    if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) break;
+
+    const delay = retryAfterMs ?? computeBackoffDelay(attempt, policy);
+    if (!(await sleep(delay, signal))) return aborted;
+  }
+
+  return { ok: false, ...lastError };
+}
+
+/** 带重试的 JSON 请求封装 */
+async function postWithRetry<T>(url: string, body: any, headers: Record<string,string>, policy: RetryPolicy, signal?: AbortSignal): Promise<PlatoResult<T>> {
+  const result = await fetchWithRetry(url, body, headers, policy, signal);
+  if (result.ok === false) return result;
+
+  try {
+    return { ok: true, data: await result.data.json() as T };
+  } catch (err: any) {
+    if (signal?.aborted) return { ok: false, kind: 'aborted', message: '请求已取消' };
+    return { ok: false, kind: 'network', message: `响应解析失败：${err?.message || String(err)}` };
   }
 }
 
@@ -75,16 +311,27 @@ async function postWithRetry<T>(url: string, body: any, headers: Record<string,s
  * 通用聊天接口（非流式）。
  * - messages: 按 OpenAI 格式传入
  * - options.model 不传则使用环境变量或默认模型
+ * - options.cache 开启后按请求内容哈希读写缓存，见 aiCache
  */
-export async function chatCompletion(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
-  if (!API_KEY) {
-    return 'Plato 接口未配置：请设置 VITE_PLATO_API_KEY';
+export async function chatCompletion(messages: ChatMessage[], options: ChatOptions = {}): Promise<PlatoResult<string>> {
+  const model = options.model || ModelRegistry.DEFAULT;
+
+  // 命中缓存时不发请求，也不上报用量
+  const cache: CacheOptions | undefined = options.cache === true ? {} : options.cache || undefined;
+  const key = cache
+    ? await cacheKey({ provider: options.provider || DEFAULT_PROVIDER, model, messages, temperature: options.temperature ?? 0.7, max_tokens: options.max_tokens, response_format: options.response_format })
+    : undefined;
+  if (key && !cache.refresh) {
+    const cached = await readCache(key);
+    if (cached !== undefined) return { ok: true, data: cached };
   }
 
-  const model = options.model || ModelRegistry.DEFAULT;
-  const url = `${BASE_URL}chat/completions`;
+  const provider = await resolveProvider(options.provider);
+  if (provider.ok === false) return provider;
+
+  const url = `${provider.data.baseUrl}chat/completions`;
   const headers: Record<string,string> = {
-    'Authorization': `Bearer ${API_KEY}`,
+    ...provider.data.headers,
     'Content-Type': 'application/json',
     ...(options.extraHeaders || {}),
   };
@@ -94,59 +341,267 @@ export async function chatCompletion(messages: ChatMessage[], options: ChatOptio
     messages,
     temperature: options.temperature ?? 0.7,
     max_tokens: options.max_tokens,
+    response_format: options.response_format,
     // 可按需加入：top_p、frequency_penalty、presence_penalty 等
   };
 
   type OpenAIChatResponse = {
     choices?: Array<{ message?: { role: ChatRole; content: string } }>
-    usage?: any
+    usage?: OpenAIUsage
     error?: { message?: string }
   };
 
+  const startedAt = Date.now();
+  const policy = resolveRetryPolicy(options.retry, options.timeout_ms, 30000);
+  const result = await postWithRetry<OpenAIChatResponse>(url, payload, headers, policy, options.signal);
+  const usage = result.ok ? result.data?.usage : undefined;
+  if (!(result.ok === false && result.kind === 'aborted')) {
+    emitUsage({
+      endpoint: 'chat',
+      useCase: options.useCase,
+      provider: options.provider || DEFAULT_PROVIDER,
+      model,
+      promptTokens: usage?.prompt_tokens ?? 0,
+      completionTokens: usage?.completion_tokens ?? 0,
+      images: 0,
+      latencyMs: Date.now() - startedAt,
+      ok: result.ok,
+    });
+  }
+  if (result.ok === false) return result;
+
+  const text = result.data?.choices?.[0]?.message?.content || '';
+  if (!text) {
+    return { ok: false, kind: 'empty', message: result.data?.error?.message || '模型返回了空响应' };
+  }
+  if (key) {
+    await writeCache(key, text, { model, useCase: options.useCase, ttlMs: cache.ttlMs });
+  }
+  return { ok: true, data: text };
+}
+
+/**
+ * 流式聊天接口：解析 OpenAI 风格的 SSE `data:` 分片，逐段产出增量文本。
+ * - options.signal 可用于中途取消（取消后迭代静默结束）
+ * - options.timeout_ms 仅约束“等待首个响应头”的时间，流开始后不再计时
+ * - 建立连接阶段按重试策略重试；一旦开始输出就不再重试，避免重复内容
+ * - 失败时抛出 PlatoRequestError，由调用方决定如何展示
+ */
+export async function* chatCompletionStream(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<string, void, undefined> {
+  const provider = await resolveProvider(options.provider);
+  if (provider.ok === false) throw new PlatoRequestError(provider);
+
+  const model = options.model || ModelRegistry.DEFAULT;
+  const url = `${provider.data.baseUrl}chat/completions`;
+  const headers: Record<string,string> = {
+    ...provider.data.headers,
+    'Content-Type': 'application/json',
+    'Accept': 'text/event-stream',
+    ...(options.extraHeaders || {}),
+  };
+
+  const payload = {
+    model,
+    messages,
+    temperature: options.temperature ?? 0.7,
+    max_tokens: options.max_tokens,
+    stream: true,
+    stream_options: { include_usage: true }, // 最后一个分片携带 usage
+  };
+
+  type OpenAIChatChunk = {
+    choices?: Array<{ delta?: { content?: string }, finish_reason?: string | null }>
+    usage?: OpenAIUsage | null
+    error?: { message?: string }
+  };
+
+  const startedAt = Date.now();
+  let usage: OpenAIUsage | undefined;
+  let succeeded = false;
+  const reportUsage = () => emitUsage({
+    endpoint: 'chat',
+    useCase: options.useCase,
+    provider: options.provider || DEFAULT_PROVIDER,
+    model,
+    promptTokens: usage?.prompt_tokens ?? 0,
+    completionTokens: usage?.completion_tokens ?? 0,
+    images: 0,
+    latencyMs: Date.now() - startedAt,
+    ok: succeeded,
+  });
+
+  const policy = resolveRetryPolicy(options.retry, options.timeout_ms, 30000);
+  const connected = await fetchWithRetry(url, payload, headers, policy, options.signal);
+  if (connected.ok === false) {
+    // 调用方主动取消：静默结束迭代
+    if (connected.kind === 'aborted') return;
+    reportUsage();
+    throw new PlatoRequestError(connected);
+  }
+
+  const res = connected.data;
+  if (!res.body) {
+    throw new PlatoRequestError({ kind: 'empty', message: '响应不支持流式读取' });
+  }
+
   try {
-    const data = await postWithRetry<OpenAIChatResponse>(url, payload, headers, options.timeout_ms ?? 30000);
-    const text = data?.choices?.[0]?.message?.content || '';
-    return text || '（空响应）';
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE 以空行分隔事件，这里按行处理即可（只关心 data: 行）
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const data = trimmed.slice(5).trim();
+          if (!data) continue;
+          if (data === '[DONE]') {
+            succeeded = true;
+            return;
+          }
+
+          let chunk: OpenAIChatChunk;
+          try {
+            chunk = JSON.parse(data) as OpenAIChatChunk;
+          } catch {
+            continue; // 忽略无法解析的分片（心跳、注释等）
+          }
+          if (chunk.error) {
+            throw new PlatoRequestError({ kind: 'http', status: res.status, message: chunk.error.message || '流式响应错误' });
+          }
+          if (chunk.usage) usage = chunk.usage;
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+      succeeded = true;
+    } finally {
+      // 提前结束（break / return / 异常）时断开底层连接
+      await reader.cancel().catch(() => {});
+    }
   } catch (err: any) {
-    return `Plato 接口错误：${err?.message || String(err)}`;
+    // 调用方主动取消：静默结束迭代
+    if (options.signal?.aborted) return;
+    if (err instanceof PlatoRequestError) throw err;
+    throw new PlatoRequestError({ kind: 'network', message: err?.message || String(err) });
+  } finally {
+    // 中途取消也已产生费用，照常上报已知用量
+    reportUsage();
   }
 }
 
 /** Images generation via OpenAI-compatible endpoint */
 export interface ImageOptions {
+  provider?: string; // 服务商 ID，默认 plato
   model?: string; // default from env
   size?: string;  // e.g. '1024x1024', '1024x576'
   timeout_ms?: number;
+  signal?: AbortSignal;
+  retry?: Partial<RetryPolicy>;
+  useCase?: string; // 用量统计的用例标签
 }
 
-export async function imagesGenerate(prompt: string, opts: ImageOptions = {}): Promise<string | undefined> {
-  if (!BASE_URL || !API_KEY) return undefined;
+export async function imagesGenerate(prompt: string, opts: ImageOptions = {}): Promise<PlatoResult<string>> {
+  const provider = await resolveProvider(opts.provider);
+  if (provider.ok === false) return provider;
   const model = opts.model || (import.meta.env.VITE_PLATO_IMAGE_MODEL || 'nano-banana-2-2k');
-  const url = `${BASE_URL}images/generations`;
+  const url = `${provider.data.baseUrl}images/generations`;
   const headers: Record<string,string> = {
-    'Authorization': `Bearer ${API_KEY}`,
+    ...provider.data.headers,
     'Content-Type': 'application/json',
   };
   type OpenAIImageResp = { data?: Array<{ url?: string }> };
-  try {
-    const data = await postWithRetry<OpenAIImageResp>(url, {
+  const startedAt = Date.now();
+  const result = await postWithRetry<OpenAIImageResp>(url, {
+    model,
+    prompt,
+    size: opts.size || '1024x1024',
+    response_format: 'url'
+  }, headers, resolveRetryPolicy(opts.retry, opts.timeout_ms, 60000), opts.signal);
+  const imageUrl = result.ok ? result.data?.data?.[0]?.url : undefined;
+  if (!(result.ok === false && result.kind === 'aborted')) {
+    emitUsage({
+      endpoint: 'image',
+      useCase: opts.useCase,
+      provider: opts.provider || DEFAULT_PROVIDER,
       model,
-      prompt,
-      size: opts.size || '1024x1024',
-      response_format: 'url'
-    }, headers, opts.timeout_ms ?? 60000);
+      promptTokens: 0,
+      completionTokens: 0,
+      images: imageUrl ? 1 : 0,
+      latencyMs: Date.now() - startedAt,
+      ok: !!imageUrl,
+    });
+  }
+  if (result.ok === false) return result;
+
+  if (!imageUrl) return { ok: false, kind: 'empty', message: '生图接口未返回图片地址' };
+  return { ok: true, data: imageUrl };
+}
+
+/** Embeddings via OpenAI-compatible endpoint */
+export interface EmbeddingOptions {
+  provider?: string; // 服务商 ID，默认 plato
+  model?: string; // default from env
+  dimensions?: number; // 输出维度，需与数据库中的向量列一致
+  timeout_ms?: number;
+  signal?: AbortSignal;
+  retry?: Partial<RetryPolicy>;
+  useCase?: string; // 用量统计的用例标签
+}
+
+/** 批量计算文本向量，返回顺序与 input 一致 */
+export async function embeddings(input: string[], opts: EmbeddingOptions = {}): Promise<PlatoResult<number[][]>> {
+  const provider = await resolveProvider(opts.provider);
+  if (provider.ok === false) return provider;
+  const model = opts.model || (import.meta.env.VITE_PLATO_EMBEDDING_MODEL || 'text-embedding-3-small');
+  const url = `${provider.data.baseUrl}embeddings`;
+  const headers: Record<string,string> = {
+    ...provider.data.headers,
+    'Content-Type': 'application/json',
+  };
+  type OpenAIEmbeddingResp = { data?: Array<{ index?: number; embedding?: number[] }>; usage?: OpenAIUsage };
+  const startedAt = Date.now();
+  const result = await postWithRetry<OpenAIEmbeddingResp>(url, {
+    model,
+    input,
+    dimensions: opts.dimensions,
+    encoding_format: 'float',
+  }, headers, resolveRetryPolicy(opts.retry, opts.timeout_ms, 30000), opts.signal);
+  if (!(result.ok === false && result.kind === 'aborted')) {
+    emitUsage({
+      endpoint: 'embedding',
+      useCase: opts.useCase,
+      provider: opts.provider || DEFAULT_PROVIDER,
+      model,
+      promptTokens: result.ok ? result.data?.usage?.prompt_tokens ?? 0 : 0,
+      completionTokens: 0,
+      images: 0,
+      latencyMs: Date.now() - startedAt,
+      ok: result.ok,
+    });
+  }
+  if (result.ok === false) return result;
 
-    return data?.data?.[0]?.url;
-  } catch (e) {
-    console.error('[Plato imagesGenerate] error', e);
-    return undefined;
+  const items = [...(result.data?.data || [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  if (items.length !== input.length || items.some(item => !item.embedding?.length)) {
+    return { ok: false, kind: 'empty', message: '向量接口返回的结果数量不符' };
   }
+  return { ok: true, data: items.map(item => item.embedding!) };
 }
 
 /**
  * 便捷方法：快速调用某个指定模型。
  */
-export async function runModel(model: string, content: string, system?: string, opts?: Omit<ChatOptions,'model'>): Promise<string> {
+export async function runModel(model: string, content: string, system?: string, opts?: Omit<ChatOptions,'model'>): Promise<PlatoResult<string>> {
   const msgs: ChatMessage[] = [];
   if (system) msgs.push({ role: 'system', content: system });
   msgs.push({ role: 'user', content });
@@ -157,8 +612,9 @@ export async function runModel(model: string, content: string, system?: string,
  * 健康检查：在设置好环境变量后，可在控制台调用 testPlato() 验证联通性。
  */
 export async function testPlato(): Promise<void> {
-  const reply = await chatCompletion([{ role: 'user', content: 'ping' }], { temperature: 0 });
+  const result = await chatCompletion([{ role: 'user', content: 'ping' }], { temperature: 0 });
   // 仅打印，不抛异常
-  console.log('[Plato test] reply:', reply);
+  if (result.ok === false) console.warn('[Plato test] failed:', result.kind, result.message);
+  else console.log('[Plato test] reply:', result.data);
 }
 
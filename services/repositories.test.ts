@@ -0,0 +1,229 @@
+/**
+ * 数据访问层：行映射、笔记树的组装与远端变更合并，以及内存版仓储的卡片组、回收站与搜索行为。
+ */
+import { describe, expect, it, vi } from 'vitest';
+import { InsightPlatform, Note, NoteType, StackCategory } from '../types';
+import {
+  applyNoteChange, buildNoteTree, flattenNoteTree, InsightRow, insightFromRow, insightToRow, NoteConflictError, NoteRow, noteFromRow, noteToRow,
+  removeNoteFromTree, RowChange,
+} from './repositories';
+import { createInMemoryRepositories, toNoteSeed } from './inMemoryRepositories';
+
+vi.mock('./supabaseClient', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null } }) } },
+}));
+
+const row = (id: string, extra: Partial<NoteRow> = {}): NoteRow => ({
+  id,
+  user_id: 'u1',
+  content: `内容 ${id}`,
+  image_url: null,
+  created_at: '2026-10-01T00:00:00.000Z',
+  type: NoteType.TEXT,
+  analysis_category: null,
+  analysis_tags: null,
+  analysis_sentiment: null,
+  ocr_text: null,
+  title: null,
+  stack_category: null,
+  parent_stack_id: null,
+  position: null,
+  updated_at: '2026-10-01T00:00:00.000Z',
+  deleted_at: null,
+  ...extra,
+});
+
+const note = (id: string, extra: Partial<Note> = {}): Note => noteFromRow(row(id, extra as Partial<NoteRow>));
+const ids = (notes: Note[]) => notes.map(n => n.id);
+
+describe('row mappers', () => {
+  it('maps nulls to undefined and reads the embedded member count', () => {
+    const mapped = noteFromRow(row('a', { analysis_tags: ['react'], stack_items: [{ count: 3 }] }));
+    expect(mapped).toMatchObject({ id: 'a', content: '内容 a', analysis_tags: ['react'], parent_stack_id: null, position: null, stackItemCount: 3 });
+    expect(mapped.image_url).toBeUndefined();
+    expect(mapped.deleted_at).toBeUndefined();
+  });
+
+  it('writes only the fields that were given and stores empty strings as null', () => {
+    expect(noteToRow({ content: 'x', image_url: '', ocr_text: '' })).toEqual({ content: 'x', image_url: null, ocr_text: null });
+    expect(noteToRow({ parent_stack_id: null })).toEqual({ parent_stack_id: null });
+    expect(noteToRow({})).toEqual({});
+  });
+
+  it('round-trips insights', () => {
+    const insightRow: InsightRow = {
+      id: 'i1', user_id: 'u1', content: '文章', platform: InsightPlatform.NEWSLETTER, category: StackCategory.TECH,
+      created_at: '2026-10-01T00:00:00.000Z', generated_image_url: null, related_notes: null, stack_id: 's1',
+      model: 'm', fallback_models: ['f'], updated_at: '2026-10-01T00:00:00.000Z',
+    };
+    const item = insightFromRow(insightRow);
+    expect(item).toMatchObject({ createdAt: Date.parse(insightRow.created_at), stackId: 's1', fallbackModels: ['f'] });
+    expect(item.generatedImageUrl).toBeUndefined();
+    expect(insightToRow({ generatedImageUrl: '', stackId: '' })).toEqual({ generated_image_url: null, stack_id: null });
+  });
+
+  it('builds seed rows from notes', () => {
+    const seed = toNoteSeed({ id: 'a', content: 'x', created_at: '2026-10-01T00:00:00.000Z', type: NoteType.TEXT });
+    expect(seed).toMatchObject({ user_id: 'local-user', updated_at: '2026-10-01T00:00:00.000Z', parent_stack_id: null, deleted_at: null });
+  });
+});
+
+describe('buildNoteTree', () => {
+  const flat = [
+    note('s', { type: NoteType.STACK }),
+    note('b', { parent_stack_id: 's', position: 1 }),
+    note('a', { parent_stack_id: 's', position: 0 }),
+    note('c', { parent_stack_id: 's' }),
+    note('orphan', { parent_stack_id: 'missing' }),
+    note('top'),
+  ];
+
+  it('nests members under their stack, ordered by position with unordered members last', () => {
+    const tree = buildNoteTree(flat);
+    expect(ids(tree)).toEqual(['s', 'top']);
+    expect(ids(tree[0].stackItems)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('hides members of unloaded stacks unless orphans are shown as roots', () => {
+    expect(ids(buildNoteTree(flat, { orphansAsRoots: true }))).toEqual(['s', 'orphan', 'top']);
+  });
+
+  it('is undone by flattenNoteTree', () => {
+    expect(ids(flattenNoteTree(buildNoteTree(flat))).sort()).toEqual(['a', 'b', 'c', 's', 'top']);
+  });
+});
+
+describe('applyNoteChange', () => {
+  const tree = buildNoteTree([
+    { ...note('s', { type: NoteType.STACK, created_at: '2026-10-03T00:00:00.000Z' }), stackItemCount: 2 },
+    note('n', { created_at: '2026-10-02T00:00:00.000Z', updated_at: '2026-10-05T00:00:00.000Z' }),
+  ]);
+  const upsert = (record: Note): RowChange<Note> => ({ type: 'upsert', record });
+
+  it('ignores an echo that is older than the local copy', () => {
+    const stale = { ...tree[1], content: '旧内容', updated_at: '2026-10-04T00:00:00.000Z' };
+    expect(applyNoteChange(tree, upsert(stale))).toBe(tree);
+  });
+
+  it('applies a newer version', () => {
+    const newer = { ...tree[1], content: '新内容', updated_at: '2026-10-06T00:00:00.000Z' };
+    expect(applyNoteChange(tree, upsert(newer))[1].content).toBe('新内容');
+  });
+
+  it('moves a note into a stack whose members are not loaded by adjusting the count', () => {
+    const moved = applyNoteChange(tree, upsert({ ...tree[1], parent_stack_id: 's', updated_at: '2026-10-06T00:00:00.000Z' }));
+    expect(ids(moved)).toEqual(['s']);
+    expect(moved[0].stackItemCount).toBe(3);
+    expect(ids(moved[0].stackItems)).toEqual(['n']);
+  });
+
+  it('deletes notes and leaves the tree alone on resync or unknown ids', () => {
+    expect(ids(applyNoteChange(tree, { type: 'delete', id: 'n' }))).toEqual(['s']);
+    expect(applyNoteChange(tree, { type: 'delete', id: 'missing' })).toBe(tree);
+    expect(applyNoteChange(tree, { type: 'resync' })).toBe(tree);
+  });
+
+  it('dissolves a stack into its parent when removed from the tree', () => {
+    const nested = buildNoteTree([
+      note('outer', { type: NoteType.STACK }),
+      note('inner', { type: NoteType.STACK, parent_stack_id: 'outer' }),
+      note('m', { parent_stack_id: 'inner' }),
+    ]);
+    expect(ids(removeNoteFromTree(nested, 'inner')[0].stackItems)).toEqual(['m']);
+    expect(removeNoteFromTree(nested, 'inner', 'cascade')[0].stackItems).toEqual([]);
+  });
+});
+
+describe('createInMemoryRepositories', () => {
+  const seeded = () => createInMemoryRepositories('u1', {
+    notes: [
+      row('s', { type: NoteType.STACK, title: '组', created_at: '2026-10-03T00:00:00.000Z' }),
+      row('m1', { parent_stack_id: 's', created_at: '2026-10-02T00:00:00.000Z' }),
+      row('m2', { parent_stack_id: 's', created_at: '2026-10-01T00:00:00.000Z' }),
+      row('loose', { analysis_tags: ['react'], created_at: '2026-10-04T00:00:00.000Z' }),
+    ],
+  });
+
+  it('pages top-level notes with member counts', async () => {
+    const repos = seeded();
+    const first = await repos.notes.listPage({ limit: 1 });
+    expect(ids(first.notes)).toEqual(['loose']);
+    const second = await repos.notes.listPage({ cursor: first.nextCursor, limit: 5 });
+    expect(second.notes).toMatchObject([{ id: 's', stackItemCount: 2 }]);
+    expect(second.nextCursor).toBeNull();
+    expect(await repos.notes.count()).toBe(3);
+  });
+
+  it('creates a stack and moves live notes into it', async () => {
+    const repos = seeded();
+    const stack = await repos.notes.createStack({ title: '新组' }, ['loose', 'missing'], { id: 'new' });
+    expect(stack).toMatchObject({ id: 'new', type: NoteType.STACK, content: '' });
+    expect(ids(await repos.notes.listStackItems(['new']))).toEqual(['loose']);
+  });
+
+  it('rejects moves that would put a stack inside itself', async () => {
+    const repos = seeded();
+    await repos.notes.createStack({ title: '子组' }, ['m1'], { id: 'child' });
+    await repos.notes.moveToStack(['child'], 's');
+    await expect(repos.notes.moveToStack(['s'], 'child')).rejects.toThrow(/cycle/i);
+  });
+
+  it('dissolves a stack on remove and puts its members back on undo', async () => {
+    const repos = seeded();
+    const receipt = await repos.notes.remove('s');
+    expect(receipt).toEqual({ ids: ['s'], dissolved: { stackId: 's', noteIds: ['m1', 'm2'] } });
+    expect((await repos.notes.get('m1')).parent_stack_id).toBeNull();
+
+    await repos.notes.undoRemove(receipt);
+    expect(ids(await repos.notes.listStackItems(['s'])).sort()).toEqual(['m1', 'm2']);
+  });
+
+  it('restores a cascaded stack with its members and purges it with its subtree', async () => {
+    const repos = seeded();
+    await repos.notes.remove('s', { stackMode: 'cascade' });
+    expect(await repos.notes.get('m1')).toBeNull();
+    expect(ids(await repos.notes.listTrash())).toEqual(['s']);
+
+    expect(ids(await repos.notes.restore(['s'])).sort()).toEqual(['m1', 'm2', 's']);
+    await repos.notes.remove('s', { stackMode: 'cascade' });
+    await repos.notes.purge(['s']);
+    expect(await repos.notes.listTrash()).toEqual([]);
+  });
+
+  it('moves a restored member to the top level when its stack is still in the trash', async () => {
+    const repos = seeded();
+    await repos.notes.remove('m1');
+    await repos.notes.remove('s', { stackMode: 'cascade' });
+    const [restored] = await repos.notes.restore(['m1']);
+    expect(restored).toMatchObject({ id: 'm1', parent_stack_id: null });
+  });
+
+  it('throws a conflict when the expected version is out of date', async () => {
+    const repos = seeded();
+    const updated = await repos.notes.update('loose', { content: '第二版' });
+    await expect(repos.notes.update('loose', { content: '第三版' }, { expectedUpdatedAt: '2026-10-01T00:00:00.000Z' }))
+      .rejects.toBeInstanceOf(NoteConflictError);
+    await repos.notes.update('loose', { content: '第三版' }, { expectedUpdatedAt: updated.updated_at });
+    expect((await repos.revisions.list('loose')).map(r => r.content)).toEqual(['第二版', '内容 loose']);
+  });
+
+  it('echoes writes to subscribers', async () => {
+    const repos = seeded();
+    const listener = vi.fn();
+    const unsubscribe = repos.notes.subscribe(listener);
+    await repos.notes.update('loose', { content: '改了' });
+    await repos.notes.remove('loose');
+    unsubscribe();
+    await repos.notes.restore(['loose']);
+
+    expect(listener.mock.calls.map(([change]) => change.type)).toEqual(['upsert', 'delete']);
+  });
+
+  it('renames tags and searches live notes', async () => {
+    const repos = seeded();
+    expect(await repos.taxonomy.renameTag('react', 'React')).toBe(1);
+    expect((await repos.taxonomy.get()).tags).toEqual([{ name: 'React', count: 1 }]);
+    expect(ids((await repos.search.search({ text: 'React' })).notes)).toEqual(['loose']);
+    expect(ids((await repos.search.search({ text: '内容 -loose' })).notes)).toEqual(['s', 'm1', 'm2']);
+  });
+});
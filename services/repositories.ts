@@ -0,0 +1,851 @@
+/**
+ * 数据访问层：notes / insights 两张表的读写都经过这里。
+ * - *Row 类型与数据库列一一对应（snake_case、可为 null）
+ * - 映射函数负责与前端的 Note / InsightHistoryItem 互转，组件不再直接接触行数据
+ * - Supabase 实现之外另有内存实现（inMemoryRepositories.ts），便于脱离 Supabase 测试逻辑
+ * - subscribe 推送其他设备上的增删改，applyNoteChange / applyInsightChange 把变更合并进本地状态
+ */
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Note, NoteType, StackCategory, InsightHistoryItem, InsightPlatform, NoteRevision } from '../types';
+import { supabase } from './supabaseClient';
+import { parseSearchQuery, toPgroongaQuery } from './searchText';
+
+// ---------- Rows ----------
+
+export interface NoteRow {
+  id: string;
+  user_id: string;
+  content: string;
+  image_url: string | null;
+  created_at: string;
+  type: NoteType;
+  analysis_category: string | null;
+  analysis_tags: string[] | null;
+  analysis_sentiment: string | null;
+  ocr_text: string | null;
+  title: string | null;
+  stack_category: StackCategory | null;
+  parent_stack_id: string | null;
+  position: number | null;
+  updated_at: string;
+  deleted_at: string | null;
+  stack_items?: { count: number }[]; // 仅分页查询时嵌入：卡片组成员数
+}
+
+export interface InsightRow {
+  id: string;
+  user_id: string;
+  content: string;
+  platform: InsightPlatform;
+  category: StackCategory | null;
+  created_at: string;
+  generated_image_url: string | null;
+  related_notes: Note[] | null;
+  stack_id: string | null;
+  model: string | null;
+  fallback_models: string[] | null;
+  updated_at: string;
+}
+
+export interface NoteRevisionRow {
+  id: string;
+  note_id: string;
+  user_id: string;
+  content: string;
+  created_at: string;
+}
+
+// ---------- Mappers ----------
+
+export function noteFromRow(row: NoteRow): Note {
+  return {
+    id: row.id,
+    content: row.content ?? '',
+    image_url: row.image_url ?? undefined,
+    created_at: row.created_at,
+    type: row.type,
+    analysis_category: row.analysis_category ?? undefined,
+    analysis_tags: row.analysis_tags ?? undefined,
+    analysis_sentiment: row.analysis_sentiment ?? undefined,
+    ocr_text: row.ocr_text ?? undefined,
+    title: row.title ?? undefined,
+    stack_category: row.stack_category ?? undefined,
+    parent_stack_id: row.parent_stack_id,
+    position: row.position ?? null,
+    updated_at: row.updated_at,
+    deleted_at: row.deleted_at ?? undefined,
+    stackItemCount: row.stack_items?.[0]?.count,
+  };
+}
+
+/** 笔记中可写入数据库的字段（不含 id / created_at 与 stackItems 等纯前端状态） */
+export type NoteInput = Partial<Pick<Note,
+  'content' | 'image_url' | 'type' | 'analysis_category' | 'analysis_tags' | 'analysis_sentiment' | 'ocr_text' | 'title' | 'stack_category' | 'parent_stack_id'
+>>;
+
+export function noteToRow(note: NoteInput): Partial<NoteRow> {
+  const row: Partial<NoteRow> = {};
+  if (note.content !== undefined) row.content = note.content;
+  if (note.image_url !== undefined) row.image_url = note.image_url || null;
+  if (note.type !== undefined) row.type = note.type;
+  if (note.analysis_category !== undefined) row.analysis_category = note.analysis_category;
+  if (note.analysis_tags !== undefined) row.analysis_tags = note.analysis_tags;
+  if (note.analysis_sentiment !== undefined) row.analysis_sentiment = note.analysis_sentiment;
+  if (note.ocr_text !== undefined) row.ocr_text = note.ocr_text || null;
+  if (note.title !== undefined) row.title = note.title;
+  if (note.stack_category !== undefined) row.stack_category = note.stack_category;
+  if (note.parent_stack_id !== undefined) row.parent_stack_id = note.parent_stack_id;
+  return row;
+}
+
+export const revisionFromRow = (row: NoteRevisionRow): NoteRevision => ({
+  id: row.id,
+  noteId: row.note_id,
+  content: row.content,
+  createdAt: row.created_at,
+});
+
+export function insightFromRow(row: InsightRow): InsightHistoryItem {
+  return {
+    id: row.id,
+    content: row.content,
+    platform: row.platform,
+    createdAt: Date.parse(row.created_at),
+    generatedImageUrl: row.generated_image_url ?? undefined,
+    category: row.category ?? undefined,
+    relatedNotes: row.related_notes ?? undefined,
+    stackId: row.stack_id ?? undefined,
+    model: row.model ?? undefined,
+    fallbackModels: row.fallback_models ?? undefined,
+  };
+}
+
+export type InsightInput = Omit<InsightHistoryItem, 'id' | 'createdAt'>;
+
+export function insightToRow(item: Partial<InsightInput>): Partial<InsightRow> {
+  const row: Partial<InsightRow> = {};
+  if (item.content !== undefined) row.content = item.content;
+  if (item.platform !== undefined) row.platform = item.platform;
+  if (item.category !== undefined) row.category = item.category;
+  if (item.generatedImageUrl !== undefined) row.generated_image_url = item.generatedImageUrl || null;
+  if (item.relatedNotes !== undefined) row.related_notes = item.relatedNotes;
+  if (item.stackId !== undefined) row.stack_id = item.stackId || null;
+  if (item.model !== undefined) row.model = item.model;
+  if (item.fallbackModels !== undefined) row.fallback_models = item.fallbackModels;
+  return row;
+}
+
+export const byNewest = (a: { created_at: string }, b: { created_at: string }) => b.created_at.localeCompare(a.created_at);
+
+/**
+ * 把平铺的笔记按 parent_stack_id 组装成树：返回顶层笔记，卡片组的成员放进 stackItems。
+ * 分页加载时卡片组可能尚未加载，找不到父级的成员默认不出现在顶层；
+ * 回收站里单独删除的成员则需要 orphansAsRoots 显示在顶层。
+ */
+export function buildNoteTree(flat: Note[], { orphansAsRoots = false } = {}): Note[] {
+  const byId = new Map<string, Note>();
+  flat.forEach(note => byId.set(note.id, { ...note, stackItems: [] }));
+
+  const roots: Note[] = [];
+  flat.forEach(note => {
+    const node = byId.get(note.id)!;
+    const parent = note.parent_stack_id ? byId.get(note.parent_stack_id) : undefined;
+    if (parent) parent.stackItems!.push(node);
+    else if (!note.parent_stack_id || orphansAsRoots) roots.push(node);
+  });
+  byId.forEach(node => node.stackItems!.sort(byPosition));
+  return roots;
+}
+
+/** 卡片组内的顺序：手动排过的按 position，其余排在后面并保持原有顺序（sort 是稳定的） */
+const byPosition = (a: Note, b: Note) => (a.position ?? Infinity) - (b.position ?? Infinity) || 0;
+
+/** 卡片组的笔记数：成员未加载时用服务端计数 */
+export const stackSize = (stack: Note): number => stack.stackItemCount ?? stack.stackItems?.length ?? 0;
+
+/** buildNoteTree 的逆操作：展开为平铺列表（去掉 stackItems） */
+export function flattenNoteTree(tree: Note[]): Note[] {
+  return tree.flatMap(({ stackItems, ...note }) => [note, ...flattenNoteTree(stackItems || [])]);
+}
+
+/** 在树中查找笔记，返回的卡片组保留 stackItems */
+export function findNote(tree: Note[], id: string): Note | undefined {
+  for (const note of tree) {
+    if (note.id === id) return note;
+    const nested = note.stackItems && findNote(note.stackItems, id);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+/** 笔记所在的各级卡片组，从顶层到直接所属的卡片组；不在卡片组中时为空 */
+export function stackAncestors(tree: Note[], id: string): Note[] {
+  const path: Note[] = [];
+  const seen = new Set<string>([id]);
+  let parentId = findNote(tree, id)?.parent_stack_id;
+  while (parentId && !seen.has(parentId)) {
+    const parent = findNote(tree, parentId);
+    if (!parent) break;
+    seen.add(parentId);
+    path.unshift(parent);
+    parentId = parent.parent_stack_id;
+  }
+  return path;
+}
+
+/** 把这些笔记移入 stackId 是否会形成环：卡片组不能移入它自己或它的子卡片组 */
+export const createsStackCycle = (tree: Note[], noteIds: string[], stackId: string): boolean => {
+  const ancestorIds = new Set([stackId, ...stackAncestors(tree, stackId).map(stack => stack.id)]);
+  return noteIds.some(id => ancestorIds.has(id));
+};
+
+/** 删除笔记后的树；解散卡片组时成员回到上一级（顶层卡片组即回到主列表），cascade 时整棵子树一起消失 */
+export function removeNoteFromTree(tree: Note[], id: string, stackMode: StackDeleteMode = 'dissolve'): Note[] {
+  const flat = flattenNoteTree(tree);
+  const parentId = flat.find(note => note.id === id)?.parent_stack_id ?? null;
+  const members = flat.filter(note => note.parent_stack_id === id);
+  const dissolved = stackMode === 'dissolve'
+    ? members.reduce((next, member) => patchNoteInTree(next, member.id, { parent_stack_id: parentId }), tree)
+    : tree;
+  return applyNoteChange(dissolved, { type: 'delete', id });
+}
+
+/** 合并新加载的一批笔记（下一页或卡片组成员）；loadedStackIds 中的卡片组视为成员已全部加载 */
+export function mergeNotesIntoTree(tree: Note[], incoming: Note[], loadedStackIds: string[] = []): Note[] {
+  const byId = new Map(flattenNoteTree(tree).map(note => [note.id, note]));
+  incoming.forEach(note => byId.set(note.id, { ...byId.get(note.id), ...note, stackItems: undefined }));
+  loadedStackIds.forEach(id => {
+    const stack = byId.get(id);
+    if (stack) byId.set(id, { ...stack, stackItemCount: undefined });
+  });
+  return buildNoteTree([...byId.values()].sort(byNewest));
+}
+
+// ---------- Changes ----------
+
+/** 一条远端变更；resync 表示连接中断后重新连上，期间的变更可能已丢失，需要整体重新拉取 */
+export type RowChange<T> =
+  | { type: 'upsert'; record: T }
+  | { type: 'delete'; id: string }
+  | { type: 'resync' };
+
+/** 迟到的旧版本（例如自己更新后才收到的上一次回显）不应覆盖较新的本地数据 */
+const isStale = (local: Note, incoming: Note) =>
+  !!local.updated_at && !!incoming.updated_at && Date.parse(incoming.updated_at) < Date.parse(local.updated_at);
+
+/** 把一条笔记变更合并进笔记树；parent_stack_id 的变化会让笔记在卡片组之间移动 */
+export function applyNoteChange(tree: Note[], change: RowChange<Note>): Note[] {
+  if (change.type === 'resync') return tree;
+  const flat = flattenNoteTree(tree);
+  const id = change.type === 'delete' ? change.id : change.record.id;
+  const index = flat.findIndex(note => note.id === id);
+
+  // 成员未加载的卡片组只有计数，移入移出时同步增减
+  const adjustCount = (stackId: string | null | undefined, delta: number) => {
+    const stack = stackId ? flat.find(note => note.id === stackId) : undefined;
+    if (stack?.stackItemCount !== undefined) stack.stackItemCount = Math.max(stack.stackItemCount + delta, 0);
+  };
+
+  if (change.type === 'delete') {
+    if (index < 0) return tree;
+    adjustCount(flat[index].parent_stack_id, -1);
+    flat.splice(index, 1);
+  } else if (index < 0) {
+    adjustCount(change.record.parent_stack_id, 1);
+    flat.push(change.record);
+  } else {
+    const existing = flat[index];
+    if (isStale(existing, change.record)) return tree;
+    if (existing.parent_stack_id !== change.record.parent_stack_id) {
+      adjustCount(existing.parent_stack_id, -1);
+      adjustCount(change.record.parent_stack_id, 1);
+    }
+    flat[index] = { ...change.record, stackItemCount: change.record.stackItemCount ?? existing.stackItemCount };
+  }
+  return buildNoteTree(flat.sort(byNewest));
+}
+
+/** 修改树中的某条笔记；改 parent_stack_id 会让它移入或移出卡片组，并与数据库一样清除原来的手动顺序 */
+export function patchNoteInTree(tree: Note[], id: string, patch: Partial<Note>): Note[] {
+  const note = findNote(tree, id);
+  if (!note) return tree;
+  const moved = patch.parent_stack_id !== undefined && patch.parent_stack_id !== note.parent_stack_id;
+  return applyNoteChange(tree, { type: 'upsert', record: { ...note, ...(moved ? { position: null } : {}), ...patch } });
+}
+
+/** 标签改名（目标已存在即合并），保持原有顺序并去重；to 为 null 表示删除该标签 */
+export function renameTag(tags: string[], from: string, to: string | null): string[] {
+  return Array.from(new Set(tags.flatMap(tag => (tag === from ? (to ? [to] : []) : [tag]))));
+}
+
+/** 把标签改名同步到已加载的笔记上 */
+export function renameTagInTree(tree: Note[], from: string, to: string | null): Note[] {
+  return flattenNoteTree(tree)
+    .filter(note => note.analysis_tags?.includes(from))
+    .reduce((next, note) => patchNoteInTree(next, note.id, { analysis_tags: renameTag(note.analysis_tags!, from, to) }), tree);
+}
+
+export function renameCategoryInTree(tree: Note[], from: string, to: string): Note[] {
+  return flattenNoteTree(tree)
+    .filter(note => note.analysis_category === from)
+    .reduce((next, note) => patchNoteInTree(next, note.id, { analysis_category: to }), tree);
+}
+
+export function applyInsightChange(list: InsightHistoryItem[], change: RowChange<InsightHistoryItem>): InsightHistoryItem[] {
+  if (change.type === 'resync') return list;
+  if (change.type === 'delete') return list.filter(item => item.id !== change.id);
+  const rest = list.filter(item => item.id !== change.record.id);
+  return [change.record, ...rest].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** 带版本号更新时，远端已被其他设备修改（或删除）；current 为远端的最新版本 */
+export class NoteConflictError extends Error {
+  readonly current: Note | null;
+
+  constructor(current: Note | null) {
+    super(current ? '笔记已在其他设备上修改' : '笔记已在其他设备上删除');
+    this.name = 'NoteConflictError';
+    this.current = current;
+  }
+}
+
+// ---------- Interfaces ----------
+
+/** 分页游标：上一页最后一条的 created_at 与 id（id 用于区分同一时刻创建的笔记） */
+export interface NotesCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface NotesPage {
+  notes: Note[];
+  nextCursor: NotesCursor | null;
+}
+
+export interface TaxonomyEntry {
+  name: string;
+  count: number; // 使用该标签/分类的笔记数（不含回收站）
+}
+
+/** 用户已有的标签与分类，按使用次数倒序 */
+export interface Taxonomy {
+  tags: TaxonomyEntry[];
+  categories: TaxonomyEntry[];
+}
+
+/** 搜索的筛选条件；未设置的项不限 */
+export interface SearchFilters {
+  categories?: string[];
+  sentiments?: string[];
+  types?: NoteType[];
+  from?: string; // ISO 时间，包含
+  to?: string;   // ISO 时间，不包含
+}
+
+export interface SearchQuery extends SearchFilters {
+  text: string; // 查询语法见 searchText.ts，可为空（只按筛选条件）
+}
+
+export interface SearchResults {
+  notes: Note[];
+  insights: InsightHistoryItem[];
+}
+
+/** 分类、情绪、类型只适用于笔记；设置了这些条件时不再搜索洞察 */
+export const searchesInsights = (query: SearchQuery): boolean =>
+  query.text.trim() !== '' && !query.categories?.length && !query.sentiments?.length && !query.types?.length;
+
+/** 相关笔记：相似度为余弦相似度，越接近 1 越相近 */
+export interface RelatedNote {
+  note: Note;
+  similarity: number;
+}
+
+/** 主列表中彼此相似的两条笔记（a < b） */
+export interface SimilarPair {
+  a: string;
+  b: string;
+  similarity: number;
+}
+
+export interface EmbeddingInput {
+  noteId: string;
+  embedding: number[];
+  sourceUpdatedAt: string; // 计算时笔记的 updated_at
+}
+
+/** 删除卡片组时如何处理成员：dissolve 解散（成员回到主列表），cascade 连同成员一起移入回收站 */
+export type StackDeleteMode = 'dissolve' | 'cascade';
+
+/** 一次删除的回执，用于撤销 */
+export interface DeleteReceipt {
+  ids: string[];                                      // 移入回收站的笔记
+  dissolved?: { stackId: string; noteIds: string[] }; // 解散时移出的成员
+}
+
+export interface CreateOptions {
+  /** 客户端预先生成的 id；重复提交同一 id 不会产生重复行（离线队列重试依赖这一点） */
+  id?: string;
+}
+
+export interface UpdateOptions {
+  /** 本地所见版本的 updated_at；远端不一致时抛出 NoteConflictError 而不是覆盖 */
+  expectedUpdatedAt?: string;
+}
+
+export interface NotesRepository {
+  /** 按创建时间倒序分页返回顶层笔记（不含卡片组成员，卡片组带 stackItemCount） */
+  listPage(options: { cursor?: NotesCursor | null; limit: number }): Promise<NotesPage>;
+  /** 加载若干卡片组的全部成员，包括各级子卡片组中的成员（整棵子树） */
+  listStackItems(stackIds: string[]): Promise<Note[]>;
+  /** 笔记总数（不含卡片组本身） */
+  count(): Promise<number>;
+  /** 带有某个标签的全部笔记（含卡片组成员），按创建时间倒序 */
+  listByTag(tag: string): Promise<Note[]>;
+  get(id: string): Promise<Note | null>;
+  create(input: NoteInput, options?: CreateOptions): Promise<Note>;
+  /** 新建顶层卡片组并把 noteIds 移入，两步一起成功或一起失败；返回新卡片组（不含成员） */
+  createStack(input: Pick<NoteInput, 'title' | 'stack_category'>, noteIds: string[], options?: CreateOptions): Promise<Note>;
+  update(id: string, patch: NoteInput, options?: UpdateOptions): Promise<Note>;
+  /** 软删除（移入回收站）；卡片组默认解散，成员回到上一级；cascade 时连同整棵子树删除 */
+  remove(id: string, options?: { stackMode?: StackDeleteMode }): Promise<DeleteReceipt>;
+  /** 从回收站恢复，卡片组会连同一起删除的子树恢复；所属卡片组仍在回收站的成员回到主列表 */
+  restore(ids: string[]): Promise<Note[]>;
+  /** 撤销一次删除：恢复笔记并把解散时移出的成员放回卡片组 */
+  undoRemove(receipt: DeleteReceipt): Promise<Note[]>;
+  /** 回收站中的笔记树，按删除时间倒序 */
+  listTrash(): Promise<Note[]>;
+  /** 永久删除（只作用于回收站中的笔记），卡片组会连同回收站中的整棵子树一起删除 */
+  purge(ids: string[]): Promise<void>;
+  /** 把若干笔记（或卡片组）移入卡片组；stackId 为 null 表示移到顶层。会形成环时抛出错误；移动后手动顺序清空 */
+  moveToStack(noteIds: string[], stackId: string | null): Promise<void>;
+  /** 按 orderedIds 的顺序保存卡片组直接成员的手动顺序，生成文章时按此顺序组织素材 */
+  reorderStack(stackId: string, orderedIds: string[]): Promise<void>;
+  /** 订阅笔记变更（包括本设备自己的写入），返回取消订阅函数 */
+  subscribe(listener: (change: RowChange<Note>) => void): () => void;
+}
+
+export interface InsightsRepository {
+  list(): Promise<InsightHistoryItem[]>;
+  create(input: InsightInput): Promise<InsightHistoryItem>;
+  update(id: string, patch: Partial<InsightInput>): Promise<InsightHistoryItem>;
+  subscribe(listener: (change: RowChange<InsightHistoryItem>) => void): () => void;
+}
+
+export interface RevisionsRepository {
+  /** 笔记的历史版本（不含当前内容），按时间倒序；恢复旧版本即用其内容更新笔记，会再产生一条历史 */
+  list(noteId: string): Promise<NoteRevision[]>;
+}
+
+export interface TaxonomyRepository {
+  get(): Promise<Taxonomy>;
+  /** 在所有笔记（含回收站）上把标签改名；目标已存在即合并，to 为 null 表示删除。返回受影响的笔记数 */
+  renameTag(from: string, to: string | null): Promise<number>;
+  /** 在所有笔记（含回收站）上把分类改名，目标已存在即合并 */
+  renameCategory(from: string, to: string): Promise<number>;
+}
+
+export interface SearchRepository {
+  /** 全文搜索笔记（正文、图片文字、标签、卡片组标题）与洞察，有关键词时按相关度排序 */
+  search(query: SearchQuery): Promise<SearchResults>;
+}
+
+export interface EmbeddingsRepository {
+  /** 需要（重新）计算向量的笔记：没有向量、之后被修改过或由其他模型计算，新近的优先；不含卡片组与回收站 */
+  listStale(model: string, limit: number): Promise<Note[]>;
+  upsert(entries: EmbeddingInput[], model: string): Promise<void>;
+  /** 与某条笔记最相近的笔记（含卡片组成员），按相似度倒序；该笔记还没有向量时返回空 */
+  related(noteId: string, limit: number): Promise<RelatedNote[]>;
+  /** 主列表中最近的笔记里相似度不低于 minSimilarity 的笔记对，按相似度倒序 */
+  similarPairs(minSimilarity: number, limit: number): Promise<SimilarPair[]>;
+}
+
+export interface ImagesRepository {
+  /** 上传笔记图片并返回可公开访问的地址；同一路径重复上传会覆盖 */
+  upload(path: string, image: Blob): Promise<string>;
+}
+
+export interface Repositories {
+  notes: NotesRepository;
+  insights: InsightsRepository;
+  revisions: RevisionsRepository;
+  taxonomy: TaxonomyRepository;
+  search: SearchRepository;
+  embeddings: EmbeddingsRepository;
+  images: ImagesRepository;
+}
+
+// ---------- Supabase ----------
+
+export const SEARCH_LIMIT = 50;
+export const INSIGHT_SEARCH_LIMIT = 20;
+/** 分组建议只在最近这么多条主列表笔记中两两比较 */
+export const SIMILAR_PAIRS_WINDOW = 200;
+
+export function createSupabaseRepositories(userId: string, client: SupabaseClient = supabase): Repositories {
+  // 删除事件无法按 user_id 过滤（旧行只带主键），RLS 也不作用于 DELETE 事件：会收到所有用户删除的行 id。
+  // payload 里只有主键，不会泄露内容；本地找不到的 id 按删除处理即为空操作
+  const subscribeTable = <Row extends { id: string }, T>(
+    table: string,
+    fromRow: (row: Row) => T,
+    listener: (change: RowChange<T>) => void,
+    isDeleted: (row: Row) => boolean = () => false
+  ) => {
+    const emitRow = (row: Row) => listener(isDeleted(row) ? { type: 'delete', id: row.id } : { type: 'upsert', record: fromRow(row) });
+    let connected = false;
+    const channel = client
+      .channel(`${table}:${userId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter: `user_id=eq.${userId}` },
+        payload => emitRow(payload.new as Row))
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter: `user_id=eq.${userId}` },
+        payload => emitRow(payload.new as Row))
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table },
+        payload => { if (payload.old?.id) listener({ type: 'delete', id: payload.old.id }); })
+      .subscribe((status, err) => {
+        if (status === 'SUBSCRIBED') {
+          if (connected) listener({ type: 'resync' });
+          connected = true;
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.warn(`Realtime ${table} channel ${status}:`, err?.message);
+        }
+      });
+    return () => { client.removeChannel(channel); };
+  };
+
+  /** 逐层向下查找卡片组未删除的全部后代（不含卡片组本身） */
+  const listDescendants = async <Row extends { id: string }>(rootIds: string[], columns: string): Promise<Row[]> => {
+    const rows: Row[] = [];
+    const seen = new Set(rootIds);
+    let frontier = rootIds;
+    while (frontier.length) {
+      const { data, error } = await client.from('notes').select(columns).in('parent_stack_id', frontier).is('deleted_at', null);
+      if (error) throw error;
+      const level = (data as unknown as Row[]).filter(row => !seen.has(row.id));
+      level.forEach(row => seen.add(row.id));
+      rows.push(...level);
+      frontier = level.map(row => row.id);
+    }
+    return rows;
+  };
+
+  const notes: NotesRepository = {
+    async listPage({ cursor, limit }) {
+      let query = client
+        .from('notes')
+        .select('*, stack_items:notes!parent_stack_id(count)')
+        .is('parent_stack_id', null)
+        .is('deleted_at', null)
+        .is('stack_items.deleted_at', null)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit + 1);
+      if (cursor) {
+        query = query.or(`created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`);
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      const rows = data as NoteRow[];
+      const page = rows.slice(0, limit).map(row =>
+        row.type === NoteType.STACK ? noteFromRow(row) : { ...noteFromRow(row), stackItemCount: undefined }
+      );
+      const last = page[page.length - 1];
+      return {
+        notes: buildNoteTree(page),
+        nextCursor: rows.length > limit ? { createdAt: last.created_at, id: last.id } : null,
+      };
+    },
+
+    async listStackItems(stackIds) {
+      if (stackIds.length === 0) return [];
+      const rows = await listDescendants<NoteRow>(stackIds, '*');
+      return rows.sort(byNewest).map(noteFromRow);
+    },
+
+    async count() {
+      const { count, error } = await client
+        .from('notes')
+        .select('id', { count: 'exact', head: true })
+        .neq('type', NoteType.STACK)
+        .is('deleted_at', null);
+      if (error) throw error;
+      return count ?? 0;
+    },
+
+    async listByTag(tag) {
+      const { data, error } = await client
+        .from('notes')
+        .select('*')
+        .contains('analysis_tags', [tag])
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data as NoteRow[]).map(noteFromRow);
+    },
+
+    async get(id) {
+      const { data, error } = await client.from('notes').select('*').eq('id', id).is('deleted_at', null).maybeSingle();
+      if (error) throw error;
+      return data ? noteFromRow(data as NoteRow) : null;
+    },
+
+    async create(input, options = {}) {
+      const row = { ...noteToRow(input), user_id: userId };
+      const query = options.id
+        ? client.from('notes').upsert({ ...row, id: options.id }, { onConflict: 'id' })
+        : client.from('notes').insert(row);
+      const { data, error } = await query.select().single();
+      if (error) throw error;
+      return noteFromRow(data as NoteRow);
+    },
+
+    // 建组与移入在同一个事务里，见 migrations/…_create_stack.sql
+    async createStack(input, noteIds, options = {}) {
+      const { data, error } = await client.rpc('create_stack', {
+        new_stack_id: options.id || crypto.randomUUID(),
+        stack_title: input.title ?? null,
+        category: input.stack_category ?? null,
+        member_ids: noteIds,
+      });
+      if (error) throw error;
+      return noteFromRow((data as NoteRow[])[0]);
+    },
+
+    async update(id, patch, options = {}) {
+      let query = client.from('notes').update(noteToRow(patch)).eq('id', id);
+      if (options.expectedUpdatedAt) query = query.eq('updated_at', options.expectedUpdatedAt);
+      const { data, error } = await query.select();
+      if (error) throw error;
+      if (!data.length) {
+        if (!options.expectedUpdatedAt) throw new Error(`Note not found: ${id}`);
+        throw new NoteConflictError(await notes.get(id));
+      }
+      return noteFromRow(data[0] as NoteRow);
+    },
+
+    // 删除、恢复与撤销各由一个数据库函数在同一个事务里完成，见 migrations/…_note_trash_functions.sql
+    async remove(id, { stackMode = 'dissolve' } = {}) {
+      const { data, error } = await client.rpc('remove_note', { target_id: id, stack_mode: stackMode });
+      if (error) throw error;
+      const { ids, member_ids: memberIds } = data as { ids: string[]; member_ids: string[] };
+      return {
+        ids,
+        dissolved: memberIds.length ? { stackId: id, noteIds: memberIds } : undefined,
+      };
+    },
+
+    async restore(ids) {
+      if (ids.length === 0) return [];
+      const { data, error } = await client.rpc('restore_notes', { note_ids: ids });
+      if (error) throw error;
+      return (data as NoteRow[]).map(noteFromRow);
+    },
+
+    async undoRemove(receipt) {
+      const { data, error } = await client.rpc('undo_remove_note', {
+        note_ids: receipt.ids,
+        dissolved_stack_id: receipt.dissolved?.stackId ?? null,
+        dissolved_member_ids: receipt.dissolved?.noteIds ?? [],
+      });
+      if (error) throw error;
+      return (data as NoteRow[]).map(noteFromRow);
+    },
+
+    async listTrash() {
+      const { data, error } = await client
+        .from('notes')
+        .select('*')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+      if (error) throw error;
+      return buildNoteTree((data as NoteRow[]).map(noteFromRow), { orphansAsRoots: true });
+    },
+
+    async purge(ids) {
+      if (ids.length === 0) return;
+      const { error } = await client.rpc('purge_notes', { note_ids: ids });
+      if (error) throw error;
+    },
+
+    async moveToStack(noteIds, stackId) {
+      if (noteIds.length === 0) return;
+      const { error } = await client
+        .from('notes')
+        .update({ parent_stack_id: stackId })
+        .in('id', noteIds);
+      if (error) throw error;
+    },
+
+    // 一次写入整组顺序，见 migrations/…_note_positions.sql
+    async reorderStack(stackId, orderedIds) {
+      const { error } = await client.rpc('reorder_stack_items', { target_stack_id: stackId, ordered_ids: orderedIds });
+      if (error) throw error;
+    },
+
+    subscribe: listener => subscribeTable<NoteRow, Note>('notes', noteFromRow, listener, row => !!row.deleted_at),
+  };
+
+  const insights: InsightsRepository = {
+    async list() {
+      const { data, error } = await client
+        .from('insights')
+        .select('*')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data as InsightRow[]).map(insightFromRow);
+    },
+
+    async create(input) {
+      const { data, error } = await client
+        .from('insights')
+        .insert({ ...insightToRow(input), user_id: userId })
+        .select()
+        .single();
+      if (error) throw error;
+      return insightFromRow(data as InsightRow);
+    },
+
+    async update(id, patch) {
+      const { data, error } = await client
+        .from('insights')
+        .update(insightToRow(patch))
+        .eq('id', id)
+        .select()
+        .single();
+      if (error) throw error;
+      return insightFromRow(data as InsightRow);
+    },
+
+    subscribe: listener => subscribeTable<InsightRow, InsightHistoryItem>('insights', insightFromRow, listener),
+  };
+
+  // 历史版本由数据库触发器在 content 变化时写入，这里只读
+  const revisions: RevisionsRepository = {
+    async list(noteId) {
+      const { data, error } = await client
+        .from('note_revisions')
+        .select('*')
+        .eq('note_id', noteId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data as NoteRevisionRow[]).map(revisionFromRow);
+    },
+  };
+
+  // 统计与批量改名由数据库函数完成，见 migrations/…_note_taxonomy.sql
+  const taxonomy: TaxonomyRepository = {
+    async get() {
+      const { data, error } = await client.rpc('note_taxonomy');
+      if (error) throw error;
+      const rows = (data || []) as Array<{ kind: 'tag' | 'category'; name: string; note_count: number }>;
+      const entries = (kind: 'tag' | 'category') => rows
+        .filter(row => row.kind === kind)
+        .map(row => ({ name: row.name, count: Number(row.note_count) }));
+      return { tags: entries('tag'), categories: entries('category') };
+    },
+
+    async renameTag(from, to) {
+      const { data, error } = await client.rpc('rename_note_tag', { from_tag: from, to_tag: to });
+      if (error) throw error;
+      return data as number;
+    },
+
+    async renameCategory(from, to) {
+      const { data, error } = await client
+        .from('notes')
+        .update({ analysis_category: to })
+        .eq('analysis_category', from)
+        .select('id');
+      if (error) throw error;
+      return data.length;
+    },
+  };
+
+  // 中文分词与相关度由 PGroonga 完成，见 migrations/…_search.sql
+  const search: SearchRepository = {
+    async search(query) {
+      const range = { created_from: query.from ?? null, created_to: query.to ?? null };
+      // 只把解析出的词交给 PGroonga，不直接拼接用户输入
+      const terms = parseSearchQuery(query.text);
+      const text = { query: toPgroongaQuery(terms), excluded_terms: terms.excluded.length ? terms.excluded : null };
+      const [notesResult, insightsResult] = await Promise.all([
+        client.rpc('search_notes', {
+          ...text,
+          categories: query.categories?.length ? query.categories : null,
+          sentiments: query.sentiments?.length ? query.sentiments : null,
+          note_types: query.types?.length ? query.types : null,
+          ...range,
+          max_results: SEARCH_LIMIT,
+        }),
+        searchesInsights(query)
+          ? client.rpc('search_insights', { ...text, ...range, max_results: INSIGHT_SEARCH_LIMIT })
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+      if (notesResult.error) throw notesResult.error;
+      if (insightsResult.error) throw insightsResult.error;
+      return {
+        notes: (notesResult.data as NoteRow[]).map(noteFromRow),
+        insights: (insightsResult.data as InsightRow[]).map(insightFromRow),
+      };
+    },
+  };
+
+  // 相似度由 pgvector 计算，见 migrations/…_note_embeddings.sql
+  const embeddings: EmbeddingsRepository = {
+    async listStale(model, limit) {
+      const { data, error } = await client.rpc('notes_needing_embedding', { current_model: model, max_results: limit });
+      if (error) throw error;
+      return (data as NoteRow[]).map(noteFromRow);
+    },
+
+    async upsert(entries, model) {
+      if (entries.length === 0) return;
+      const { error } = await client.from('note_embeddings').upsert(entries.map(entry => ({
+        note_id: entry.noteId,
+        user_id: userId,
+        embedding: entry.embedding,
+        model,
+        source_updated_at: entry.sourceUpdatedAt,
+      })));
+      if (error) throw error;
+    },
+
+    async related(noteId, limit) {
+      const { data, error } = await client.rpc('match_notes', { target_note_id: noteId, match_count: limit });
+      if (error) throw error;
+      const matches = (data || []) as Array<{ note_id: string; similarity: number }>;
+      if (matches.length === 0) return [];
+      const { data: rows, error: notesError } = await client
+        .from('notes')
+        .select('*')
+        .in('id', matches.map(match => match.note_id));
+      if (notesError) throw notesError;
+      const byId = new Map((rows as NoteRow[]).map(row => [row.id, noteFromRow(row)]));
+      return matches
+        .filter(match => byId.has(match.note_id))
+        .map(match => ({ note: byId.get(match.note_id)!, similarity: Number(match.similarity) }));
+    },
+
+    async similarPairs(minSimilarity, limit) {
+      const { data, error } = await client.rpc('similar_note_pairs', {
+        min_similarity: minSimilarity,
+        max_pairs: limit,
+        recent_count: SIMILAR_PAIRS_WINDOW,
+      });
+      if (error) throw error;
+      return ((data || []) as Array<{ note_a: string; note_b: string; similarity: number }>)
+        .map(row => ({ a: row.note_a, b: row.note_b, similarity: Number(row.similarity) }));
+    },
+  };
+
+  const images: ImagesRepository = {
+    async upload(path, image) {
+      const { error } = await client.storage
+        .from('notes-images')
+        .upload(path, image, { contentType: image.type || 'image/png', upsert: true });
+      if (error) throw error;
+      return client.storage.from('notes-images').getPublicUrl(path).data.publicUrl;
+    },
+  };
+
+  return { notes, insights, revisions, taxonomy, search, embeddings, images };
+}
@@ -0,0 +1,76 @@
+/**
+ * 搜索语法：空格表示同时包含，OR 表示任一，-词 表示排除，"…" 表示整体匹配。
+ */
+import { describe, expect, it } from 'vitest';
+import { highlightKeywords, highlightSegments, matchesSearch, matchSnippet, parseSearchQuery, toPgroongaQuery } from './searchText';
+
+describe('parseSearchQuery', () => {
+  it('splits groups on OR and collects exclusions', () => {
+    expect(parseSearchQuery('react hooks OR vue -angular')).toEqual({ groups: [['react', 'hooks'], ['vue']], excluded: ['angular'] });
+  });
+
+  it('keeps quoted phrases together, including excluded ones', () => {
+    expect(parseSearchQuery('"状态 管理" -"class 组件"')).toEqual({ groups: [['状态 管理']], excluded: ['class 组件'] });
+  });
+
+  it('drops empty groups and treats a lone dash as a word', () => {
+    expect(parseSearchQuery('  OR react OR  ')).toEqual({ groups: [['react']], excluded: [] });
+    expect(parseSearchQuery('-')).toEqual({ groups: [['-']], excluded: [] });
+    expect(parseSearchQuery('')).toEqual({ groups: [], excluded: [] });
+  });
+});
+
+describe('toPgroongaQuery', () => {
+  it('quotes every word and joins groups with OR', () => {
+    expect(toPgroongaQuery(parseSearchQuery('react hooks OR "状态 管理" -vue'))).toBe('("react" "hooks") OR ("状态 管理")');
+  });
+
+  it('escapes quotes and backslashes so input cannot change the query syntax', () => {
+    expect(toPgroongaQuery(parseSearchQuery('a\\"b) OR (c*'))).toBe('("a\\\\\\"b)") OR ("(c*")');
+  });
+
+  it('is empty when there are only exclusions', () => {
+    expect(toPgroongaQuery(parseSearchQuery('-vue'))).toBe('');
+  });
+});
+
+describe('matchesSearch', () => {
+  const note = '用 React Hooks 管理状态';
+
+  it('requires every word of some group, case-insensitively', () => {
+    expect(matchesSearch(note, parseSearchQuery('react hooks'))).toBe(true);
+    expect(matchesSearch(note, parseSearchQuery('react vue'))).toBe(false);
+    expect(matchesSearch(note, parseSearchQuery('vue OR hooks'))).toBe(true);
+  });
+
+  it('rejects text containing an excluded word', () => {
+    expect(matchesSearch(note, parseSearchQuery('react -状态'))).toBe(false);
+    expect(matchesSearch(note, parseSearchQuery('-vue'))).toBe(true);
+  });
+
+  it('matches everything when the query is empty', () => {
+    expect(matchesSearch(note, parseSearchQuery(''))).toBe(true);
+  });
+});
+
+describe('highlighting', () => {
+  it('highlights keywords but not exclusions', () => {
+    expect(highlightKeywords('react OR react -vue')).toEqual(['react']);
+  });
+
+  it('prefers the longer keyword when they overlap', () => {
+    expect(highlightSegments('React Hooks', ['react', 'react hooks'])).toEqual([{ text: 'React Hooks', match: true }]);
+    expect(highlightSegments('a.b', ['.'])).toEqual([
+      { text: 'a', match: false },
+      { text: '.', match: true },
+      { text: 'b', match: false },
+    ]);
+  });
+
+  it('cuts a snippet around the first match', () => {
+    const snippet = matchSnippet(`${'前'.repeat(200)}关键词${'后'.repeat(200)}`, ['关键词'], 30);
+    expect(snippet).toContain('关键词');
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+  });
+});
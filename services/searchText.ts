@@ -0,0 +1,75 @@
+/**
+ * 搜索词的解析与结果高亮。查询语法与服务端 PGroonga 一致的子集：
+ * 空格分隔表示同时包含，OR 表示任一，-词 表示排除，"…" 表示整体匹配。
+ */
+
+export interface SearchTerms {
+  /** 任一组满足即可；组内关键词须全部包含 */
+  groups: string[][];
+  excluded: string[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const tokenize = (query: string): string[] =>
+  Array.from(query.matchAll(/(-?)"([^"]+)"|(\S+)/g), m => (m[2] !== undefined ? `${m[1]}${m[2]}` : m[3]));
+
+export function parseSearchQuery(query: string): SearchTerms {
+  const groups: string[][] = [[]];
+  const excluded: string[] = [];
+  tokenize(query.trim()).forEach(token => {
+    if (token === 'OR') groups.push([]);
+    else if (token.startsWith('-') && token.length > 1) excluded.push(token.slice(1));
+    else groups[groups.length - 1].push(token);
+  });
+  return { groups: groups.filter(group => group.length > 0), excluded };
+}
+
+/** 放进 PGroonga 短语的词：反斜杠与双引号需要转义 */
+const quotePgroonga = (word: string) => `"${word.replace(/[\\"]/g, '\\$&')}"`;
+
+/**
+ * 由解析结果生成 PGroonga 查询（&@~）：每个词都作为加引号的短语，用户输入不会被当作查询语法；
+ * 排除词不在其中，由服务端用 &@ 单独判断。没有关键词时为空字符串。
+ */
+export const toPgroongaQuery = (terms: SearchTerms): string =>
+  terms.groups.map(group => `(${group.map(quotePgroonga).join(' ')})`).join(' OR ');
+
+/** 需要高亮的关键词（不含排除项） */
+export const highlightKeywords = (query: string): string[] =>
+  Array.from(new Set(parseSearchQuery(query).groups.flat()));
+
+/** 在本地判断文本是否满足查询（内存仓储与离线场景使用），不区分大小写 */
+export function matchesSearch(text: string, terms: SearchTerms): boolean {
+  const haystack = text.toLowerCase();
+  const has = (word: string) => haystack.includes(word.toLowerCase());
+  if (terms.excluded.some(has)) return false;
+  return terms.groups.length === 0 || terms.groups.some(group => group.every(has));
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** 把文本切成普通/命中片段，用于渲染高亮 */
+export function highlightSegments(text: string, keywords: string[]): HighlightSegment[] {
+  if (!text || keywords.length === 0) return [{ text, match: false }];
+  // 长的关键词优先，避免被其中的短词截断
+  const pattern = new RegExp(`(${[...keywords].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`, 'gi');
+  const lowered = new Set(keywords.map(keyword => keyword.toLowerCase()));
+  return text.split(pattern)
+    .filter(part => part !== '')
+    .map(part => ({ text: part, match: lowered.has(part.toLowerCase()) }));
+}
+
+/** 截取第一个命中位置附近的一段文字，长文本只展示相关部分 */
+export function matchSnippet(text: string, keywords: string[], maxLength = 140): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= maxLength) return flat;
+  const lower = flat.toLowerCase();
+  const positions = keywords.map(k => lower.indexOf(k.toLowerCase())).filter(i => i >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, Math.min(first - Math.floor(maxLength / 3), flat.length - maxLength));
+  return `${start > 0 ? '…' : ''}${flat.slice(start, start + maxLength)}${start + maxLength < flat.length ? '…' : ''}`;
+}
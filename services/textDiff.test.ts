@@ -0,0 +1,50 @@
+/**
+ * 历史版本的左右对照：按行对齐，配对的修改行再按字符标出改动部分。
+ */
+import { describe, expect, it } from 'vitest';
+import { sideBySideDiff } from './textDiff';
+
+const text = (segments: { text: string }[] | null) => segments?.map(s => s.text).join('') ?? null;
+
+describe('sideBySideDiff', () => {
+  it('marks identical text as unchanged', () => {
+    expect(sideBySideDiff('a\nb', 'a\nb')).toEqual([
+      { left: [{ text: 'a', changed: false }], right: [{ text: 'a', changed: false }], changed: false },
+      { left: [{ text: 'b', changed: false }], right: [{ text: 'b', changed: false }], changed: false },
+    ]);
+  });
+
+  it('pairs a modified line and highlights only the changed characters', () => {
+    const [row] = sideBySideDiff('今天学习 React', '今天复习 React');
+    expect(row.changed).toBe(true);
+    expect(row.left).toEqual([
+      { text: '今天', changed: false },
+      { text: '学', changed: true },
+      { text: '习 React', changed: false },
+    ]);
+    expect(row.right).toEqual([
+      { text: '今天', changed: false },
+      { text: '复', changed: true },
+      { text: '习 React', changed: false },
+    ]);
+  });
+
+  it('leaves the other side empty for added and removed lines', () => {
+    const rows = sideBySideDiff('保留\n删掉', '保留\n新增一\n新增二');
+    expect(rows.map(row => [text(row.left), text(row.right)])).toEqual([
+      ['保留', '保留'],
+      ['删掉', '新增一'],
+      [null, '新增二'],
+    ]);
+    expect(rows[2]).toEqual({ left: null, right: [{ text: '新增二', changed: true }], changed: true });
+    expect(sideBySideDiff('a\nb', 'a')[1]).toEqual({ left: [{ text: 'b', changed: true }], right: null, changed: true });
+  });
+
+  it('marks very long modified lines as changed without a character diff', () => {
+    const before = 'x'.repeat(600);
+    const after = 'y'.repeat(600);
+    expect(sideBySideDiff(before, after)).toEqual([
+      { left: [{ text: before, changed: true }], right: [{ text: after, changed: true }], changed: true },
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * 文本差异比较，用于笔记历史版本的左右对照。
+ * 先按行做 LCS，再把相邻的删除/新增行配对，对配对的行按字符再比一次以高亮改动的部分。
+ */
+
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+/** 左右对照中的一行；left 为空表示右侧新增，right 为空表示左侧被删除 */
+export interface SideBySideRow {
+  left: DiffSegment[] | null;
+  right: DiffSegment[] | null;
+  changed: boolean;
+}
+
+type DiffOp<T> = { type: 'equal' | 'delete' | 'insert'; item: T };
+
+// 超过这个规模（两侧长度之积）就不再逐字符比较，整行标记为修改
+const MAX_CHAR_DIFF_CELLS = 250_000;
+
+/** 最长公共子序列，返回把 a 变成 b 的操作序列 */
+function diffSequences<T>(a: T[], b: T[]): DiffOp<T>[] {
+  const table = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', item: a[i] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      ops.push({ type: 'delete', item: a[i++] });
+    } else {
+      ops.push({ type: 'insert', item: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'delete', item: a[i++] });
+  while (j < b.length) ops.push({ type: 'insert', item: b[j++] });
+  return ops;
+}
+
+/** 把连续的同类字符合并成片段 */
+function toSegments(ops: DiffOp<string>[], side: 'left' | 'right'): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  ops.forEach(op => {
+    if (op.type === (side === 'left' ? 'insert' : 'delete')) return;
+    const changed = op.type !== 'equal';
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) last.text += op.item;
+    else segments.push({ text: op.item, changed });
+  });
+  return segments;
+}
+
+function diffLine(before: string, after: string): Pick<SideBySideRow, 'left' | 'right'> {
+  if (before.length * after.length > MAX_CHAR_DIFF_CELLS) {
+    return { left: [{ text: before, changed: true }], right: [{ text: after, changed: true }] };
+  }
+  const ops = diffSequences([...before], [...after]);
+  return { left: toSegments(ops, 'left'), right: toSegments(ops, 'right') };
+}
+
+/** 生成左右对照的差异行：左侧为 before，右侧为 after */
+export function sideBySideDiff(before: string, after: string): SideBySideRow[] {
+  const ops = diffSequences(before.split('\n'), after.split('\n'));
+  const rows: SideBySideRow[] = [];
+
+  let index = 0;
+  while (index < ops.length) {
+    const op = ops[index];
+    if (op.type === 'equal') {
+      rows.push({ left: [{ text: op.item, changed: false }], right: [{ text: op.item, changed: false }], changed: false });
+      index++;
+      continue;
+    }
+
+    // 收集一段连续的删除与新增，按顺序两两配对
+    const deleted: string[] = [];
+    const inserted: string[] = [];
+    while (index < ops.length && ops[index].type !== 'equal') {
+      (ops[index].type === 'delete' ? deleted : inserted).push(ops[index].item);
+      index++;
+    }
+    for (let k = 0; k < Math.max(deleted.length, inserted.length); k++) {
+      const left = deleted[k];
+      const right = inserted[k];
+      if (left !== undefined && right !== undefined) {
+        rows.push({ ...diffLine(left, right), changed: true });
+      } else {
+        rows.push({
+          left: left !== undefined ? [{ text: left, changed: true }] : null,
+          right: right !== undefined ? [{ text: right, changed: true }] : null,
+          changed: true,
+        });
+      }
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,104 @@
+/**
+ * AI 用量与成本统计：订阅 platoClient 的用量事件，估算费用后写入 Supabase `ai_usage` 表。
+ * 价格仅用于估算（美元），以平台账单为准。
+ */
+import { onUsage, UsageEvent } from './platoClient';
+import { supabase } from './supabaseClient';
+
+interface ModelPrice {
+  input: number;   // 每百万输入 token
+  output: number;  // 每百万输出 token
+  image?: number;  // 每张图片
+}
+
+// 按模型名前缀匹配，越具体的放越前面
+const PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  ['gemini-3-pro', { input: 2, output: 12 }],
+  ['gemini-2.5-pro', { input: 1.25, output: 10 }],
+  ['gemini-2.5-flash', { input: 0.3, output: 2.5 }],
+  ['claude', { input: 3, output: 15 }],
+  ['nano-banana', { input: 0, output: 0, image: 0.039 }],
+  ['text-embedding-3-small', { input: 0.02, output: 0 }],
+  ['gemini-embedding', { input: 0.15, output: 0 }],
+];
+
+const FALLBACK_PRICE: ModelPrice = { input: 1, output: 5, image: 0.04 };
+
+/** 估算单次调用费用（美元） */
+export function estimateCost(event: Pick<UsageEvent, 'model' | 'promptTokens' | 'completionTokens' | 'images'>): number {
+  const price = PRICES.find(([prefix]) => event.model.startsWith(prefix))?.[1] ?? FALLBACK_PRICE;
+  const tokens = (event.promptTokens * price.input + event.completionTokens * price.output) / 1_000_000;
+  const images = event.images * (price.image ?? FALLBACK_PRICE.image!);
+  return tokens + images;
+}
+
+// 用例标签的中文名，供仪表盘展示
+export const USAGE_CASE_LABELS: Record<string, string> = {
+  analyze: '笔记分析',
+  title: '标题生成',
+  category: '分类判定',
+  insights: '洞察文章',
+  image_prompt: '配图提示词',
+  social_image: '社交配图',
+  inline_image: '文中配图',
+  cover_image: '封面图',
+  embedding: '笔记向量',
+  other: '其他',
+};
+
+/**
+ * 开始为某个用户记录用量，返回停止函数。
+ * 写入失败只打日志，不影响业务调用。
+ */
+export function startUsageTracking(userId: string): () => void {
+  return onUsage(async (event) => {
+    const { error } = await supabase.from('ai_usage').insert({
+      user_id: userId,
+      endpoint: event.endpoint,
+      use_case: event.useCase || 'other',
+      provider: event.provider,
+      model: event.model,
+      prompt_tokens: event.promptTokens,
+      completion_tokens: event.completionTokens,
+      images: event.images,
+      latency_ms: event.latencyMs,
+      success: event.ok,
+      cost_usd: estimateCost(event),
+    });
+    if (error) {
+      console.error('Error recording AI usage:', error.message);
+    }
+  });
+}
+
+export interface DailyUsage {
+  day: string;        // YYYY-MM-DD
+  useCase: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+/** 读取最近 days 天按日、按用例汇总的用量（来自 ai_usage_daily 视图） */
+export async function fetchDailyUsage(days = 7): Promise<DailyUsage[]> {
+  // 视图按 UTC 日期汇总，这里同样按 UTC 取起始日
+  const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const { data, error } = await supabase
+    .from('ai_usage_daily')
+    .select('*')
+    .gte('day', since)
+    .order('day', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    day: row.day,
+    useCase: row.use_case,
+    calls: row.calls,
+    promptTokens: row.prompt_tokens,
+    completionTokens: row.completion_tokens,
+    costUsd: Number(row.cost_usd) || 0,
+  }));
+}
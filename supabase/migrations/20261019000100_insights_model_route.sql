@@ -0,0 +1,4 @@
+-- 记录生成洞察时实际使用的模型，以及之前失败而被跳过的回退模型
+alter table public.insights
+  add column if not exists model text,
+  add column if not exists fallback_models text[] not null default '{}';
@@ -0,0 +1,40 @@
+-- 每次 AI 调用的用量与估算费用
+create table if not exists public.ai_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  endpoint text not null check (endpoint in ('chat', 'image')),
+  use_case text not null default 'other',
+  provider text not null,
+  model text not null,
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  images integer not null default 0,
+  latency_ms integer not null default 0,
+  success boolean not null default true,
+  cost_usd numeric(12, 6) not null default 0
+);
+
+create index if not exists ai_usage_user_created_idx on public.ai_usage (user_id, created_at desc);
+
+alter table public.ai_usage enable row level security;
+
+create policy "ai_usage_select_own" on public.ai_usage
+  for select using (auth.uid() = user_id);
+
+create policy "ai_usage_insert_own" on public.ai_usage
+  for insert with check (auth.uid() = user_id);
+
+-- 按日、按用例汇总，供仪表盘读取（沿用调用者的 RLS）
+create or replace view public.ai_usage_daily
+with (security_invoker = on) as
+select
+  user_id,
+  (created_at at time zone 'utc')::date as day,
+  use_case,
+  count(*)::integer as calls,
+  sum(prompt_tokens)::integer as prompt_tokens,
+  sum(completion_tokens)::integer as completion_tokens,
+  sum(cost_usd) as cost_usd
+from public.ai_usage
+group by user_id, day, use_case;
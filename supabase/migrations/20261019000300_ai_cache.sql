@@ -0,0 +1,27 @@
+-- AI 响应缓存（可选，前端设置 VITE_AI_CACHE_REMOTE=true 时启用）
+create table if not exists public.ai_cache (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  key text not null,
+  value text not null,
+  model text not null,
+  use_case text not null default 'other',
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  primary key (user_id, key)
+);
+
+create index if not exists ai_cache_user_use_case_idx on public.ai_cache (user_id, use_case);
+
+alter table public.ai_cache enable row level security;
+
+create policy "ai_cache_select_own" on public.ai_cache
+  for select using (auth.uid() = user_id);
+
+create policy "ai_cache_insert_own" on public.ai_cache
+  for insert with check (auth.uid() = user_id);
+
+create policy "ai_cache_update_own" on public.ai_cache
+  for update using (auth.uid() = user_id);
+
+create policy "ai_cache_delete_own" on public.ai_cache
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,32 @@
+-- 多端实时同步：notes / insights 加入 realtime 发布，并记录最后修改时间用于冲突检测
+alter table public.notes
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.insights
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_touch_updated_at on public.notes;
+create trigger notes_touch_updated_at
+  before update on public.notes
+  for each row execute function public.touch_updated_at();
+
+drop trigger if exists insights_touch_updated_at on public.insights;
+create trigger insights_touch_updated_at
+  before update on public.insights
+  for each row execute function public.touch_updated_at();
+
+-- 更新事件需要带上完整的旧行（例如 parent_stack_id 的变化）
+alter table public.notes replica identity full;
+alter table public.insights replica identity full;
+
+alter publication supabase_realtime add table public.notes, public.insights;
@@ -0,0 +1,8 @@
+-- 按 created_at 游标分页加载顶层笔记，以及按卡片组加载成员 / 统计成员数
+create index if not exists notes_top_level_created_idx
+  on public.notes (user_id, created_at desc, id desc)
+  where parent_stack_id is null;
+
+create index if not exists notes_parent_stack_idx
+  on public.notes (parent_stack_id)
+  where parent_stack_id is not null;
@@ -0,0 +1,13 @@
+-- 软删除：deleted_at 非空的笔记位于回收站，可恢复或永久删除
+alter table public.notes
+  add column if not exists deleted_at timestamptz;
+
+-- 主列表分页只看未删除的顶层笔记
+drop index if exists public.notes_top_level_created_idx;
+create index if not exists notes_top_level_created_idx
+  on public.notes (user_id, created_at desc, id desc)
+  where parent_stack_id is null and deleted_at is null;
+
+create index if not exists notes_trash_idx
+  on public.notes (user_id, deleted_at desc)
+  where deleted_at is not null;
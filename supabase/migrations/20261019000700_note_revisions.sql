@@ -0,0 +1,37 @@
+-- 笔记编辑历史：每次 content 变化时由触发器保存修改前的版本（无论来自哪台设备）
+create table if not exists public.note_revisions (
+  id uuid primary key default gen_random_uuid(),
+  note_id uuid not null references public.notes (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  content text not null,
+  -- 该版本成为当前内容的时间（即被替换前那一行的 updated_at）
+  created_at timestamptz not null default now()
+);
+
+create index if not exists note_revisions_note_created_idx on public.note_revisions (note_id, created_at desc);
+
+alter table public.note_revisions enable row level security;
+
+create policy "note_revisions_select_own" on public.note_revisions
+  for select using (auth.uid() = user_id);
+
+create policy "note_revisions_insert_own" on public.note_revisions
+  for insert with check (auth.uid() = user_id);
+
+create or replace function public.record_note_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  insert into public.note_revisions (note_id, user_id, content, created_at)
+  values (old.id, old.user_id, coalesce(old.content, ''), old.updated_at);
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_record_revision on public.notes;
+create trigger notes_record_revision
+  after update of content on public.notes
+  for each row
+  when (old.content is distinct from new.content)
+  execute function public.record_note_revision();
@@ -0,0 +1,49 @@
+-- 标签与分类管理：统计当前用户使用过的标签/分类，并支持跨笔记重命名、合并与删除标签。
+-- 函数均为 security invoker，仍受 notes 表的 RLS 约束。
+
+create index if not exists notes_analysis_tags_idx on public.notes using gin (analysis_tags);
+
+-- 回收站外的笔记中每个标签、分类的使用次数（卡片组自身不计）
+create or replace function public.note_taxonomy()
+returns table (kind text, name text, note_count bigint)
+language sql
+stable
+security invoker
+as $$
+  select 'tag', tag, count(*)
+  from public.notes, unnest(analysis_tags) as tag
+  where deleted_at is null and type <> 'STACK'
+  group by tag
+  union all
+  select 'category', analysis_category, count(*)
+  from public.notes
+  where deleted_at is null and type <> 'STACK' and analysis_category is not null
+  group by analysis_category
+  order by 3 desc, 2;
+$$;
+
+-- 把 from_tag 改名为 to_tag（已存在则相当于合并，自动去重并保持原有顺序）；to_tag 为 null 表示删除该标签。
+-- 回收站中的笔记一并处理，恢复后不会带回旧标签。返回受影响的笔记数。
+create or replace function public.rename_note_tag(from_tag text, to_tag text)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  affected integer;
+begin
+  update public.notes
+  set analysis_tags = (
+    select coalesce(array_agg(t.tag order by t.first_pos), '{}')
+    from (
+      select tag, min(pos) as first_pos
+      from unnest(array_replace(analysis_tags, from_tag, to_tag)) with ordinality as u(tag, pos)
+      where tag is not null
+      group by tag
+    ) t
+  )
+  where analysis_tags @> array[from_tag];
+  get diagnostics affected = row_count;
+  return affected;
+end;
+$$;
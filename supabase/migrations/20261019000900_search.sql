@@ -0,0 +1,74 @@
+-- 全文搜索：使用 Supabase 自带的 PGroonga 扩展，按 N-gram 切分中文，无需分词词典；英文按单词匹配。
+-- 笔记检索正文、图片 OCR 文字、标签与卡片组标题；洞察检索正文。
+create extension if not exists pgroonga with schema extensions;
+
+-- 图片中识别出的文字，由分析时一并写入
+alter table public.notes add column if not exists ocr_text text;
+
+-- 索引与查询必须使用同一个表达式
+create or replace function public.note_search_document(content text, ocr_text text, tags text[], title text)
+returns text[]
+language sql
+immutable
+as $$
+  select array[coalesce(content, ''), coalesce(ocr_text, ''), coalesce(array_to_string(tags, ' '), ''), coalesce(title, '')];
+$$;
+
+create index if not exists notes_search_idx on public.notes
+  using extensions.pgroonga (public.note_search_document(content, ocr_text, analysis_tags, title));
+
+create index if not exists insights_search_idx on public.insights
+  using extensions.pgroonga (content);
+
+-- query 使用 PGroonga 查询语法（空格分隔表示同时包含，OR、-排除）；为空时只按筛选条件返回。
+-- 筛选参数为 null 表示不限。有关键词时按相关度排序，否则按时间倒序。
+create or replace function public.search_notes(
+  query text default '',
+  categories text[] default null,
+  sentiments text[] default null,
+  note_types text[] default null,
+  created_from timestamptz default null,
+  created_to timestamptz default null,
+  max_results integer default 50
+)
+returns setof public.notes
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select n.*
+  from public.notes n
+  where n.deleted_at is null
+    and (coalesce(query, '') = '' or public.note_search_document(n.content, n.ocr_text, n.analysis_tags, n.title) &@~ query)
+    and (categories is null or n.analysis_category = any (categories))
+    and (sentiments is null or n.analysis_sentiment = any (sentiments))
+    and (note_types is null or n.type = any (note_types))
+    and (created_from is null or n.created_at >= created_from)
+    and (created_to is null or n.created_at < created_to)
+  order by
+    case when coalesce(query, '') = '' then 0 else pgroonga_score(n.tableoid, n.ctid) end desc,
+    n.created_at desc
+  limit max_results;
+$$;
+
+create or replace function public.search_insights(
+  query text,
+  created_from timestamptz default null,
+  created_to timestamptz default null,
+  max_results integer default 20
+)
+returns setof public.insights
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select i.*
+  from public.insights i
+  where i.content &@~ query
+    and (created_from is null or i.created_at >= created_from)
+    and (created_to is null or i.created_at < created_to)
+  order by pgroonga_score(i.tableoid, i.ctid) desc, i.created_at desc
+  limit max_results;
+$$;
@@ -0,0 +1,101 @@
+-- 笔记向量：用于“相关笔记”和分组建议。向量由客户端经 AI 服务商计算后写入，
+-- 单独成表，避免笔记列表查询与实时推送带上大字段。卡片组本身不计算向量。
+create extension if not exists vector with schema extensions;
+
+create table if not exists public.note_embeddings (
+  note_id uuid primary key references public.notes (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  embedding extensions.vector(1536) not null,
+  -- 计算向量的模型；不同模型的向量不可比较
+  model text not null,
+  -- 计算时笔记的 updated_at，笔记之后再被修改即视为过期
+  source_updated_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists note_embeddings_user_idx on public.note_embeddings (user_id);
+create index if not exists note_embeddings_embedding_idx on public.note_embeddings
+  using hnsw (embedding extensions.vector_cosine_ops);
+
+alter table public.note_embeddings enable row level security;
+
+create policy "note_embeddings_select_own" on public.note_embeddings
+  for select using (auth.uid() = user_id);
+
+create policy "note_embeddings_insert_own" on public.note_embeddings
+  for insert with check (auth.uid() = user_id);
+
+create policy "note_embeddings_update_own" on public.note_embeddings
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- 需要（重新）计算向量的笔记：还没有向量、之后被修改过，或由其他模型计算。新近的优先。
+-- 没有任何文字（正文、图片文字、标签都为空）的笔记无从计算，跳过。
+create or replace function public.notes_needing_embedding(current_model text, max_results integer default 20)
+returns setof public.notes
+language sql
+stable
+security invoker
+as $$
+  select n.*
+  from public.notes n
+  left join public.note_embeddings e on e.note_id = n.id
+  where n.deleted_at is null
+    and n.type <> 'STACK'
+    and (coalesce(n.content, '') <> '' or coalesce(n.ocr_text, '') <> '' or coalesce(cardinality(n.analysis_tags), 0) > 0)
+    and (e.note_id is null or e.source_updated_at < n.updated_at or e.model <> current_model)
+  order by n.created_at desc
+  limit max_results;
+$$;
+
+-- 与某条笔记最相近的笔记（只比较同一模型的向量），按余弦相似度倒序
+create or replace function public.match_notes(target_note_id uuid, match_count integer default 6)
+returns table (note_id uuid, similarity double precision)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select e.note_id, 1 - (e.embedding <=> target.embedding)
+  from public.note_embeddings target
+  join public.note_embeddings e on e.model = target.model and e.note_id <> target.note_id
+  join public.notes n on n.id = e.note_id
+  where target.note_id = target_note_id
+    and n.deleted_at is null
+  order by e.embedding <=> target.embedding
+  limit match_count;
+$$;
+
+-- 主列表中（不在卡片组里）彼此相似的笔记对，只看最近的 recent_count 条，供分组建议使用
+create or replace function public.similar_note_pairs(
+  min_similarity double precision default 0.6,
+  max_pairs integer default 100,
+  recent_count integer default 200
+)
+returns table (note_a uuid, note_b uuid, similarity double precision)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  with loose as (
+    select e.note_id, e.embedding, e.model
+    from public.note_embeddings e
+    join public.notes n on n.id = e.note_id
+    where n.deleted_at is null
+      and n.parent_stack_id is null
+      and n.type <> 'STACK'
+    order by n.created_at desc
+    limit recent_count
+  )
+  select a.note_id, b.note_id, 1 - (a.embedding <=> b.embedding) as similarity
+  from loose a
+  join loose b on a.note_id < b.note_id and a.model = b.model
+  where 1 - (a.embedding <=> b.embedding) >= min_similarity
+  order by similarity desc
+  limit max_pairs;
+$$;
+
+-- 用量统计增加向量接口
+alter table public.ai_usage drop constraint if exists ai_usage_endpoint_check;
+alter table public.ai_usage
+  add constraint ai_usage_endpoint_check check (endpoint in ('chat', 'image', 'embedding'));
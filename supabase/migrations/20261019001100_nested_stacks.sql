@@ -0,0 +1,40 @@
+-- 嵌套卡片组：卡片组可以放进另一个卡片组（parent_stack_id 指向任意一级卡片组）
+-- 父级只能是卡片组，且不能形成环（卡片组移入它自己或它的子卡片组）
+create or replace function public.check_note_parent_stack()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.parent_stack_id is null then
+    return new;
+  end if;
+
+  if not exists (select 1 from public.notes where id = new.parent_stack_id and type = 'STACK') then
+    raise exception 'parent % is not a stack', new.parent_stack_id
+      using errcode = 'check_violation';
+  end if;
+
+  if exists (
+    with recursive ancestors as (
+      select id, parent_stack_id from public.notes where id = new.parent_stack_id
+      union
+      select n.id, n.parent_stack_id
+      from public.notes n
+      join ancestors a on n.id = a.parent_stack_id
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'moving % into % would create a stack cycle', new.id, new.parent_stack_id
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_check_parent_stack on public.notes;
+create trigger notes_check_parent_stack
+  before insert or update of parent_stack_id on public.notes
+  for each row
+  when (new.parent_stack_id is not null)
+  execute function public.check_note_parent_stack();
@@ -0,0 +1,46 @@
+-- 卡片组内的手动排序：position 越小越靠前；null 表示还没有手动排过，排在已排序的之后并按创建时间倒序
+-- 顺序就是生成文章时素材的顺序
+alter table public.notes
+  add column if not exists position integer;
+
+drop index if exists public.notes_parent_stack_idx;
+create index if not exists notes_parent_stack_idx
+  on public.notes (parent_stack_id, position)
+  where parent_stack_id is not null;
+
+-- 移到别的卡片组（或移出）后原来的顺序不再有意义
+create or replace function public.reset_note_position()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.position := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_reset_position on public.notes;
+create trigger notes_reset_position
+  before update of parent_stack_id on public.notes
+  for each row
+  when (old.parent_stack_id is distinct from new.parent_stack_id)
+  execute function public.reset_note_position();
+
+-- 按 ordered_ids 的顺序写入 position（从 0 开始）；不属于该卡片组的 id 会被忽略。返回更新的条数
+create or replace function public.reorder_stack_items(target_stack_id uuid, ordered_ids uuid[])
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  affected integer;
+begin
+  update public.notes
+  set position = array_position(ordered_ids, id) - 1
+  where parent_stack_id = target_stack_id
+    and id = any(ordered_ids)
+    and deleted_at is null;
+  get diagnostics affected = row_count;
+  return affected;
+end;
+$$;
@@ -0,0 +1,39 @@
+-- Plato 代理的按用户限流计数：多个函数实例共用同一个固定窗口
+-- 表没有任何 RLS 策略，计数函数只授权给 service_role：只有持有服务端密钥的代理能计数，
+-- 用户无法直接读写、也无法通过传入别的窗口参数重置自己的计数
+create table if not exists public.plato_rate_limits (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  window_start timestamptz not null,
+  request_count integer not null
+);
+
+alter table public.plato_rate_limits enable row level security;
+
+-- 为 target_user_id 计一次请求（原子操作）。未超限返回 null，超限时返回距窗口结束的毫秒数
+create or replace function public.consume_plato_rate_limit(target_user_id uuid, window_seconds integer, request_limit integer)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  window_length interval := make_interval(secs => window_seconds);
+  current_start timestamptz;
+  current_count integer;
+begin
+  insert into public.plato_rate_limits as r (user_id, window_start, request_count)
+  values (target_user_id, now(), 1)
+  on conflict (user_id) do update
+    set window_start = case when r.window_start <= now() - window_length then now() else r.window_start end,
+        request_count = case when r.window_start <= now() - window_length then 1 else r.request_count + 1 end
+  returning r.window_start, r.request_count into current_start, current_count;
+
+  if current_count <= request_limit then
+    return null;
+  end if;
+  return greatest(ceil(extract(epoch from (current_start + window_length - now())) * 1000)::integer, 0);
+end;
+$$;
+
+revoke all on function public.consume_plato_rate_limit(uuid, integer, integer) from public, anon, authenticated;
+grant execute on function public.consume_plato_rate_limit(uuid, integer, integer) to service_role;
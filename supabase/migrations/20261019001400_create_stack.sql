@@ -0,0 +1,19 @@
+-- 新建卡片组并把笔记移入，在同一个事务里完成：移入失败时卡片组也不会留下
+-- new_stack_id 由客户端预先生成（乐观更新使用同一个 id）；member_ids 中已删除的笔记会被忽略
+create or replace function public.create_stack(new_stack_id uuid, stack_title text, category text, member_ids uuid[])
+returns setof public.notes
+language plpgsql
+security invoker
+as $$
+begin
+  insert into public.notes (id, user_id, type, title, stack_category, content)
+  values (new_stack_id, auth.uid(), 'STACK', stack_title, category, '');
+
+  update public.notes
+  set parent_stack_id = new_stack_id
+  where id = any(member_ids)
+    and deleted_at is null;
+
+  return query select * from public.notes where id = new_stack_id;
+end;
+$$;
@@ -0,0 +1,129 @@
+-- 删除、恢复、撤销删除与永久删除各由一个函数完成，在同一个事务里执行：
+-- 中途失败不会留下“卡片组已解散但没有删除”之类的半成品，撤销与恢复总能把状态放回去
+
+-- 软删除一条笔记或卡片组。
+-- stack_mode = 'dissolve'：直接成员移到卡片组的上一级（没有上一级则回到主列表），只删除卡片组本身；
+-- stack_mode = 'cascade'：连同整棵子树一起删除。
+-- 同一次删除的行共用同一个 deleted_at（事务时间），恢复卡片组时据此找回一起删除的成员。
+-- 返回 { ids: 移入回收站的笔记, member_ids: 解散时移出的成员 }
+create or replace function public.remove_note(target_id uuid, stack_mode text default 'dissolve')
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+  target_parent uuid;
+  member_ids uuid[];
+  removed_ids uuid[];
+begin
+  if stack_mode not in ('dissolve', 'cascade') then
+    raise exception 'unknown stack mode %', stack_mode using errcode = 'invalid_parameter_value';
+  end if;
+
+  select parent_stack_id into target_parent
+  from public.notes
+  where id = target_id and deleted_at is null
+  for update;
+  if not found then
+    raise exception 'note % not found', target_id using errcode = 'no_data_found';
+  end if;
+
+  select coalesce(array_agg(id), '{}') into member_ids
+  from public.notes
+  where parent_stack_id = target_id and deleted_at is null;
+
+  if stack_mode = 'dissolve' then
+    update public.notes set parent_stack_id = target_parent where id = any(member_ids);
+    removed_ids := array[target_id];
+  else
+    with recursive subtree as (
+      select id from public.notes where id = target_id
+      union
+      select n.id
+      from public.notes n
+      join subtree s on n.parent_stack_id = s.id
+      where n.deleted_at is null
+    )
+    select array_agg(id) into removed_ids from subtree;
+  end if;
+
+  update public.notes set deleted_at = now() where id = any(removed_ids);
+
+  return jsonb_build_object(
+    'ids', to_jsonb(removed_ids),
+    'member_ids', to_jsonb(case when stack_mode = 'dissolve' then member_ids else '{}'::uuid[] end)
+  );
+end;
+$$;
+
+-- 从回收站恢复：卡片组连同同一次删除（deleted_at 相同）的子树一起恢复；
+-- 所属卡片组仍在回收站或已不存在的成员回到主列表。返回恢复的全部笔记
+create or replace function public.restore_notes(note_ids uuid[])
+returns setof public.notes
+language plpgsql
+security invoker
+as $$
+declare
+  restored_ids uuid[];
+begin
+  with recursive subtree as (
+    select id, deleted_at from public.notes where id = any(note_ids) and deleted_at is not null
+    union
+    select n.id, s.deleted_at
+    from public.notes n
+    join subtree s on n.parent_stack_id = s.id and n.deleted_at = s.deleted_at
+  )
+  select coalesce(array_agg(distinct id), '{}') into restored_ids from subtree;
+
+  update public.notes set deleted_at = null where id = any(restored_ids);
+
+  update public.notes n
+  set parent_stack_id = null
+  where n.id = any(restored_ids)
+    and n.parent_stack_id is not null
+    and not (n.parent_stack_id = any(restored_ids))
+    and not exists (select 1 from public.notes p where p.id = n.parent_stack_id and p.deleted_at is null);
+
+  return query select * from public.notes where id = any(restored_ids);
+end;
+$$;
+
+-- 撤销一次删除：恢复 note_ids，并把解散时移出的成员放回 dissolved_stack_id。返回恢复与移回的笔记
+create or replace function public.undo_remove_note(note_ids uuid[], dissolved_stack_id uuid default null, dissolved_member_ids uuid[] default '{}')
+returns setof public.notes
+language plpgsql
+security invoker
+as $$
+declare
+  restored_ids uuid[];
+begin
+  select coalesce(array_agg(id), '{}') into restored_ids from public.restore_notes(note_ids);
+
+  if dissolved_stack_id is not null and cardinality(dissolved_member_ids) > 0 then
+    update public.notes
+    set parent_stack_id = dissolved_stack_id
+    where id = any(dissolved_member_ids) and deleted_at is null;
+  end if;
+
+  return query select * from public.notes where id = any(restored_ids || dissolved_member_ids);
+end;
+$$;
+
+-- 永久删除回收站中的笔记，卡片组连同回收站中的整棵子树一起删除；不在回收站中的 id 忽略
+create or replace function public.purge_notes(note_ids uuid[])
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  with recursive subtree as (
+    select id from public.notes where id = any(note_ids) and deleted_at is not null
+    union
+    select n.id
+    from public.notes n
+    join subtree s on n.parent_stack_id = s.id
+    where n.deleted_at is not null
+  )
+  delete from public.notes where id in (select id from subtree);
+end;
+$$;
@@ -0,0 +1,66 @@
+-- 搜索词不再原样拼进 PGroonga 查询语法：
+-- query 由客户端按 searchText.parseSearchQuery 的结果生成，每个词都加引号并转义；
+-- 排除词单独作为 excluded_terms 传入，用 &@（普通关键词匹配，不解析语法）判断，
+-- 因此也支持只有排除词的查询。参数变了，先删除旧函数，避免 PostgREST 遇到同名重载。
+drop function if exists public.search_notes(text, text[], text[], text[], timestamptz, timestamptz, integer);
+drop function if exists public.search_insights(text, timestamptz, timestamptz, integer);
+
+create or replace function public.search_notes(
+  query text default '',
+  excluded_terms text[] default null,
+  categories text[] default null,
+  sentiments text[] default null,
+  note_types text[] default null,
+  created_from timestamptz default null,
+  created_to timestamptz default null,
+  max_results integer default 50
+)
+returns setof public.notes
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select n.*
+  from public.notes n
+  where n.deleted_at is null
+    and (coalesce(query, '') = '' or public.note_search_document(n.content, n.ocr_text, n.analysis_tags, n.title) &@~ query)
+    and (excluded_terms is null or not exists (
+      select 1 from unnest(excluded_terms) as term
+      where public.note_search_document(n.content, n.ocr_text, n.analysis_tags, n.title) &@ term
+    ))
+    and (categories is null or n.analysis_category = any (categories))
+    and (sentiments is null or n.analysis_sentiment = any (sentiments))
+    and (note_types is null or n.type = any (note_types))
+    and (created_from is null or n.created_at >= created_from)
+    and (created_to is null or n.created_at < created_to)
+  order by
+    case when coalesce(query, '') = '' then 0 else pgroonga_score(n.tableoid, n.ctid) end desc,
+    n.created_at desc
+  limit max_results;
+$$;
+
+create or replace function public.search_insights(
+  query text default '',
+  excluded_terms text[] default null,
+  created_from timestamptz default null,
+  created_to timestamptz default null,
+  max_results integer default 20
+)
+returns setof public.insights
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select i.*
+  from public.insights i
+  where (coalesce(query, '') = '' or i.content &@~ query)
+    and (excluded_terms is null or not exists (select 1 from unnest(excluded_terms) as term where i.content &@ term))
+    and (created_from is null or i.created_at >= created_from)
+    and (created_to is null or i.created_at < created_to)
+  order by
+    case when coalesce(query, '') = '' then 0 else pgroonga_score(i.tableoid, i.ctid) end desc,
+    i.created_at desc
+  limit max_results;
+$$;
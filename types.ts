@@ -31,19 +31,29 @@ export interface Note {
   created_at: string; // Changed from number to string for timestamptz
   type: NoteType;
   isProcessing?: boolean; // Made optional as it's a client-side state
+  isPending?: boolean; // Captured offline, still waiting in the local outbox
+  syncError?: string; // Last outbox sync failure, shown on pending cards
 
   // Analysis properties (flattened)
   analysis_category?: string;
   analysis_tags?: string[];
   analysis_sentiment?: string;
+  ocr_text?: string; // Text recognized in the attached image, indexed for search
 
   // Stack related properties
   title?: string;
   stackItems?: Note[]; // This is a client-side construct
+  stackItemCount?: number; // Server-side member count, set while stackItems has not been loaded yet
   stack_category?: StackCategory;
   parent_stack_id?: string | null;
+  position?: number | null; // Manual order within the parent stack; null = not reordered yet (falls back to newest first)
+  updated_at?: string; // Last server-side change, used to detect edit conflicts across devices
+  deleted_at?: string; // Set while the note sits in the trash
 }
 
+/** 用户手动修改的分析结果（分类、标签） */
+export type NoteAnalysisPatch = Partial<Pick<Note, 'analysis_category' | 'analysis_tags'>>;
+
 export interface InsightHistoryItem {
   id: string;
   content: string;
@@ -53,6 +63,16 @@ export interface InsightHistoryItem {
   category?: StackCategory;
   relatedNotes?: Note[]; // Source material used to generate this insight
   stackId?: string; // ID of the stack this insight belongs to
+  model?: string; // Model that actually produced the content
+  fallbackModels?: string[]; // Models tried first that failed and were skipped
+}
+
+// A past version of a note's content; the current version lives on the note itself
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  content: string;
+  createdAt: string; // When this version became the note's content
 }
 
 export interface Insight {
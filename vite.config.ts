@@ -1,6 +1,8 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { platoProxyPlugin } from './server/vitePlatoProxy';
+import { proxyConfigFromEnv } from './server/platoProxy';
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
@@ -9,15 +11,9 @@ export default defineConfig(({ mode }) => {
     server: {
       port: 3000,
       host: '0.0.0.0',
-      proxy: {
-        '/api': {
-          target: env.VITE_PLATO_BASE_URL,
-          changeOrigin: true,
-          rewrite: (path) => path.replace(/^\/api\//, ''),
-        },
-      },
     },
-    plugins: [react()],
+    // /api 由本地代理中间件处理：服务商 Key 只从 .env.local 的 PLATO_API_KEY 读取，不会进入前端包
+    plugins: [react(), platoProxyPlugin(proxyConfigFromEnv(env))],
     define: {
       // Keep Gemini key for potential fallback, though it's not used by Plato
       'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),